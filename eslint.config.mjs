@@ -12,6 +12,8 @@ const eslintConfig = defineConfig([
     "out/**",
     "build/**",
     "next-env.d.ts",
+    // Generated by `npm run cf-typegen`
+    "cloudflare-env.d.ts",
   ]),
 ]);
 
@@ -0,0 +1,7 @@
+-- Synced student progress, one row per sync key
+CREATE TABLE IF NOT EXISTS progress (
+  user_id TEXT PRIMARY KEY,
+  revision INTEGER NOT NULL,
+  data TEXT NOT NULL,
+  updated_at INTEGER NOT NULL
+);
@@ -0,0 +1,156 @@
+/**
+ * Offline support. Pages are fetched from the network first and fall back to
+ * the last copy when offline; Next's hashed build files and versioned deck
+ * files never change, so they are served from the cache once stored. Deck
+ * files are requested with ?v=<version> from decks.json, and storing a new
+ * version drops the old one. Progress is kept in localStorage, not here.
+ *
+ * On the first visit the page loads before the worker controls it, so the
+ * page posts the URLs it already fetched (see ServiceWorkerRegistration) and
+ * they are cached here as if they had been requested through the worker.
+ *
+ * Bump SHELL_CACHE when the list of pages to precache changes.
+ */
+const SHELL_CACHE = "erudify-shell-v1";
+const DECK_CACHE = "erudify-decks";
+const STATIC_CACHE = "erudify-static";
+const CACHES = [SHELL_CACHE, DECK_CACHE, STATIC_CACHE];
+
+const SHELL_URLS = ["/", "/read", "/read/tones", "/read/history", "/decks.json"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(keys.filter((key) => !CACHES.includes(key)).map((key) => caches.delete(key)))
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const response = handleRequest(event.request, event.request.mode === "navigate");
+  if (response) event.respondWith(response);
+});
+
+self.addEventListener("message", (event) => {
+  if (event.data?.type !== "cache-urls") return;
+
+  const { pages = [], urls = [] } = event.data;
+  event.waitUntil(
+    Promise.all([
+      ...pages.map((url) => cacheMissing(url, true)),
+      ...urls.map((url) => cacheMissing(url, false)),
+    ])
+  );
+});
+
+/**
+ * Response for a request the worker handles, or null to leave it to the
+ * network. Progress sync and other API calls always go to the server.
+ */
+function handleRequest(request, isPage) {
+  const url = new URL(request.url);
+  if (
+    request.method !== "GET" ||
+    url.origin !== self.location.origin ||
+    url.pathname.startsWith("/api/")
+  ) {
+    return null;
+  }
+
+  if (isPage || url.pathname === "/decks.json") {
+    return networkFirst(request);
+  } else if (url.searchParams.has("v")) {
+    return cacheVersionedDeckFile(request);
+  } else if (url.pathname.startsWith("/_next/static/")) {
+    return cacheFirst(request, STATIC_CACHE);
+  }
+  return staleWhileRevalidate(request);
+}
+
+/**
+ * Store a URL the page fetched before the worker controlled it
+ */
+async function cacheMissing(url, isPage) {
+  if (await caches.match(url)) return;
+  try {
+    await handleRequest(new Request(url), isPage);
+  } catch (error) {
+    console.error(`Failed to cache ${url}:`, error);
+  }
+}
+
+/**
+ * Fresh pages and deck manifest when online, the last stored copy otherwise
+ */
+async function networkFirst(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) await cache.put(request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request, { ignoreSearch: true });
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+/**
+ * A deck file at one version never changes; once a version is stored, older
+ * versions of the same file are removed
+ */
+async function cacheVersionedDeckFile(request) {
+  const cache = await caches.open(DECK_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const path = new URL(request.url).pathname;
+    const stale = (await cache.keys()).filter((key) => new URL(key.url).pathname === path);
+    await Promise.all(stale.map((key) => cache.delete(key)));
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+async function cacheFirst(request, cacheName) {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) await cache.put(request, response.clone());
+  return response;
+}
+
+/**
+ * Unversioned files such as stroke data and icons: the stored copy at once,
+ * refreshed in the background for next time
+ */
+async function staleWhileRevalidate(request) {
+  const cache = await caches.open(STATIC_CACHE);
+  const cached = await cache.match(request);
+  const refresh = fetch(request).then(async (response) => {
+    if (response.ok) await cache.put(request, response.clone());
+    return response;
+  });
+
+  if (cached) {
+    refresh.catch(() => {});
+    return cached;
+  }
+  return refresh;
+}
@@ -1,17 +1,107 @@
 import { spawnSync } from "node:child_process";
+import { createHash } from "node:crypto";
 import { readFile, stat, unlink, writeFile } from "node:fs/promises";
+import path from "node:path";
 import { encode } from "cbor-x";
 import YAML from "yaml";
 
-const INPUT_PATH = "public/HSK-1.yml";
-const TEMP_CBOR_PATH = "public/HSK-1.cbor";
-const OUTPUT_PATH = "public/HSK-1.cbor.zstd";
+const MANIFEST_PATH = "public/decks.json";
+const PUBLIC_DIR = "public";
+/**
+ * Make Me a Hanzi graphics.txt (https://github.com/skishore/makemeahanzi),
+ * one JSON character per line, for the characters the decks use (see
+ * data/makemeahanzi/README.md). The output must match STROKE_DATA_FILE in
+ * src/lib/config.ts.
+ */
+const STROKE_SOURCE = "data/makemeahanzi/graphics.txt";
+const STROKE_OUTPUT = "strokes.cbor.zstd";
+/** Make Me a Hanzi draws y upwards from this baseline in a 1024 box */
+const STROKE_BASELINE = 900;
+/** Simplified to traditional conversion table, see the file for its format */
+const TRADITIONAL_SOURCE = "data/simplified-traditional.txt";
+
+/**
+ * Stable content-derived exercise ID.
+ * Must match getExerciseId() in src/lib/exercise-id.ts.
+ */
+function exerciseId(chinese, english) {
+  const text = `${chinese}\u0000${english}`;
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  const hash = 4294967296 * (2097151 & h2) + (h1 >>> 0);
+  return hash.toString(16).padStart(14, "0");
+}
+
+/**
+ * Parse the conversion table into plain entries, keyed by simplified text,
+ * and reading-specific entries, keyed by simplified text and pinyin.
+ */
+async function loadTraditionalTable() {
+  const entries = new Map();
+  const readings = new Map();
+  const lines = (await readFile(TRADITIONAL_SOURCE, "utf8")).split("\n");
+
+  for (const [index, line] of lines.entries()) {
+    const text = line.trim();
+    if (!text || text.startsWith("#")) continue;
+
+    const [simplified, traditional, pinyin] = text.split(/\s+/);
+    if (!traditional || [...simplified].length !== [...traditional].length) {
+      throw new Error(`Invalid conversion at ${TRADITIONAL_SOURCE}:${index + 1}: "${text}".`);
+    }
+    if (pinyin) {
+      readings.set(`${simplified} ${pinyin}`, traditional);
+    } else {
+      entries.set(simplified, traditional);
+    }
+  }
+
+  const longest = Math.max(0, ...[...entries.keys()].map((key) => key.length));
+  return { entries, readings, longest };
+}
+
+/**
+ * Traditional form of a segment: a matching reading entry, otherwise the
+ * longest table entries from left to right, keeping unlisted characters.
+ */
+function toTraditional(segment, table) {
+  const reading = table.readings.get(`${segment.chinese} ${segment.pinyin}`);
+  if (reading) return reading;
+
+  let result = "";
+  let i = 0;
+  while (i < segment.chinese.length) {
+    let length = Math.min(table.longest, segment.chinese.length - i);
+    while (length > 0 && !table.entries.has(segment.chinese.slice(i, i + length))) {
+      length--;
+    }
+    if (length === 0) {
+      result += segment.chinese[i++];
+    } else {
+      result += table.entries.get(segment.chinese.slice(i, i + length));
+      i += length;
+    }
+  }
+  return result;
+}
 
 /**
  * Convert a parsed YAML entry to the runtime exercise shape.
  * Unknown top-level fields are intentionally ignored.
  */
-function toExercise(entry) {
+function toExercise(entry, traditionalTable) {
   if (!entry || typeof entry !== "object") {
     return null;
   }
@@ -38,46 +128,153 @@ function toExercise(entry) {
         pinyin = "";
       }
 
+      // Only stored when it differs, so the simplified text is the fallback
+      const traditional = toTraditional({ chinese, pinyin }, traditionalTable);
+
       return {
         chinese,
         pinyin,
         transliteration:
           typeof chunk.transliteration === "string" ? chunk.transliteration : undefined,
+        traditional: traditional !== chinese ? traditional : undefined,
       };
     })
     .filter(Boolean);
 
-  return { english, segments };
-}
-
-async function main() {
-  const yamlText = await readFile(INPUT_PATH, "utf8");
-  const parsed = YAML.parse(yamlText);
+  const id = exerciseId(segments.map((segment) => segment.chinese).join(""), english);
 
-  if (!Array.isArray(parsed)) {
-    throw new Error(`Expected ${INPUT_PATH} to parse as a top-level list.`);
-  }
+  return { id, english, segments };
+}
 
-  const exercises = parsed.map(toExercise).filter(Boolean);
-  const cbor = encode(exercises);
-  await writeFile(TEMP_CBOR_PATH, cbor);
+/**
+ * Encode a value as CBOR and compress it to the given public file.
+ */
+async function writeCborZstd(value, outputPath, label) {
+  const tempCborPath = outputPath.replace(/\.zstd$/, "");
+  await writeFile(tempCborPath, encode(value));
 
   const zstd = spawnSync(
     "zstd",
-    ["-f", "-q", "-19", TEMP_CBOR_PATH, "-o", OUTPUT_PATH],
+    ["-f", "-q", "-19", tempCborPath, "-o", outputPath],
     { stdio: "inherit" },
   );
 
   if (zstd.status !== 0) {
-    throw new Error("zstd compression failed.");
+    throw new Error(`zstd compression failed for ${label}.`);
+  }
+
+  await unlink(tempCborPath);
+}
+
+/**
+ * Content version of a deck's built files. The app requests them with this
+ * version so the service worker can cache them until the deck changes.
+ */
+async function deckVersion(deck) {
+  const hash = createHash("sha256");
+  hash.update(await readFile(path.join(PUBLIC_DIR, deck.exercises)));
+  hash.update(await readFile(path.join(PUBLIC_DIR, deck.wordList)));
+  return hash.digest("hex").slice(0, 12);
+}
+
+/**
+ * Build the compressed exercise file for one manifest deck.
+ * Returns the deck's exercises.
+ */
+async function buildDeck(deck, traditionalTable) {
+  const inputPath = deck.source;
+  const outputPath = path.join(PUBLIC_DIR, deck.exercises);
+
+  const yamlText = await readFile(inputPath, "utf8");
+  const parsed = YAML.parse(yamlText);
+
+  if (!Array.isArray(parsed)) {
+    throw new Error(`Expected ${inputPath} to parse as a top-level list.`);
   }
 
-  await unlink(TEMP_CBOR_PATH);
+  const exercises = parsed
+    .map((entry) => toExercise(entry, traditionalTable))
+    .filter(Boolean);
 
-  const inputStats = await stat(INPUT_PATH);
-  const outputStats = await stat(OUTPUT_PATH);
+  const seenIds = new Map();
+  for (const exercise of exercises) {
+    if (seenIds.has(exercise.id)) {
+      throw new Error(
+        `Duplicate exercise in ${inputPath}: "${exercise.english}" (id ${exercise.id}).`,
+      );
+    }
+    seenIds.set(exercise.id, exercise);
+  }
+
+  await writeCborZstd(exercises, outputPath, `deck ${deck.id}`);
+
+  const inputStats = await stat(inputPath);
+  const outputStats = await stat(outputPath);
   const ratio = (outputStats.size / inputStats.size).toFixed(3);
-  console.log(`Wrote ${OUTPUT_PATH} (${outputStats.size} bytes, ratio ${ratio})`);
+  console.log(`Wrote ${outputPath} (${outputStats.size} bytes, ratio ${ratio})`);
+
+  return exercises;
+}
+
+/**
+ * Build the stroke data for every character used by the decks: the stroke
+ * medians of each character, keyed by character, with y pointing down.
+ */
+async function buildStrokeData(characters) {
+  const strokes = {};
+  const lines = (await readFile(STROKE_SOURCE, "utf8")).split("\n");
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    const entry = JSON.parse(line);
+    if (!characters.has(entry.character) || !Array.isArray(entry.medians)) continue;
+    strokes[entry.character] = entry.medians.map((median) =>
+      median.map(([x, y]) => [Math.round(x), Math.round(STROKE_BASELINE - y)]),
+    );
+  }
+
+  const missing = [...characters].filter((character) => !strokes[character]);
+  if (missing.length > 0) {
+    throw new Error(
+      `No stroke data in ${STROKE_SOURCE} for ${missing.length} characters: ${missing.join("")}`,
+    );
+  }
+
+  const outputPath = path.join(PUBLIC_DIR, STROKE_OUTPUT);
+  await writeCborZstd(strokes, outputPath, "stroke data");
+  const outputStats = await stat(outputPath);
+  console.log(
+    `Wrote ${outputPath} (${Object.keys(strokes).length} characters, ${outputStats.size} bytes)`,
+  );
+}
+
+async function main() {
+  const manifest = JSON.parse(await readFile(MANIFEST_PATH, "utf8"));
+
+  if (!manifest || !Array.isArray(manifest.decks)) {
+    throw new Error(`Expected ${MANIFEST_PATH} to contain a decks array.`);
+  }
+
+  const traditionalTable = await loadTraditionalTable();
+  const characters = new Set();
+  for (const deck of manifest.decks) {
+    if (!deck.exercises.endsWith(".cbor.zstd")) {
+      throw new Error(`Deck ${deck.id} output must end in .cbor.zstd.`);
+    }
+    const exercises = await buildDeck(deck, traditionalTable);
+    deck.version = await deckVersion(deck);
+    for (const exercise of exercises) {
+      for (const segment of exercise.segments) {
+        for (const character of segment.chinese.match(/\p{Script=Han}/gu) ?? []) {
+          characters.add(character);
+        }
+      }
+    }
+  }
+
+  await writeFile(MANIFEST_PATH, `${JSON.stringify(manifest, null, 2)}\n`);
+  console.log(`Wrote ${MANIFEST_PATH}`);
+
+  await buildStrokeData(characters);
 }
 
 main().catch((error) => {
@@ -0,0 +1,52 @@
+/**
+ * Propose personalised Erudify scheduler parameters from an exported progress file.
+ *
+ * Usage: npm run optimize:scheduler -- <export.json> [--retention 0.9]
+ */
+import { readFile } from "node:fs/promises";
+import { parseProgressExport } from "../src/lib/progress-transfer";
+import { optimizeConfig, type FitMetrics } from "../src/lib/scheduler-optimizer";
+import { DEFAULT_CONFIG } from "../src/lib/spaced-repetition";
+
+function parseArgs(args: string[]): { file: string; retention: number } {
+  let file: string | undefined;
+  let retention = 0.9;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--retention") {
+      retention = Number(args[++i]);
+    } else if (!file) {
+      file = args[i];
+    } else {
+      throw new Error(`Unexpected argument: ${args[i]}`);
+    }
+  }
+
+  if (!file) {
+    throw new Error("Usage: optimize-scheduler <export.json> [--retention 0.9]");
+  }
+  return { file, retention };
+}
+
+function describeFit(label: string, metrics: FitMetrics): string {
+  return `${label}: predicted recall ${(metrics.predictedRecallRate * 100).toFixed(1)}%, log loss ${metrics.logLoss.toFixed(4)}`;
+}
+
+async function main() {
+  const { file, retention } = parseArgs(process.argv.slice(2));
+  const { progress } = parseProgressExport(await readFile(file, "utf8"));
+  const current = progress.scheduler?.config ?? DEFAULT_CONFIG;
+  const result = optimizeConfig(progress.reviewLog, retention, current, progress.pauses);
+
+  console.log(`Repeat reviews: ${result.baseline.reviewCount}`);
+  console.log(`Actually recalled: ${(result.baseline.actualRecallRate * 100).toFixed(1)}%`);
+  console.log(describeFit("Current config", result.baseline));
+  console.log(describeFit("Fitted model", result.fitted));
+  console.log(`\nProposed config for ${(retention * 100).toFixed(0)}% retention:`);
+  console.log(JSON.stringify(result.config, null, 2));
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,199 @@
+/**
+ * Simulate a synthetic learner studying a deck under one or more schedulers and
+ * compare words learned, review load, retention and time to mastery.
+ *
+ * Usage: npm run simulate:scheduler -- [variant...] [--days 30] [--minutes 15]
+ *   [--deck hsk-1] [--seed 1] [--mastery-days 21] [--daily]
+ *   [--initial-stability 1] [--growth 2.5] [--new-word-recall 0.5] [--seconds-per-word 6]
+ *
+ * A variant is a scheduler id (erudify, sm2, fsrs) or the path to a JSON file
+ * with Erudify config overrides, e.g. {"goodReviewMultiplier": 2.5}.
+ * Defaults to the Erudify scheduler with its shipped config.
+ */
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { DEFAULT_DECK_IDS } from "../src/lib/config";
+import { decodeExercises, parseWordList, toDeckManifest } from "../src/lib/data-loader";
+import { createErudifyScheduler, getScheduler, isSchedulerId, type Scheduler } from "../src/lib/scheduler";
+import { DEFAULT_CONFIG } from "../src/lib/spaced-repetition";
+import {
+  DEFAULT_LEARNER,
+  simulateStudy,
+  type LearnerModel,
+  type SimulationReport,
+} from "../src/lib/study-simulator";
+
+const PUBLIC_DIR = path.join(process.cwd(), "public");
+
+interface Variant {
+  label: string;
+  scheduler: Scheduler;
+}
+
+interface Args {
+  variants: string[];
+  days: number;
+  minutes: number;
+  deckId: string;
+  seed: number;
+  masteryDays: number;
+  daily: boolean;
+  learner: LearnerModel;
+}
+
+const NUMBER_FLAGS: Record<string, (args: Args, value: number) => void> = {
+  "--days": (args, value) => (args.days = value),
+  "--minutes": (args, value) => (args.minutes = value),
+  "--seed": (args, value) => (args.seed = value),
+  "--mastery-days": (args, value) => (args.masteryDays = value),
+  "--initial-stability": (args, value) => (args.learner.initialStabilityDays = value),
+  "--growth": (args, value) => (args.learner.stabilityGrowth = value),
+  "--new-word-recall": (args, value) => (args.learner.newWordRecall = value),
+  "--seconds-per-word": (args, value) => (args.learner.secondsPerWord = value),
+};
+
+function parseArgs(argv: string[]): Args {
+  const args: Args = {
+    variants: [],
+    days: 30,
+    minutes: 15,
+    deckId: DEFAULT_DECK_IDS[0],
+    seed: 1,
+    masteryDays: 21,
+    daily: false,
+    learner: { ...DEFAULT_LEARNER },
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--daily") {
+      args.daily = true;
+    } else if (arg === "--deck") {
+      args.deckId = argv[++i];
+    } else if (NUMBER_FLAGS[arg]) {
+      const value = Number(argv[++i]);
+      if (!Number.isFinite(value) || value < 0) {
+        throw new Error(`${arg} expects a non-negative number`);
+      }
+      NUMBER_FLAGS[arg](args, value);
+    } else if (arg.startsWith("--")) {
+      throw new Error(`Unknown option: ${arg}`);
+    } else {
+      args.variants.push(arg);
+    }
+  }
+
+  if (args.variants.length === 0) args.variants.push("erudify");
+  return args;
+}
+
+async function loadVariant(spec: string): Promise<Variant> {
+  if (isSchedulerId(spec)) {
+    return { label: spec, scheduler: getScheduler(spec) };
+  }
+
+  const overrides: unknown = JSON.parse(await readFile(spec, "utf8"));
+  if (!overrides || typeof overrides !== "object" || Array.isArray(overrides)) {
+    throw new Error(`${spec} is not a JSON object of config overrides`);
+  }
+  for (const [key, value] of Object.entries(overrides)) {
+    if (!(key in DEFAULT_CONFIG) || typeof value !== "number") {
+      throw new Error(`${spec}: unknown or non-numeric config key "${key}"`);
+    }
+  }
+
+  return {
+    label: path.basename(spec, ".json"),
+    scheduler: createErudifyScheduler({ ...DEFAULT_CONFIG, ...overrides }),
+  };
+}
+
+async function loadDeck(deckId: string) {
+  const manifest = toDeckManifest(
+    JSON.parse(await readFile(path.join(PUBLIC_DIR, "decks.json"), "utf8"))
+  );
+  const deck = manifest.decks.find((d) => d.id === deckId);
+  if (!deck) {
+    throw new Error(`Unknown deck "${deckId}" (available: ${manifest.decks.map((d) => d.id).join(", ")})`);
+  }
+
+  const [compressed, wordListText] = await Promise.all([
+    readFile(path.join(PUBLIC_DIR, deck.exercises)),
+    readFile(path.join(PUBLIC_DIR, deck.wordList), "utf8"),
+  ]);
+  return {
+    exercises: decodeExercises(new Uint8Array(compressed)),
+    wordList: parseWordList(wordListText),
+  };
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? "-" : `${(value * 100).toFixed(1)}%`;
+}
+
+function printTable(rows: string[][]) {
+  const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+  for (const row of rows) {
+    console.log(row.map((cell, column) => (column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column]))).join("  "));
+  }
+}
+
+function printSummary(variants: Variant[], reports: SimulationReport[]) {
+  printTable([
+    ["", ...variants.map((v) => v.label)],
+    ["Words learned", ...reports.map((r) => String(r.wordsLearned))],
+    ["Words mastered", ...reports.map((r) => String(r.masteredWords))],
+    ["Retention", ...reports.map((r) => formatPercent(r.retention))],
+    ["Reviews per day", ...reports.map((r) => r.averageReviewsPerDay.toFixed(1))],
+    ["Median days to mastery", ...reports.map((r) => r.medianDaysToMastery?.toFixed(1) ?? "-")],
+  ]);
+}
+
+function printDaily(variant: Variant, report: SimulationReport) {
+  console.log(`\n${variant.label}, per day:`);
+  printTable([
+    ["Day", "Exercises", "New", "Due", "Reviews", "Recalled", "Known", "Mastered"],
+    ...report.days.map((day) => [
+      String(day.day),
+      String(day.exercises),
+      String(day.newWords),
+      String(day.dueAtStart),
+      String(day.reviews),
+      formatPercent(day.reviews > 0 ? day.recalled / day.reviews : null),
+      String(day.knownWords),
+      String(day.masteredWords),
+    ]),
+  ]);
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const variants = await Promise.all(args.variants.map(loadVariant));
+  const { exercises, wordList } = await loadDeck(args.deckId);
+
+  console.log(
+    `${args.deckId}: ${exercises.length} exercises, ${wordList.length} words; ` +
+      `${args.days} days at ${args.minutes} min/day, seed ${args.seed}\n`
+  );
+
+  const reports = variants.map((variant) =>
+    simulateStudy(exercises, wordList, {
+      scheduler: variant.scheduler,
+      days: args.days,
+      minutesPerDay: args.minutes,
+      learner: args.learner,
+      seed: args.seed,
+      masteryIntervalDays: args.masteryDays,
+    })
+  );
+
+  printSummary(variants, reports);
+  if (args.daily) {
+    variants.forEach((variant, i) => printDaily(variant, reports[i]));
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
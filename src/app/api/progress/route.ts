@@ -0,0 +1,67 @@
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { NextResponse } from "next/server";
+import {
+  createD1ProgressStore,
+  createMemoryProgressStore,
+  type ProgressStore,
+} from "@/lib/progress-store";
+import {
+  handleGetProgress,
+  handlePutProgress,
+  type SyncResponse,
+} from "@/lib/progress-sync-server";
+
+let devStore: ProgressStore | null = null;
+
+async function getProgressStore(): Promise<ProgressStore | null> {
+  try {
+    const { env } = await getCloudflareContext({ async: true });
+    if (env.PROGRESS_DB) {
+      return createD1ProgressStore(env.PROGRESS_DB);
+    }
+  } catch (error) {
+    console.error("Cloudflare context unavailable:", error);
+  }
+
+  // Plain `next dev` without bindings keeps synced progress in memory
+  if (process.env.NODE_ENV === "development") {
+    devStore ??= createMemoryProgressStore();
+    return devStore;
+  }
+
+  return null;
+}
+
+function toResponse({ status, body }: SyncResponse): NextResponse {
+  return NextResponse.json(body, {
+    status,
+    headers: { "Cache-Control": "no-store" },
+  });
+}
+
+function syncUnavailable(): NextResponse {
+  return toResponse({ status: 503, body: { error: "Progress sync is not configured." } });
+}
+
+export async function GET(request: Request) {
+  const store = await getProgressStore();
+  if (!store) return syncUnavailable();
+
+  return toResponse(await handleGetProgress(store, request.headers.get("Authorization")));
+}
+
+export async function PUT(request: Request) {
+  const store = await getProgressStore();
+  if (!store) return syncUnavailable();
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return toResponse({ status: 400, body: { error: "Request body is not valid JSON." } });
+  }
+
+  return toResponse(
+    await handlePutProgress(store, request.headers.get("Authorization"), body, Date.now())
+  );
+}
@@ -0,0 +1,20 @@
+import type { MetadataRoute } from "next";
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "Erudify - Learn Chinese with Spaced Repetition",
+    short_name: "Erudify",
+    description: "Study Chinese sentences with spaced repetition, online or offline.",
+    start_url: "/read",
+    display: "standalone",
+    background_color: "#fafafa",
+    theme_color: "#dc2626",
+    icons: [
+      {
+        src: "/icon.svg",
+        sizes: "any",
+        type: "image/svg+xml",
+      },
+    ],
+  };
+}
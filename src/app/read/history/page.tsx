@@ -1,11 +1,22 @@
 "use client";
 
+import { useMemo, useState } from "react";
 import Link from "next/link";
 import { useProgress } from "@/hooks/useProgress";
+import { useExercises } from "@/hooks/useExercises";
 import { MetricsHistoryContent } from "@/components/MetricsHistoryContent";
+import { ReviewForecastCalendar } from "@/components/ReviewForecastCalendar";
+import { loadStudyLimits } from "@/lib/storage";
 
 export default function ReadHistoryPage() {
   const { progress } = useProgress();
+  const { wordList, loading } = useExercises();
+  const [studyLimits] = useState(() => loadStudyLimits());
+
+  const unseenWords = useMemo(
+    () => (loading ? undefined : wordList.filter((word) => !progress.words[word]).length),
+    [loading, wordList, progress.words]
+  );
 
   return (
     <main className="min-h-screen bg-zinc-50 p-6 dark:bg-zinc-950">
@@ -23,6 +34,14 @@ export default function ReadHistoryPage() {
         <div className="rounded-2xl bg-white p-6 shadow-sm dark:bg-zinc-900">
           <MetricsHistoryContent history={progress.dailyMetricsHistory} />
         </div>
+
+        <div className="rounded-2xl bg-white p-6 shadow-sm dark:bg-zinc-900">
+          <ReviewForecastCalendar
+            progress={progress}
+            unseenWords={unseenWords}
+            defaultNewWordsPerDay={studyLimits.newWordsPerDay}
+          />
+        </div>
       </div>
     </main>
   );
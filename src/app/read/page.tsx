@@ -5,14 +5,17 @@ import { useProgress } from "@/hooks/useProgress";
 import { useExercises } from "@/hooks/useExercises";
 import { useExerciseSelection } from "@/hooks/useExerciseSelection";
 import { useExerciseInput } from "@/hooks/useExerciseInput";
+import { useStrokeData } from "@/hooks/useStrokeData";
 import {
-  updateWordSuccess,
-  updateWordFailure,
+  updateWordReview,
   addExerciseToHistory,
   getExerciseWords,
+  getExampleExercises,
   getPinyinForWord,
   selectNextExercise,
 } from "@/lib/exercises";
+import { completeRemediation, getWordsNeedingRemediation } from "@/lib/leeches";
+import { getActivePause, pauseStudy, resumeStudy } from "@/lib/pauses";
 import { PomodoroIndicator } from "@/components/PomodoroIndicator";
 import { Sidebar } from "@/components/Sidebar";
 import { ExerciseDisplay } from "@/components/ExerciseDisplay";
@@ -20,18 +23,76 @@ import { InstructionsPanel } from "@/components/InstructionsPanel";
 import { DebugModal } from "@/components/DebugModal";
 import { MetricsHistoryModal } from "@/components/MetricsHistoryModal";
 import { WordProgressModal } from "@/components/WordProgressModal";
-import { upsertTodayAndFillMissingDays } from "@/lib/progress-metrics";
+import { ImportProgressModal } from "@/components/ImportProgressModal";
+import { SchedulerOptimizerModal } from "@/components/SchedulerOptimizerModal";
+import { LeechRemediationPanel } from "@/components/LeechRemediationPanel";
+import { PlanCompletePanel } from "@/components/PlanCompletePanel";
+import { PausedPanel } from "@/components/PausedPanel";
+import { ComprehensionExercise } from "@/components/ComprehensionExercise";
+import { getLocalDateKey, upsertTodayAndFillMissingDays } from "@/lib/progress-metrics";
+import { getStudyPlan, type StudyLimits } from "@/lib/study-plan";
+import {
+  loadChineseScript,
+  loadExerciseModes,
+  loadPinyinAnswerSettings,
+  loadStudyLimits,
+  saveChineseScript,
+  saveExerciseModes,
+  savePinyinAnswerSettings,
+  saveStudyLimits,
+} from "@/lib/storage";
+import { getTraditionalWords } from "@/lib/chinese-script";
+import { buildComprehensionPuzzle, getPuzzleSeed } from "@/lib/comprehension";
+import { applySchedulerConfig, selectScheduler } from "@/lib/scheduler";
+import {
+  gradeSegment,
+  type PinyinAnswerSettings,
+  type SegmentEvidence,
+} from "@/lib/domain/exercise-input";
+import {
+  applyImport,
+  getExportFileName,
+  parseProgressExport,
+  previewImport,
+  serializeProgressExport,
+  type ImportMode,
+  type ProgressImport,
+} from "@/lib/progress-transfer";
 import type { PomodoroState } from "@/components/PomodoroTimer";
+import type { ChineseScript, ExerciseMode, RecallGrade, SchedulerId } from "@/lib/domain";
+import type { SpacedRepetitionConfig } from "@/lib/spaced-repetition";
 
 export default function ReadPage() {
-  const { progress, updateProgress, clearProgress } = useProgress();
-  const { exercises, wordList, loading, error } = useExercises();
+  const { progress, updateProgress, clearProgress, sync } = useProgress();
+  const {
+    decks,
+    activeDeckIds,
+    setActiveDeckIds,
+    exercises,
+    wordList,
+    loading,
+    error,
+    deckUpdateAvailable,
+    applyDeckUpdate,
+  } = useExercises();
   const [displayedExerciseIndex, setDisplayedExerciseIndex] = useState<number | null>(null);
   const [showCompletion, setShowCompletion] = useState(false);
   const [showDebug, setShowDebug] = useState(false);
   const [showMetricsHistory, setShowMetricsHistory] = useState(false);
   const [showWordProgress, setShowWordProgress] = useState(false);
+  const [showSchedulerOptimizer, setShowSchedulerOptimizer] = useState(false);
+  const [pendingImport, setPendingImport] = useState<ProgressImport | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
   const [currentTime, setCurrentTime] = useState(() => Date.now());
+  const [studyLimits, setStudyLimits] = useState<StudyLimits>(() => loadStudyLimits());
+  const [exerciseModes, setExerciseModes] = useState<ExerciseMode[]>(() => loadExerciseModes());
+  const [answerSettings, setAnswerSettings] = useState<PinyinAnswerSettings>(() =>
+    loadPinyinAnswerSettings()
+  );
+  const [chineseScript, setChineseScript] = useState<ChineseScript>(() => loadChineseScript());
+  const { strokes, error: strokeError } = useStrokeData(exerciseModes.includes("writing"));
+  // Local date on which the learner chose to keep studying past the limits
+  const [limitsLiftedOn, setLimitsLiftedOn] = useState<string | null>(null);
   const [pomodoroState, setPomodoroState] = useState<PomodoroState>({
     isRunning: false,
     isBreak: false,
@@ -39,12 +100,12 @@ export default function ReadPage() {
   });
   const continueButtonRef = useRef<HTMLButtonElement>(null);
 
-  const { currentExercise, currentIndex, targetWord, debugCandidates } = useExerciseSelection(
-    exercises,
-    progress,
-    wordList,
-    displayedExerciseIndex
-  );
+  const activePause = getActivePause(progress);
+  const activeLimits =
+    limitsLiftedOn === getLocalDateKey(currentTime) ? undefined : studyLimits;
+
+  const { currentExercise, currentIndex, targetWord, debugCandidates, isPlanComplete } =
+    useExerciseSelection(exercises, progress, wordList, displayedExerciseIndex, activeLimits);
 
   useEffect(() => {
     if (displayedExerciseIndex === null && currentExercise) {
@@ -52,6 +113,34 @@ export default function ReadPage() {
     }
   }, [displayedExerciseIndex, currentExercise, currentIndex]);
 
+  const puzzleSeed = currentExercise
+    ? getPuzzleSeed(currentExercise, progress.exerciseLastSeen[currentExercise.id] ?? 0)
+    : 0;
+  // Writing is only offered when the stroke data was loaded as the exercise
+  // came up, so data arriving mid-answer doesn't swap the puzzle
+  const puzzleKey = currentExercise ? `${currentExercise.id}:${puzzleSeed}` : null;
+  const [puzzleStrokes, setPuzzleStrokes] = useState({ key: puzzleKey, strokes });
+  if (puzzleStrokes.key !== puzzleKey) {
+    setPuzzleStrokes({ key: puzzleKey, strokes });
+  }
+  // Null while the exercise is drilled by typing its pinyin
+  const comprehension = useMemo(
+    () =>
+      currentExercise
+        ? buildComprehensionPuzzle(
+            currentExercise,
+            exercises,
+            exerciseModes,
+            puzzleSeed,
+            targetWord,
+            puzzleStrokes.strokes
+          )
+        : null,
+    [currentExercise, exercises, exerciseModes, puzzleSeed, targetWord, puzzleStrokes.strokes]
+  );
+
+  const traditionalWords = useMemo(() => getTraditionalWords(exercises), [exercises]);
+
   const stats = useMemo(() => {
     const wordListSet = new Set(wordList);
     const wordEntries = Object.values(progress.words).filter((w) => wordListSet.has(w.word));
@@ -75,6 +164,24 @@ export default function ReadPage() {
     };
   }, [progress, wordList, currentTime]);
 
+  const studyPlan = useMemo(
+    () => getStudyPlan(progress, wordList, studyLimits, currentTime),
+    [progress, wordList, studyLimits, currentTime]
+  );
+
+  // A leech is remediated between exercises, before it returns to rotation
+  const remediation = useMemo(() => {
+    if (showCompletion) return null;
+    return (
+      getWordsNeedingRemediation(progress)
+        .map((word) => ({
+          word,
+          examples: getExampleExercises(word, exercises, progress, wordList, currentTime),
+        }))
+        .find((candidate) => candidate.examples.length > 0) ?? null
+    );
+  }, [showCompletion, progress, exercises, wordList, currentTime]);
+
   useEffect(() => {
     if (stats.nextReviewTime === null) return;
 
@@ -98,13 +205,18 @@ export default function ReadPage() {
 
   const advanceToNextExercise = useCallback(
     (updatedProgress = progress) => {
-      const next = selectNextExercise(exercises, updatedProgress, wordList);
-      if (next) {
-        setDisplayedExerciseIndex(next.index);
-      }
       setShowCompletion(false);
+      // Updated decks are swapped in between exercises; the next one is then
+      // picked from the new exercises
+      if (deckUpdateAvailable) {
+        applyDeckUpdate();
+        setDisplayedExerciseIndex(null);
+        return;
+      }
+      const next = selectNextExercise(exercises, updatedProgress, wordList, undefined, activeLimits);
+      setDisplayedExerciseIndex(next ? next.index : null);
     },
-    [exercises, progress, wordList]
+    [exercises, progress, wordList, activeLimits, deckUpdateAvailable, applyDeckUpdate]
   );
 
   const {
@@ -120,12 +232,13 @@ export default function ReadPage() {
     state: exerciseInputState,
   } = useExerciseInput({
     segments: currentExercise?.segments ?? [],
-    onSegmentComplete: () => {},
-    onComplete: (hints) => handleExerciseCompletion(hints),
+    answerSettings,
+    onComplete: (evidence) => handleExerciseCompletion(evidence),
   });
 
-  const handleExerciseCompletion = useCallback(
-    (hintsUsed: Set<number>) => {
+  /** Review every word of the exercise with its grade, in sentence order */
+  const recordExerciseReview = useCallback(
+    (grades: RecallGrade[]) => {
       if (!currentExercise) return;
 
       const completedAt = Date.now();
@@ -136,21 +249,18 @@ export default function ReadPage() {
       for (let i = 0; i < words.length; i++) {
         const word = words[i];
         const pinyin = getPinyinForWord(currentExercise, word);
+        const grade = grades[i] ?? "good";
 
-        if (hintsUsed.has(i)) {
-          const result = updateWordFailure(word, pinyin, newProgress, completedAt);
-          newProgress = result.progress;
-          wordChanges.push(result.change);
-        } else {
-          const result = updateWordSuccess(word, pinyin, newProgress, completedAt);
-          newProgress = result.progress;
-          wordChanges.push(result.change);
-        }
+        const result = updateWordReview(word, pinyin, newProgress, completedAt, grade, {
+          exerciseId: currentExercise.id,
+        });
+        newProgress = result.progress;
+        wordChanges.push(result.change);
       }
 
       newProgress = addExerciseToHistory(
-        currentIndex,
-        hintsUsed.size === 0,
+        currentExercise.id,
+        wordChanges.every((change) => !change.wasFailure),
         currentExercise,
         wordChanges,
         newProgress
@@ -160,7 +270,14 @@ export default function ReadPage() {
       setInputValue("");
       setShowCompletion(true);
     },
-    [currentExercise, progress, currentIndex, updateProgress, setInputValue]
+    [currentExercise, progress, updateProgress, setInputValue]
+  );
+
+  const handleExerciseCompletion = useCallback(
+    (evidence: SegmentEvidence[]) => {
+      recordExerciseReview(evidence.map(gradeSegment));
+    },
+    [recordExerciseReview]
   );
 
   const handleContinue = useCallback(() => {
@@ -169,12 +286,125 @@ export default function ReadPage() {
     advanceToNextExercise();
   }, [advanceToNextExercise, reset]);
 
+  const handleFinishRemediation = useCallback(() => {
+    if (!remediation) return;
+    updateProgress((prev) => completeRemediation(prev, remediation.word, Date.now()));
+    reset();
+  }, [remediation, updateProgress, reset]);
+
+  const handleStudyLimitsChange = useCallback((limits: StudyLimits) => {
+    setStudyLimits(limits);
+    saveStudyLimits(limits);
+  }, []);
+
+  const handlePause = useCallback(() => {
+    updateProgress((prev) => pauseStudy(prev, Date.now()));
+    setShowCompletion(false);
+    reset();
+  }, [updateProgress, reset]);
+
+  const handleResume = useCallback(() => {
+    const now = Date.now();
+    // The backlog is spread at the learner's daily review limit
+    updateProgress((prev) => resumeStudy(prev, now, activeLimits?.reviewsPerDay));
+    setCurrentTime(now);
+    setDisplayedExerciseIndex(null);
+  }, [updateProgress, activeLimits]);
+
+  const handleExerciseModesChange = useCallback((modes: ExerciseMode[]) => {
+    setExerciseModes(modes);
+    saveExerciseModes(modes);
+  }, []);
+
+  const handleAnswerSettingsChange = useCallback((settings: PinyinAnswerSettings) => {
+    setAnswerSettings(settings);
+    savePinyinAnswerSettings(settings);
+  }, []);
+
+  const handleChineseScriptChange = useCallback((script: ChineseScript) => {
+    setChineseScript(script);
+    saveChineseScript(script);
+  }, []);
+
+  const handleKeepStudying = useCallback(() => {
+    setLimitsLiftedOn(getLocalDateKey(Date.now()));
+    setDisplayedExerciseIndex(null);
+  }, []);
+
   const handleClearProgress = useCallback(() => {
-    if (confirm("Are you sure you want to clear all progress? This cannot be undone.")) {
+    const message = sync.syncKey
+      ? "Are you sure you want to clear all progress? This cannot be undone. Sync is turned off on this device; your other devices keep their progress."
+      : "Are you sure you want to clear all progress? This cannot be undone.";
+    if (confirm(message)) {
       clearProgress();
       advanceToNextExercise();
     }
-  }, [clearProgress, advanceToNextExercise]);
+  }, [clearProgress, advanceToNextExercise, sync.syncKey]);
+
+  const handleExportProgress = useCallback(() => {
+    const now = Date.now();
+    const blob = new Blob([serializeProgressExport(progress, now)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = getExportFileName(now);
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [progress]);
+
+  const handleImportProgress = useCallback(async (file: File) => {
+    try {
+      setPendingImport(parseProgressExport(await file.text()));
+      setImportError(null);
+    } catch (err) {
+      setPendingImport(null);
+      setImportError(err instanceof Error ? err.message : "Failed to read the file.");
+    }
+  }, []);
+
+  const closeImport = useCallback(() => {
+    setPendingImport(null);
+    setImportError(null);
+  }, []);
+
+  const handleConfirmImport = useCallback(
+    (mode: ImportMode) => {
+      if (!pendingImport) return;
+      updateProgress((prev) => applyImport(prev, pendingImport, mode));
+      closeImport();
+      setDisplayedExerciseIndex(null);
+      setShowCompletion(false);
+      reset();
+    },
+    [pendingImport, updateProgress, closeImport, reset]
+  );
+
+  const handleDeckSelectionChange = useCallback(
+    (deckIds: string[]) => {
+      setActiveDeckIds(deckIds);
+      setDisplayedExerciseIndex(null);
+      setShowCompletion(false);
+      reset();
+    },
+    [setActiveDeckIds, reset]
+  );
+
+  const handleSchedulerChange = useCallback(
+    (schedulerId: SchedulerId) => {
+      updateProgress((prev) => selectScheduler(prev, schedulerId, Date.now()));
+    },
+    [updateProgress]
+  );
+
+  const handleApplySchedulerConfig = useCallback(
+    (config: SpacedRepetitionConfig) => {
+      updateProgress((prev) => applySchedulerConfig(prev, config, Date.now()));
+      setShowSchedulerOptimizer(false);
+    },
+    [updateProgress]
+  );
 
   useEffect(() => {
     if (showCompletion) {
@@ -200,7 +430,7 @@ export default function ReadPage() {
     );
   }
 
-  if (!currentExercise) {
+  if (!currentExercise && !isPlanComplete) {
     return (
       <div className="flex min-h-screen items-center justify-center">
         <div className="text-lg text-zinc-600">No exercises available.</div>
@@ -229,7 +459,29 @@ export default function ReadPage() {
       <Sidebar
         progress={progress}
         stats={stats}
+        studyPlan={studyPlan}
+        studyLimits={studyLimits}
+        onStudyLimitsChange={handleStudyLimitsChange}
+        exerciseModes={exerciseModes}
+        writingUnavailable={strokeError !== null}
+        onExerciseModesChange={handleExerciseModesChange}
+        answerSettings={answerSettings}
+        onAnswerSettingsChange={handleAnswerSettingsChange}
+        chineseScript={chineseScript}
+        onChineseScriptChange={handleChineseScriptChange}
+        traditionalWords={traditionalWords}
+        pausedSince={activePause?.start ?? null}
+        onPause={handlePause}
+        onResume={handleResume}
+        decks={decks}
+        activeDeckIds={activeDeckIds}
+        onDeckSelectionChange={handleDeckSelectionChange}
+        onSchedulerChange={handleSchedulerChange}
+        onOpenSchedulerOptimizer={() => setShowSchedulerOptimizer(true)}
+        sync={sync}
         onClearProgress={handleClearProgress}
+        onExportProgress={handleExportProgress}
+        onImportProgress={handleImportProgress}
         onPomodoroStateChange={setPomodoroState}
         onOpenMetricsHistory={() => setShowMetricsHistory(true)}
         onOpenWordProgress={() => setShowWordProgress(true)}
@@ -269,7 +521,17 @@ export default function ReadPage() {
               </button>
             </div>
 
-            {showCompletion ? (
+            {activePause ? (
+              <PausedPanel pausedSince={activePause.start} onResume={handleResume} />
+            ) : remediation ? (
+              <LeechRemediationPanel
+                word={remediation.word}
+                examples={remediation.examples}
+                onDone={handleFinishRemediation}
+              />
+            ) : !currentExercise ? (
+              <PlanCompletePanel onKeepStudying={handleKeepStudying} />
+            ) : showCompletion ? (
               <div>
                 <ExerciseDisplay
                   exercise={currentExercise}
@@ -281,6 +543,7 @@ export default function ReadPage() {
                   inputRef={inputRef}
                   onInputChange={() => {}}
                   onInputKeyDown={() => {}}
+                  script={chineseScript}
                 />
                 <div className="flex justify-end mt-6">
                   <button
@@ -293,6 +556,14 @@ export default function ReadPage() {
                   </button>
                 </div>
               </div>
+            ) : comprehension ? (
+              <ComprehensionExercise
+                key={`${currentExercise.id}-${puzzleSeed}`}
+                exercise={currentExercise}
+                comprehension={comprehension}
+                strokes={strokes}
+                onComplete={recordExerciseReview}
+              />
             ) : (
               <ExerciseDisplay
                 exercise={currentExercise}
@@ -305,11 +576,13 @@ export default function ReadPage() {
                 onInputChange={handleChange}
                 onInputKeyDown={handleKeyDown}
                 state={exerciseInputState}
+                answerFormat={answerSettings.format}
+                script={chineseScript}
               />
             )}
           </div>
 
-          <InstructionsPanel />
+          <InstructionsPanel answerFormat={answerSettings.format} />
         </div>
       </main>
 
@@ -327,6 +600,21 @@ export default function ReadPage() {
         history={progress.dailyMetricsHistory}
       />
 
+      <ImportProgressModal
+        show={pendingImport !== null || importError !== null}
+        onClose={closeImport}
+        preview={pendingImport ? previewImport(progress, pendingImport) : null}
+        error={importError}
+        onConfirm={handleConfirmImport}
+      />
+
+      <SchedulerOptimizerModal
+        show={showSchedulerOptimizer}
+        onClose={() => setShowSchedulerOptimizer(false)}
+        progress={progress}
+        onApply={handleApplySchedulerConfig}
+      />
+
       <WordProgressModal
         show={showWordProgress}
         onClose={() => setShowWordProgress(false)}
@@ -335,6 +623,7 @@ export default function ReadPage() {
         history={progress.history}
         exercises={exercises}
         now={currentTime}
+        script={chineseScript}
       />
     </div>
   );
@@ -0,0 +1,83 @@
+"use client";
+
+import { useCallback, useMemo, useState } from "react";
+import Link from "next/link";
+import { useProgress } from "@/hooks/useProgress";
+import { useExercises } from "@/hooks/useExercises";
+import { ToneDrill } from "@/components/ToneDrill";
+import { ToneConfusionChart } from "@/components/ToneConfusionChart";
+import {
+  getToneDrillSyllables,
+  getWordPinyin,
+  recordToneReview,
+  selectToneDrillWord,
+} from "@/lib/tone-drill";
+
+export default function ToneDrillPage() {
+  const { progress, updateProgress } = useProgress();
+  const { exercises, loading, applyDeckUpdate } = useExercises();
+  const [currentTime, setCurrentTime] = useState(() => Date.now());
+  // Held while the answer is shown, so recording it doesn't move on
+  const [answeredWord, setAnsweredWord] = useState<string | null>(null);
+
+  const wordPinyin = useMemo(() => getWordPinyin(exercises), [exercises]);
+  const word = answeredWord ?? selectToneDrillWord(progress, wordPinyin, currentTime);
+  const syllables = useMemo(
+    () => (word ? getToneDrillSyllables(wordPinyin.get(word) ?? "") : []),
+    [word, wordPinyin]
+  );
+
+  const handleAnswer = useCallback(
+    (answered: number[]) => {
+      if (!word) return;
+      const expected = syllables.map((syllable) => syllable.tone);
+      setAnsweredWord(word);
+      updateProgress((prev) => recordToneReview(prev, word, expected, answered, Date.now()));
+    },
+    [word, syllables, updateProgress]
+  );
+
+  const handleNext = useCallback(() => {
+    applyDeckUpdate();
+    setAnsweredWord(null);
+    setCurrentTime(Date.now());
+  }, [applyDeckUpdate]);
+
+  return (
+    <main className="min-h-screen bg-zinc-50 p-6 dark:bg-zinc-950">
+      <div className="mx-auto max-w-6xl space-y-6">
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold text-zinc-900 dark:text-zinc-100">Tone Drill</h1>
+          <Link
+            href="/read"
+            className="rounded-lg border border-zinc-300 px-3 py-2 text-sm text-zinc-700 hover:bg-zinc-100 dark:border-zinc-700 dark:text-zinc-300 dark:hover:bg-zinc-900"
+          >
+            Back to study
+          </Link>
+        </div>
+
+        <div className="rounded-2xl bg-white p-6 shadow-sm dark:bg-zinc-900">
+          {loading ? (
+            <p className="text-center text-zinc-500 dark:text-zinc-400">Loading…</p>
+          ) : word ? (
+            <ToneDrill
+              key={`${word}-${currentTime}`}
+              word={word}
+              syllables={syllables}
+              onAnswer={handleAnswer}
+              onNext={handleNext}
+            />
+          ) : (
+            <p className="text-center text-zinc-500 dark:text-zinc-400">
+              No tone drills due. Words join the drill once you have studied them.
+            </p>
+          )}
+        </div>
+
+        <div className="rounded-2xl bg-white p-6 shadow-sm dark:bg-zinc-900">
+          <ToneConfusionChart toneLog={progress.toneLog} />
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,103 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { STROKE_BOX_SIZE, type StrokePoint } from "@/lib/strokes";
+
+interface CharacterCanvasProps {
+  /** Stroke medians of the character, in stroke order */
+  medians: StrokePoint[][];
+  /** Strokes already written correctly */
+  completedStrokes: number;
+  /** Show the next stroke, with a dot where it starts */
+  showHint: boolean;
+  onStrokeDrawn: (points: StrokePoint[]) => void;
+}
+
+const STROKE_WIDTH = 64;
+const HALF = STROKE_BOX_SIZE / 2;
+
+function toPolyline(points: StrokePoint[]): string {
+  return points.map(([x, y]) => `${x},${y}`).join(" ");
+}
+
+/**
+ * Square writing area for one character, on a 米字格 practice grid
+ */
+export function CharacterCanvas({
+  medians,
+  completedStrokes,
+  showHint,
+  onStrokeDrawn,
+}: CharacterCanvasProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [drawing, setDrawing] = useState<StrokePoint[] | null>(null);
+  const nextStroke = medians[completedStrokes];
+
+  const toBoxPoint = (e: React.PointerEvent<SVGSVGElement>): StrokePoint => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return [
+      ((e.clientX - rect.left) / rect.width) * STROKE_BOX_SIZE,
+      ((e.clientY - rect.top) / rect.height) * STROKE_BOX_SIZE,
+    ];
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrawing([toBoxPoint(e)]);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!drawing) return;
+    const point = toBoxPoint(e);
+    setDrawing((prev) => (prev ? [...prev, point] : prev));
+  };
+
+  const handlePointerUp = () => {
+    if (!drawing) return;
+    setDrawing(null);
+    // Ignore taps that don't draw anything
+    if (drawing.length > 1) onStrokeDrawn(drawing);
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${STROKE_BOX_SIZE} ${STROKE_BOX_SIZE}`}
+      className="h-64 w-64 touch-none select-none rounded-xl border border-zinc-300 bg-white dark:border-zinc-700 dark:bg-zinc-950"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => setDrawing(null)}
+    >
+      <g className="stroke-zinc-200 dark:stroke-zinc-800" strokeWidth={4} strokeDasharray="16 16">
+        <line x1={HALF} y1={0} x2={HALF} y2={STROKE_BOX_SIZE} />
+        <line x1={0} y1={HALF} x2={STROKE_BOX_SIZE} y2={HALF} />
+        <line x1={0} y1={0} x2={STROKE_BOX_SIZE} y2={STROKE_BOX_SIZE} />
+        <line x1={STROKE_BOX_SIZE} y1={0} x2={0} y2={STROKE_BOX_SIZE} />
+      </g>
+
+      <g fill="none" strokeLinecap="round" strokeLinejoin="round" strokeWidth={STROKE_WIDTH}>
+        {showHint && nextStroke && (
+          <g className="stroke-red-200 fill-red-400 dark:stroke-red-900/60">
+            <polyline points={toPolyline(nextStroke)} />
+            <circle cx={nextStroke[0][0]} cy={nextStroke[0][1]} r={24} stroke="none" />
+          </g>
+        )}
+        {medians.slice(0, completedStrokes).map((median, i) => (
+          <polyline
+            key={i}
+            points={toPolyline(median)}
+            className="stroke-zinc-900 dark:stroke-zinc-100"
+          />
+        ))}
+        {drawing && (
+          <polyline
+            points={toPolyline(drawing)}
+            strokeWidth={STROKE_WIDTH / 2}
+            className="stroke-red-500"
+          />
+        )}
+      </g>
+    </svg>
+  );
+}
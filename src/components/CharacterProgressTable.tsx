@@ -0,0 +1,103 @@
+"use client";
+
+import { useMemo } from "react";
+import type { WordProgress } from "@/lib/domain";
+import { getCharacterProgress, getHanCharacters, type CharacterProgress } from "@/lib/characters";
+import { formatRelativeTime, formatShortDuration } from "@/lib/formatting";
+
+interface CharacterProgressTableProps {
+  wordList: string[];
+  words: Record<string, WordProgress>;
+  now: number;
+}
+
+interface CharacterRow {
+  character: string;
+  progress: CharacterProgress | null;
+  /** Words in the word list containing the character */
+  totalWords: number;
+  status: "known" | "review" | "unseen";
+}
+
+const STATUS_STYLES: Record<CharacterRow["status"], string> = {
+  known: "",
+  review: "bg-red-50 dark:bg-red-950/30",
+  unseen: "bg-zinc-50 dark:bg-zinc-800/30",
+};
+
+/**
+ * Per-character view of word progress, in word list order
+ */
+export function CharacterProgressTable({ wordList, words, now }: CharacterProgressTableProps) {
+  const rows: CharacterRow[] = useMemo(() => {
+    const characterProgress = getCharacterProgress(words, now);
+    const totalWords = new Map<string, number>();
+    for (const word of wordList) {
+      for (const character of getHanCharacters(word)) {
+        totalWords.set(character, (totalWords.get(character) ?? 0) + 1);
+      }
+    }
+
+    return [...totalWords].map(([character, total]): CharacterRow => {
+      const progress = characterProgress[character] ?? null;
+      return {
+        character,
+        progress,
+        totalWords: total,
+        status: !progress ? "unseen" : progress.knownWords > 0 ? "known" : "review",
+      };
+    });
+  }, [wordList, words, now]);
+
+  const knownCount = rows.filter((row) => row.status === "known").length;
+
+  return (
+    <div className="space-y-4">
+      <div className="text-xs text-zinc-500">
+        {knownCount} of {rows.length} characters known through at least one word
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-zinc-200 text-left text-xs font-semibold text-zinc-500 dark:border-zinc-700 dark:text-zinc-400">
+              <th className="px-2 py-2">Character</th>
+              <th className="px-2 py-2">Studied In</th>
+              <th className="px-2 py-2">Last Seen</th>
+              <th className="px-2 py-2">Strength</th>
+              <th className="px-2 py-2 text-right">Known</th>
+              <th className="px-2 py-2 text-right">Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr
+                key={row.character}
+                className={`border-b border-zinc-100 dark:border-zinc-800 ${STATUS_STYLES[row.status]}`}
+              >
+                <td className="px-2 py-1.5 text-lg font-medium text-zinc-900 dark:text-zinc-100">
+                  {row.character}
+                </td>
+                <td className="px-2 py-1.5 text-zinc-600 dark:text-zinc-400">
+                  {row.progress?.words.join("、") ?? ""}
+                </td>
+                <td className="px-2 py-1.5 text-zinc-600 dark:text-zinc-400">
+                  {row.progress ? formatRelativeTime(row.progress.lastReviewed, now) : ""}
+                </td>
+                <td className="px-2 py-1.5 text-zinc-600 dark:text-zinc-400">
+                  {row.progress ? formatShortDuration(row.progress.intervalSeconds) : ""}
+                </td>
+                <td className="px-2 py-1.5 text-right tabular-nums text-zinc-600 dark:text-zinc-400">
+                  {row.progress ? row.progress.knownWords : ""}
+                </td>
+                <td className="px-2 py-1.5 text-right tabular-nums text-zinc-600 dark:text-zinc-400">
+                  {row.totalWords}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
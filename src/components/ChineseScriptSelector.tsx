@@ -0,0 +1,42 @@
+"use client";
+
+import { CHINESE_SCRIPTS } from "@/lib/chinese-script";
+import type { ChineseScript } from "@/lib/domain/exercise";
+
+const SCRIPT_LABELS: Record<ChineseScript, string> = {
+  simplified: "Simplified (学生)",
+  traditional: "Traditional (學生)",
+  both: "Both",
+};
+
+interface ChineseScriptSelectorProps {
+  script: ChineseScript;
+  onChange: (script: ChineseScript) => void;
+}
+
+export function ChineseScriptSelector({ script, onChange }: ChineseScriptSelectorProps) {
+  return (
+    <div className="mt-8">
+      <h3 className="mb-2 text-sm font-semibold text-zinc-700 dark:text-zinc-300">
+        Characters
+      </h3>
+      <div className="space-y-1 text-sm text-zinc-600 dark:text-zinc-400">
+        {CHINESE_SCRIPTS.map((option) => (
+          <label
+            key={option}
+            className="flex cursor-pointer items-center gap-2 rounded px-1 py-0.5 hover:bg-zinc-100 dark:hover:bg-zinc-800"
+          >
+            <input
+              type="radio"
+              name="chinese-script"
+              checked={script === option}
+              onChange={() => onChange(option)}
+              className="accent-red-600"
+            />
+            <span>{SCRIPT_LABELS[option]}</span>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
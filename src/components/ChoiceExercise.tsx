@@ -0,0 +1,53 @@
+"use client";
+
+import { useState } from "react";
+import type { ChoicePuzzle } from "@/lib/comprehension";
+
+interface ChoiceExerciseProps {
+  prompt: React.ReactNode;
+  puzzle: ChoicePuzzle;
+  /** Receives the number of wrong choices made before the right one */
+  onComplete: (wrongAttempts: number) => void;
+}
+
+/**
+ * Multiple-choice exercise; wrong choices are crossed out until the right one
+ * is picked
+ */
+export function ChoiceExercise({ prompt, puzzle, onComplete }: ChoiceExerciseProps) {
+  const [wrongChoices, setWrongChoices] = useState<Set<number>>(new Set());
+
+  const handleChoice = (index: number) => {
+    if (index === puzzle.answerIndex) {
+      onComplete(wrongChoices.size);
+      return;
+    }
+    setWrongChoices((prev) => new Set(prev).add(index));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center">{prompt}</div>
+      <div className="grid gap-2 sm:grid-cols-2">
+        {puzzle.choices.map((choice, index) => {
+          const isWrong = wrongChoices.has(index);
+          return (
+            <button
+              key={`${index}-${choice}`}
+              type="button"
+              disabled={isWrong}
+              onClick={() => handleChoice(index)}
+              className={`rounded-lg border px-4 py-3 text-left text-zinc-800 dark:text-zinc-200 ${
+                isWrong
+                  ? "border-red-300 text-zinc-400 line-through dark:border-red-800 dark:text-zinc-500"
+                  : "border-zinc-300 hover:bg-zinc-100 dark:border-zinc-700 dark:hover:bg-zinc-800"
+              }`}
+            >
+              {choice}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
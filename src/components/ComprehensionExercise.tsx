@@ -0,0 +1,96 @@
+"use client";
+
+import { ChoiceExercise } from "./ChoiceExercise";
+import { ReorderExercise } from "./ReorderExercise";
+import { WritingExercise } from "./WritingExercise";
+import { gradeComprehension, type ComprehensionPuzzle } from "@/lib/comprehension";
+import { gradeWriting, type StrokeData } from "@/lib/strokes";
+import type { Exercise, RecallGrade } from "@/lib/domain";
+
+interface ComprehensionExerciseProps {
+  exercise: Exercise;
+  comprehension: ComprehensionPuzzle;
+  /** Needed by the writing mode */
+  strokes: StrokeData | null;
+  /** Receives the grade of each word, in sentence order */
+  onComplete: (grades: RecallGrade[]) => void;
+}
+
+export function ComprehensionExercise({
+  exercise,
+  comprehension,
+  strokes,
+  onComplete: onGraded,
+}: ComprehensionExerciseProps) {
+  const wordSegments = exercise.segments.filter((segment) => segment.pinyin !== "");
+  const onComplete = (wordMistakes: number[]) => onGraded(wordMistakes.map(gradeComprehension));
+
+  if (comprehension.mode === "reorder") {
+    return (
+      <ReorderExercise exercise={exercise} puzzle={comprehension.puzzle} onComplete={onComplete} />
+    );
+  }
+
+  if (comprehension.mode === "writing" && strokes) {
+    const written = wordSegments.indexOf(exercise.segments[comprehension.puzzle.segmentIndex]);
+    return (
+      <WritingExercise
+        exercise={exercise}
+        puzzle={comprehension.puzzle}
+        strokes={strokes}
+        onComplete={(evidence) =>
+          onGraded(wordSegments.map((_, i) => (i === written ? gradeWriting(evidence) : "good")))
+        }
+      />
+    );
+  }
+
+  if (comprehension.mode === "translation") {
+    return (
+      <ChoiceExercise
+        prompt={
+          <div className="text-3xl text-zinc-900 dark:text-white">
+            {exercise.segments.map((segment) => segment.chinese).join("")}
+          </div>
+        }
+        puzzle={comprehension.puzzle}
+        // Misreading the sentence counts against every word in it
+        onComplete={(wrongAttempts) => onComplete(wordSegments.map(() => wrongAttempts))}
+      />
+    );
+  }
+
+  if (comprehension.mode !== "missing-segment") return null;
+
+  const { segmentIndex } = comprehension.puzzle;
+  const blankWord = wordSegments.indexOf(exercise.segments[segmentIndex]);
+
+  return (
+    <ChoiceExercise
+      prompt={
+        <div className="space-y-2">
+          <div className="text-3xl text-zinc-900 dark:text-white">
+            {exercise.segments.map((segment, i) =>
+              i === segmentIndex ? (
+                <span
+                  key={i}
+                  className="mx-1 inline-block min-w-12 border-b-2 border-red-500"
+                  aria-label="missing word"
+                >
+                  &nbsp;
+                </span>
+              ) : (
+                <span key={i}>{segment.chinese}</span>
+              )
+            )}
+          </div>
+          <div className="text-zinc-600 dark:text-zinc-400">{exercise.english}</div>
+        </div>
+      }
+      puzzle={comprehension.puzzle}
+      onComplete={(wrongAttempts) =>
+        onComplete(wordSegments.map((_, i) => (i === blankWord ? wrongAttempts : 0)))
+      }
+    />
+  );
+}
@@ -63,13 +63,16 @@ export function DebugModal({
                     3) Has been seen: {cand.score.hasBeenSeen}
                   </div>
                   <div>
-                    4) Largest ordered index:{" "}
+                    4) Unfamiliar chars: {cand.score.unfamiliarCharacterCount}
+                  </div>
+                  <div>
+                    5) Largest ordered index:{" "}
                     {cand.score.largestOrderedWordIndex === -1
                       ? "none"
                       : cand.score.largestOrderedWordIndex}
                   </div>
                   <div>
-                    5) Chinese chars: {cand.score.chineseCharacterCount}
+                    6) Chinese chars: {cand.score.chineseCharacterCount}
                   </div>
                 </div>
                 <div className="mb-3">
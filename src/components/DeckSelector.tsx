@@ -0,0 +1,52 @@
+"use client";
+
+import type { DeckInfo } from "@/lib/domain/deck";
+
+interface DeckSelectorProps {
+  decks: DeckInfo[];
+  activeDeckIds: string[];
+  onChange: (deckIds: string[]) => void;
+}
+
+export function DeckSelector({ decks, activeDeckIds, onChange }: DeckSelectorProps) {
+  const activeIds = new Set(activeDeckIds);
+
+  const toggleDeck = (deckId: string) => {
+    if (activeIds.has(deckId)) {
+      // Always keep at least one deck active
+      if (activeIds.size === 1) return;
+      onChange(activeDeckIds.filter((id) => id !== deckId));
+    } else {
+      // Keep the manifest order so word lists merge deterministically
+      onChange(decks.map((deck) => deck.id).filter((id) => id === deckId || activeIds.has(id)));
+    }
+  };
+
+  return (
+    <div className="mt-8">
+      <h3 className="mb-2 text-sm font-semibold text-zinc-700 dark:text-zinc-300">
+        Decks
+      </h3>
+      <div className="space-y-1 text-sm text-zinc-600 dark:text-zinc-400">
+        {decks.map((deck) => {
+          const isActive = activeIds.has(deck.id);
+          return (
+            <label
+              key={deck.id}
+              className="flex cursor-pointer items-center gap-2 rounded px-1 py-0.5 hover:bg-zinc-100 dark:hover:bg-zinc-800"
+            >
+              <input
+                type="checkbox"
+                checked={isActive}
+                disabled={isActive && activeIds.size === 1}
+                onChange={() => toggleDeck(deck.id)}
+                className="accent-red-600"
+              />
+              <span>{deck.name}</span>
+            </label>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
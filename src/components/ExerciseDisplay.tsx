@@ -1,9 +1,25 @@
 "use client";
 
 import { ExerciseSegmentDisplay } from "./ExerciseSegmentDisplay";
-import type { Exercise } from "@/lib/domain/exercise";
+import type { ChineseScript, Exercise } from "@/lib/domain/exercise";
 import type { ExerciseInputState } from "@/lib/domain/exercise-input";
 import { getSegmentDisplayState } from "@/lib/domain/exercise-input";
+import {
+  findInvalidSyllables,
+  getSpokenPinyin,
+  parsePinyinAnswer,
+  type PinyinDifference,
+  type PinyinFormat,
+} from "@/lib/pinyin";
+
+const MISTAKE_MESSAGES: Record<PinyinDifference, string> = {
+  tone: "Right syllables, wrong tone",
+  initial: "Check the initial",
+  final: "Check the final",
+  "missing-syllable": "A syllable is missing",
+  "extra-syllable": "Too many syllables",
+  syllable: "Not the right syllable",
+};
 
 interface ExerciseDisplayProps {
   exercise: Exercise;
@@ -17,6 +33,8 @@ interface ExerciseDisplayProps {
   onInputKeyDown: (e: React.KeyboardEvent<HTMLInputElement>) => void;
   /** The state machine state for computing segment display states */
   state?: ExerciseInputState;
+  answerFormat?: PinyinFormat;
+  script?: ChineseScript;
 }
 
 export function ExerciseDisplay({
@@ -30,9 +48,11 @@ export function ExerciseDisplay({
   onInputChange,
   onInputKeyDown,
   state,
+  answerFormat,
+  script,
 }: ExerciseDisplayProps) {
   if (isComplete) {
-    return <CompletedExercise exercise={exercise} />;
+    return <CompletedExercise exercise={exercise} script={script} />;
   }
 
   return (
@@ -47,6 +67,8 @@ export function ExerciseDisplay({
         onInputChange,
         onInputKeyDown,
         state,
+        answerFormat,
+        script,
       }}
     />
   );
@@ -54,43 +76,25 @@ export function ExerciseDisplay({
 
 interface CompletedExerciseProps {
   exercise: Exercise;
+  script?: ChineseScript;
 }
 
-function CompletedExercise({ exercise }: CompletedExerciseProps) {
+function CompletedExercise({ exercise, script }: CompletedExerciseProps) {
+  const spokenPinyin = getSpokenPinyin(exercise.segments);
+
   return (
     <div className="space-y-6">
       <div className="flex flex-wrap items-start gap-2 text-[2.5rem]">
-        {exercise.segments.map((segment, idx) => {
-          if (segment.pinyin === "") {
-            return (
-              <div key={idx} className="flex flex-col items-center gap-1">
-                <span className="h-4 text-sm leading-4 text-transparent">.</span>
-                <span className="text-zinc-900 dark:text-white">
-                  {segment.chinese}
-                </span>
-              </div>
-            );
-          }
-
-          const pinyinWidth = `${segment.pinyin.length * 0.6 + 1}rem`;
-
-          return (
-            <div key={idx} className="flex flex-col items-center gap-1">
-              <span className="h-4 text-sm leading-4 text-zinc-500 dark:text-zinc-400">
-                {segment.transliteration ?? ""}
-              </span>
-              <span className="text-zinc-900 dark:text-white">
-                {segment.chinese}
-              </span>
-              <span
-                className="inline-block px-2 py-1 text-center text-base text-green-600 dark:text-green-400"
-                style={{ width: pinyinWidth }}
-              >
-                {segment.pinyin}
-              </span>
-            </div>
-          );
-        })}
+        {exercise.segments.map((segment, idx) => (
+          <ExerciseSegmentDisplay
+            key={idx}
+            segment={segment}
+            state="completed"
+            showHint={true}
+            spokenPinyin={spokenPinyin[idx]}
+            script={script}
+          />
+        ))}
       </div>
       <div className="rounded-lg bg-zinc-50 p-4 text-lg text-zinc-700 dark:bg-zinc-800/60 dark:text-zinc-200">
         {exercise.english}
@@ -109,6 +113,8 @@ interface InputExerciseProps {
   onInputChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
   onInputKeyDown: (e: React.KeyboardEvent<HTMLInputElement>) => void;
   state?: ExerciseInputState;
+  answerFormat?: PinyinFormat;
+  script?: ChineseScript;
 }
 
 function InputExercise({
@@ -121,61 +127,88 @@ function InputExercise({
   onInputChange,
   onInputKeyDown,
   state,
+  answerFormat,
+  script,
 }: InputExerciseProps) {
+  const spokenPinyin = getSpokenPinyin(exercise.segments);
+  const invalidSyllables = findInvalidSyllables(
+    parsePinyinAnswer(inputValue, answerFormat ?? "tone-marks")
+  );
+  const feedback =
+    invalidSyllables.length > 0
+      ? `“${invalidSyllables[0]}” isn't a Mandarin syllable`
+      : state?.lastMistake
+        ? MISTAKE_MESSAGES[state.lastMistake]
+        : null;
   let inputSegmentIndex = 0;
 
   return (
-    <div className="flex flex-wrap items-start gap-2 text-[2.5rem]">
-      {exercise.segments.map((segment, idx) => {
-        if (segment.pinyin === "") {
-          return (
-            <div key={idx} className="flex flex-col items-center gap-1">
-              <span className="h-4 text-sm leading-4 text-transparent">.</span>
-              <span className="text-zinc-900 dark:text-white">
-                {segment.chinese}
-              </span>
-            </div>
-          );
-        }
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-start gap-2 text-[2.5rem]">
+        {exercise.segments.map((segment, idx) => {
+          if (segment.pinyin === "") {
+            return (
+              <ExerciseSegmentDisplay
+                key={idx}
+                segment={segment}
+                state="pending"
+                script={script}
+              />
+            );
+          }
 
-        const segmentInputIndex = inputSegmentIndex++;
+          const segmentInputIndex = inputSegmentIndex++;
 
-        // Use the state machine to compute display state if available,
-        // otherwise fall back to legacy computation
-        let visualState: "pending" | "current" | "completed";
-        let segmentShowHint: boolean;
+          // Use the state machine to compute display state if available,
+          // otherwise fall back to legacy computation
+          let visualState: "pending" | "current" | "completed";
+          let segmentShowHint: boolean;
 
-        if (state) {
-          const displayState = getSegmentDisplayState(state, segmentInputIndex);
-          visualState = displayState.visualState;
-          segmentShowHint = displayState.showHint;
-        } else {
-          // Legacy fallback for backward compatibility
-          visualState =
-            segmentInputIndex < currentInputIndex
-              ? "completed"
-              : segmentInputIndex === currentInputIndex
-              ? "current"
-              : "pending";
-          segmentShowHint =
-            visualState === "current"
-              ? showHint
-              : hintedWordIndices.has(segmentInputIndex);
-        }
+          if (state) {
+            const displayState = getSegmentDisplayState(state, segmentInputIndex);
+            visualState = displayState.visualState;
+            segmentShowHint = displayState.showHint;
+          } else {
+            // Legacy fallback for backward compatibility
+            visualState =
+              segmentInputIndex < currentInputIndex
+                ? "completed"
+                : segmentInputIndex === currentInputIndex
+                ? "current"
+                : "pending";
+            segmentShowHint =
+              visualState === "current"
+                ? showHint
+                : hintedWordIndices.has(segmentInputIndex);
+          }
 
-        return (
-          <ExerciseSegmentDisplay
-            key={idx}
-            segment={segment}
-            state={visualState}
-            inputRef={visualState === "current" ? inputRef : undefined}
-            inputValue={visualState === "current" ? inputValue : undefined}
-            showHint={segmentShowHint}
-            onInputChange={visualState === "current" ? onInputChange : undefined}
-            onInputKeyDown={visualState === "current" ? onInputKeyDown : undefined}
-          />
-        );
-      })}
+          return (
+            <ExerciseSegmentDisplay
+              key={idx}
+              segment={segment}
+              state={visualState}
+              inputRef={visualState === "current" ? inputRef : undefined}
+              inputValue={visualState === "current" ? inputValue : undefined}
+              showHint={segmentShowHint}
+              spokenPinyin={spokenPinyin[idx]}
+              answerFormat={answerFormat}
+              script={script}
+              onInputChange={visualState === "current" ? onInputChange : undefined}
+              onInputKeyDown={visualState === "current" ? onInputKeyDown : undefined}
+            />
+          );
+        })}
+      </div>
+      <p
+        aria-live="polite"
+        className={`h-5 text-sm ${
+          invalidSyllables.length > 0
+            ? "text-amber-600 dark:text-amber-400"
+            : "text-red-600 dark:text-red-400"
+        }`}
+      >
+        {feedback}
+      </p>
     </div>
   );
 }
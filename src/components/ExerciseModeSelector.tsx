@@ -0,0 +1,116 @@
+"use client";
+
+import { EXERCISE_MODES } from "@/lib/comprehension";
+import type { ExerciseMode } from "@/lib/domain";
+import { ANSWER_FORMATS, type PinyinAnswerSettings } from "@/lib/domain/exercise-input";
+import type { PinyinFormat } from "@/lib/pinyin";
+
+const MODE_LABELS: Record<ExerciseMode, string> = {
+  pinyin: "Type the pinyin",
+  translation: "Pick the translation",
+  reorder: "Reorder the words",
+  "missing-segment": "Fill in the missing word",
+  writing: "Write the characters",
+};
+
+const FORMAT_LABELS: Record<PinyinFormat, string> = {
+  "tone-marks": "Tone marks (xuésheng)",
+  numbered: "Numbers (xue2sheng5)",
+  zhuyin: "Zhuyin (ㄒㄩㄝˊ˙ㄕㄥ)",
+};
+
+interface ExerciseModeSelectorProps {
+  modes: ExerciseMode[];
+  /** Stroke data failed to load, so words are never written */
+  writingUnavailable: boolean;
+  onChange: (modes: ExerciseMode[]) => void;
+  answerSettings: PinyinAnswerSettings;
+  onAnswerSettingsChange: (settings: PinyinAnswerSettings) => void;
+}
+
+export function ExerciseModeSelector({
+  modes,
+  writingUnavailable,
+  onChange,
+  answerSettings,
+  onAnswerSettingsChange,
+}: ExerciseModeSelectorProps) {
+  const enabled = new Set(modes);
+
+  const toggleMode = (mode: ExerciseMode) => {
+    if (enabled.has(mode)) {
+      // Always keep at least one mode enabled
+      if (enabled.size === 1) return;
+      onChange(modes.filter((m) => m !== mode));
+    } else {
+      onChange(EXERCISE_MODES.filter((m) => m === mode || enabled.has(m)));
+    }
+  };
+
+  return (
+    <div className="mt-8">
+      <h3 className="mb-2 text-sm font-semibold text-zinc-700 dark:text-zinc-300">
+        Exercises
+      </h3>
+      <div className="space-y-1 text-sm text-zinc-600 dark:text-zinc-400">
+        {EXERCISE_MODES.map((mode) => {
+          const isEnabled = enabled.has(mode);
+          return (
+            <label
+              key={mode}
+              className="flex cursor-pointer items-center gap-2 rounded px-1 py-0.5 hover:bg-zinc-100 dark:hover:bg-zinc-800"
+            >
+              <input
+                type="checkbox"
+                checked={isEnabled}
+                disabled={isEnabled && enabled.size === 1}
+                onChange={() => toggleMode(mode)}
+                className="accent-red-600"
+              />
+              <span>{MODE_LABELS[mode]}</span>
+            </label>
+          );
+        })}
+      </div>
+      {enabled.has("pinyin") && (
+        <div className="mt-2 space-y-1 text-xs text-zinc-500">
+          <label className="flex items-center justify-between gap-2 px-1">
+            <span>Answer with</span>
+            <select
+              value={answerSettings.format}
+              onChange={(e) =>
+                onAnswerSettingsChange({
+                  ...answerSettings,
+                  format: e.target.value as PinyinFormat,
+                })
+              }
+              className="rounded border border-zinc-300 bg-white px-1 py-0.5 text-zinc-700 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300"
+            >
+              {ANSWER_FORMATS.map((format) => (
+                <option key={format} value={format}>
+                  {FORMAT_LABELS[format]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex cursor-pointer items-center gap-2 rounded px-1 py-0.5 hover:bg-zinc-100 dark:hover:bg-zinc-800">
+            <input
+              type="checkbox"
+              checked={answerSettings.acceptSandhi}
+              onChange={(e) =>
+                onAnswerSettingsChange({ ...answerSettings, acceptSandhi: e.target.checked })
+              }
+              className="accent-red-600"
+            />
+            <span>Accept spoken tones (ní hǎo for nǐ hǎo)</span>
+          </label>
+        </div>
+      )}
+      {writingUnavailable && enabled.has("writing") && (
+        <p className="mt-1 text-xs text-zinc-500">
+          Stroke data isn&apos;t available, so characters can&apos;t be written yet.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 "use client";
 
-import type { ExerciseSegment } from "@/lib/domain/exercise";
+import type { ChineseScript, ExerciseSegment } from "@/lib/domain/exercise";
+import { getScriptForms } from "@/lib/chinese-script";
+import { formatPinyin, normalizePinyin, type PinyinFormat } from "@/lib/pinyin";
 
 interface ExerciseSegmentDisplayProps {
   segment: ExerciseSegment;
@@ -8,6 +10,11 @@ interface ExerciseSegmentDisplayProps {
   inputRef?: React.RefObject<HTMLInputElement>;
   inputValue?: string;
   showHint?: boolean;
+  /** The pinyin with its tones as spoken after tone sandhi */
+  spokenPinyin?: string;
+  /** The format answers are typed in, used for the hint */
+  answerFormat?: PinyinFormat;
+  script?: ChineseScript;
   onInputChange?: (e: React.ChangeEvent<HTMLInputElement>) => void;
   onInputKeyDown?: (e: React.KeyboardEvent<HTMLInputElement>) => void;
 }
@@ -18,6 +25,9 @@ export function ExerciseSegmentDisplay({
   inputRef,
   inputValue,
   showHint,
+  spokenPinyin,
+  answerFormat = "tone-marks",
+  script = "simplified",
   onInputChange,
   onInputKeyDown,
 }: ExerciseSegmentDisplayProps) {
@@ -25,17 +35,23 @@ export function ExerciseSegmentDisplay({
     return (
       <div className="flex flex-col items-center gap-1">
         <span className="h-4 text-sm leading-4 text-transparent">.</span>
-        <span className="text-zinc-900 dark:text-white">{segment.chinese}</span>
+        <SegmentChinese segment={segment} script={script} />
       </div>
     );
   }
 
-  const pinyinWidth = `${segment.pinyin.length * 0.6 + 1}rem`;
+  const answer = formatPinyin(segment.pinyin, answerFormat);
+  const pinyinWidth = `${Math.max(segment.pinyin.length, answer.length) * 0.6 + 1}rem`;
 
   // Show transliteration when hint is active (for current or completed segments)
   const shouldShowTransliteration =
     showHint && segment.transliteration && (state === "current" || state === "completed");
 
+  const shouldShowSpokenTones =
+    state === "completed" &&
+    spokenPinyin !== undefined &&
+    normalizePinyin(spokenPinyin) !== normalizePinyin(segment.pinyin);
+
   return (
     <div className="flex flex-col items-center gap-1">
       <span
@@ -47,7 +63,7 @@ export function ExerciseSegmentDisplay({
       >
         {shouldShowTransliteration ? segment.transliteration : "."}
       </span>
-      <span className="text-zinc-900 dark:text-white">{segment.chinese}</span>
+      <SegmentChinese segment={segment} script={script} />
       {state === "current" ? (
         <input
           ref={inputRef}
@@ -55,19 +71,29 @@ export function ExerciseSegmentDisplay({
           value={inputValue ?? ""}
           onChange={onInputChange}
           onKeyDown={onInputKeyDown}
-          placeholder={showHint ? segment.pinyin : ""}
+          placeholder={showHint ? answer : ""}
           data-pinyin={segment.pinyin}
           style={{ width: pinyinWidth }}
           className="rounded border border-red-300 bg-red-50 px-2 py-1 text-center text-base text-zinc-900 placeholder-zinc-500 focus:border-red-500 focus:outline-none focus:ring-2 focus:ring-red-500/20 dark:border-red-700 dark:bg-red-900/20 dark:text-white dark:placeholder-zinc-400"
           autoFocus
         />
       ) : state === "completed" ? (
-        <span
-          className="inline-block px-2 py-1 text-center text-base text-green-600 dark:text-green-400"
-          style={{ width: pinyinWidth }}
-        >
-          {segment.pinyin}
-        </span>
+        <>
+          <span
+            className="inline-block px-2 py-1 text-center text-base text-green-600 dark:text-green-400"
+            style={{ width: pinyinWidth }}
+          >
+            {segment.pinyin}
+          </span>
+          {shouldShowSpokenTones && (
+            <span
+              className="text-sm leading-4 text-amber-600 dark:text-amber-400"
+              title="Tones as spoken, after tone sandhi"
+            >
+              {spokenPinyin}
+            </span>
+          )}
+        </>
       ) : (
         <span
           className="inline-block px-2 py-1 text-center text-base text-zinc-400 dark:text-zinc-600"
@@ -79,3 +105,28 @@ export function ExerciseSegmentDisplay({
     </div>
   );
 }
+
+interface SegmentChineseProps {
+  segment: ExerciseSegment;
+  script: ChineseScript;
+}
+
+function SegmentChinese({ segment, script }: SegmentChineseProps) {
+  const [primary, secondary] = getScriptForms(segment.chinese, segment.traditional, script);
+
+  return (
+    <>
+      <span className="text-zinc-900 dark:text-white">{primary}</span>
+      {/* Keep a second line on every segment so the rows stay aligned */}
+      {script === "both" && (
+        <span
+          className={`text-lg leading-6 ${
+            secondary ? "text-zinc-500 dark:text-zinc-400" : "text-transparent"
+          }`}
+        >
+          {secondary ?? "."}
+        </span>
+      )}
+    </>
+  );
+}
@@ -1,20 +1,34 @@
 "use client";
 
+import type { ChineseScript } from "@/lib/domain/exercise";
 import type { ExerciseHistory, WordIntervalChange } from "@/lib/domain/progress";
+import { getScriptForms, toTraditional } from "@/lib/chinese-script";
 import { formatDuration } from "@/lib/formatting";
 import { getWordChangeColor } from "@/lib/history-utils";
 
 interface HistoryDisplayProps {
   history: ExerciseHistory[];
+  script?: ChineseScript;
+  /** Traditional forms of the deck words, keyed by simplified text */
+  traditionalWords?: Map<string, string>;
 }
 
-export function HistoryDisplay({ history }: HistoryDisplayProps) {
+export function HistoryDisplay({
+  history,
+  script = "simplified",
+  traditionalWords = new Map(),
+}: HistoryDisplayProps) {
   const recentHistory = history.slice(-3).reverse();
 
   return (
     <div className="space-y-3">
       {recentHistory.map((item) => (
-        <HistoryItem key={item.completedAt} item={item} />
+        <HistoryItem
+          key={item.completedAt}
+          item={item}
+          script={script}
+          traditionalWords={traditionalWords}
+        />
       ))}
     </div>
   );
@@ -22,10 +36,22 @@ export function HistoryDisplay({ history }: HistoryDisplayProps) {
 
 interface HistoryItemProps {
   item: ExerciseHistory;
+  script: ChineseScript;
+  traditionalWords: Map<string, string>;
 }
 
-function HistoryItem({ item }: HistoryItemProps) {
-  const colorizedChinese = colorizeChineseText(item);
+function HistoryItem({ item, script, traditionalWords }: HistoryItemProps) {
+  // History is stored in simplified; convert only what is shown
+  const convert =
+    script === "traditional"
+      ? (text: string) => toTraditional(text, traditionalWords)
+      : (text: string) => text;
+  const colorizedChinese = colorizeChineseText(item, convert);
+  const [, secondary] = getScriptForms(
+    item.chinese,
+    toTraditional(item.chinese, traditionalWords),
+    script
+  );
 
   return (
     <div
@@ -37,13 +63,17 @@ function HistoryItem({ item }: HistoryItemProps) {
         </span>
         <span className="font-medium">{colorizedChinese}</span>
       </div>
+      {secondary && <div className="mb-1 text-zinc-500 dark:text-zinc-400">{secondary}</div>}
       <div className="mb-1 text-zinc-500 dark:text-zinc-400">{item.pinyin}</div>
       <div className="text-zinc-600 dark:text-zinc-300">{item.english}</div>
     </div>
   );
 }
 
-function colorizeChineseText(history: ExerciseHistory): React.ReactNode {
+function colorizeChineseText(
+  history: ExerciseHistory,
+  convert: (text: string) => string
+): React.ReactNode {
   const colorizedChinese: React.ReactNode[] = [];
   let remaining = history.chinese;
   let keyIdx = 0;
@@ -61,7 +91,7 @@ function colorizeChineseText(history: ExerciseHistory): React.ReactNode {
             className={colorClass}
             title={`Review in ${formatDuration(change.newIntervalSeconds)}`}
           >
-            {change.word}
+            {convert(change.word)}
           </span>
         );
         remaining = remaining.slice(change.word.length);
@@ -73,7 +103,7 @@ function colorizeChineseText(history: ExerciseHistory): React.ReactNode {
     if (!matched) {
       colorizedChinese.push(
         <span key={keyIdx++} className="text-zinc-900 dark:text-white">
-          {remaining[0]}
+          {convert(remaining[0])}
         </span>
       );
       remaining = remaining.slice(1);
@@ -0,0 +1,101 @@
+"use client";
+
+import type { ImportMode, ImportPreview } from "@/lib/progress-transfer";
+import { formatDate } from "@/lib/formatting";
+
+interface ImportProgressModalProps {
+  show: boolean;
+  onClose: () => void;
+  preview: ImportPreview | null;
+  error: string | null;
+  onConfirm: (mode: ImportMode) => void;
+}
+
+export function ImportProgressModal({
+  show,
+  onClose,
+  preview,
+  error,
+  onConfirm,
+}: ImportProgressModalProps) {
+  if (!show) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 backdrop-blur-sm">
+      <div className="flex max-h-[88vh] w-full max-w-lg flex-col rounded-2xl bg-white shadow-xl dark:bg-zinc-900">
+        <div className="flex items-center justify-between border-b border-zinc-200 p-6 dark:border-zinc-800">
+          <h3 className="text-xl font-bold text-zinc-900 dark:text-white">Import Progress</h3>
+          <button
+            onClick={onClose}
+            className="text-zinc-500 hover:text-zinc-700 dark:text-zinc-400 dark:hover:text-zinc-200"
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 text-sm text-zinc-600 dark:text-zinc-400">
+          {error ? (
+            <div className="rounded-lg bg-red-50 p-4 text-red-700 dark:bg-red-950/40 dark:text-red-400">
+              {error}
+            </div>
+          ) : preview ? (
+            <div className="space-y-4">
+              <div>
+                {preview.exportedAt !== null
+                  ? `Exported ${formatDate(preview.exportedAt)}`
+                  : "Export date unknown"}
+                {" · "}
+                {preview.incomingWords} words, {preview.incomingHistory} completed exercises
+              </div>
+
+              <div>
+                <div className="mb-1 font-semibold text-zinc-700 dark:text-zinc-300">Merge</div>
+                <ul className="list-inside list-disc space-y-0.5">
+                  <li>{preview.newWords} new words</li>
+                  <li>{preview.updatedWords} words with more recent reviews</li>
+                  <li>{preview.newHistory} new completed exercises</li>
+                </ul>
+              </div>
+
+              <div>
+                <div className="mb-1 font-semibold text-zinc-700 dark:text-zinc-300">Replace</div>
+                <ul className="list-inside list-disc space-y-0.5">
+                  <li>{preview.wordsOnlyInCurrent} words only in this browser will be removed</li>
+                  <li>
+                    {preview.historyOnlyInCurrent} completed exercises only in this browser will
+                    be removed
+                  </li>
+                </ul>
+              </div>
+            </div>
+          ) : null}
+        </div>
+
+        <div className="flex items-center justify-end gap-2 border-t border-zinc-200 p-6 dark:border-zinc-800">
+          <button
+            onClick={onClose}
+            className="rounded-xl border border-zinc-300 px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-100 dark:border-zinc-700 dark:text-zinc-300 dark:hover:bg-zinc-800"
+          >
+            Cancel
+          </button>
+          {preview && !error && (
+            <>
+              <button
+                onClick={() => onConfirm("replace")}
+                className="rounded-xl border border-red-300 px-4 py-2 text-sm font-medium text-red-600 hover:bg-red-50 dark:border-red-700 dark:text-red-400 dark:hover:bg-red-950/50"
+              >
+                Replace
+              </button>
+              <button
+                onClick={() => onConfirm("merge")}
+                className="rounded-xl bg-zinc-900 px-4 py-2 text-sm font-medium text-white hover:bg-zinc-800 dark:bg-white dark:text-zinc-900 dark:hover:bg-zinc-200"
+              >
+                Merge
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
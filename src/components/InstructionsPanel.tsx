@@ -1,30 +1,68 @@
 "use client";
 
-export function InstructionsPanel() {
+import type { PinyinFormat } from "@/lib/pinyin";
+
+interface InstructionsPanelProps {
+  answerFormat?: PinyinFormat;
+}
+
+const HINT_ITEM = (
+  <li>
+    Press{" "}
+    <kbd className="rounded bg-zinc-200 px-2 py-1 font-mono dark:bg-zinc-700">
+      Escape
+    </kbd>{" "}
+    to see a hint (will affect your review schedule)
+  </li>
+);
+
+export function InstructionsPanel({ answerFormat = "tone-marks" }: InstructionsPanelProps) {
   return (
     <div className="rounded-lg bg-zinc-100 p-4 text-sm text-zinc-600 dark:bg-zinc-800 dark:text-zinc-400">
       <p className="mb-2 font-medium text-zinc-700 dark:text-zinc-300">
         How to study:
       </p>
-      <ul className="list-inside list-disc space-y-1">
-        <li>Type pinyin followed by a tone number (1-4) for tone marks</li>
-        <li>
-          Example:{" "}
-          <code className="rounded bg-zinc-200 px-1 dark:bg-zinc-700">
-            wo3
-          </code>{" "}
-          becomes wǒ
-        </li>
-        <li>
-          Press{" "}
-          <kbd className="rounded bg-zinc-200 px-2 py-1 font-mono dark:bg-zinc-700">
-            Escape
-          </kbd>{" "}
-          to see a hint (will affect your review schedule)
-        </li>
-        <li>Use 0 to remove the last tone mark</li>
-        <li>v = ü (e.g., lv4 → lǜ)</li>
-      </ul>
+      {answerFormat === "numbered" ? (
+        <ul className="list-inside list-disc space-y-1">
+          <li>Type pinyin with a tone number (1-5) after each syllable</li>
+          <li>
+            Example:{" "}
+            <code className="rounded bg-zinc-200 px-1 dark:bg-zinc-700">
+              xue2sheng5
+            </code>{" "}
+            for xuésheng; the 5 for the neutral tone may be left out
+          </li>
+          {HINT_ITEM}
+          <li>v = ü (e.g., lv4 for lǜ)</li>
+        </ul>
+      ) : answerFormat === "zhuyin" ? (
+        <ul className="list-inside list-disc space-y-1">
+          <li>Type zhuyin with your keyboard&apos;s bopomofo input, tone marks included</li>
+          <li>
+            Example:{" "}
+            <code className="rounded bg-zinc-200 px-1 dark:bg-zinc-700">
+              ㄒㄩㄝˊ˙ㄕㄥ
+            </code>{" "}
+            for xuésheng
+          </li>
+          {HINT_ITEM}
+        </ul>
+      ) : (
+        <ul className="list-inside list-disc space-y-1">
+          <li>Type pinyin followed by a tone number (1-4) for tone marks</li>
+          <li>
+            Example:{" "}
+            <code className="rounded bg-zinc-200 px-1 dark:bg-zinc-700">
+              wo3
+            </code>{" "}
+            becomes wǒ
+          </li>
+          {HINT_ITEM}
+          <li>Use 5 for a neutral tone and 0 to remove the last tone mark</li>
+          <li>Separate syllables with an apostrophe (e.g., xi1&apos;an1 → xī&apos;ān)</li>
+          <li>v = ü (e.g., lv4 → lǜ)</li>
+        </ul>
+      )}
     </div>
   );
 }
@@ -0,0 +1,70 @@
+"use client";
+
+import type { Exercise } from "@/lib/domain/exercise";
+
+interface LeechRemediationPanelProps {
+  word: string;
+  /** Different example sentences containing the word */
+  examples: Exercise[];
+  onDone: () => void;
+}
+
+/**
+ * Shows a leech on its own, with its pinyin, transliteration and example
+ * sentences, before it goes back into normal rotation.
+ */
+export function LeechRemediationPanel({ word, examples, onDone }: LeechRemediationPanelProps) {
+  const segment = examples
+    .flatMap((example) => example.segments)
+    .find((s) => s.chinese === word);
+
+  return (
+    <div className="space-y-6">
+      <div className="text-sm font-semibold uppercase tracking-wide text-amber-600 dark:text-amber-400">
+        Tricky word — take a closer look
+      </div>
+
+      <div className="flex flex-col items-center gap-1">
+        <span className="h-5 text-base text-zinc-500 dark:text-zinc-400">
+          {segment?.transliteration ?? ""}
+        </span>
+        <span className="text-[4rem] leading-none text-zinc-900 dark:text-white">{word}</span>
+        <span className="text-xl text-green-600 dark:text-green-400">{segment?.pinyin ?? ""}</span>
+      </div>
+
+      <ul className="space-y-3">
+        {examples.map((example) => (
+          <li key={example.id} className="rounded-lg bg-zinc-50 p-4 dark:bg-zinc-800/60">
+            <div className="text-2xl text-zinc-900 dark:text-white">
+              {example.segments.map((s, idx) => (
+                <span
+                  key={idx}
+                  className={s.chinese === word ? "font-semibold text-red-600 dark:text-red-400" : ""}
+                >
+                  {s.chinese}
+                </span>
+              ))}
+            </div>
+            <div className="mt-1 text-sm text-zinc-500 dark:text-zinc-400">
+              {example.segments
+                .map((s) => s.pinyin)
+                .filter((p) => p)
+                .join(" ")}
+            </div>
+            <div className="mt-1 text-zinc-700 dark:text-zinc-200">{example.english}</div>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex justify-end">
+        <button
+          type="button"
+          onClick={onDone}
+          className="rounded-lg bg-red-600 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-red-500 focus:outline-none focus:ring-2 focus:ring-red-500/40"
+        >
+          Back to practice
+        </button>
+      </div>
+    </div>
+  );
+}
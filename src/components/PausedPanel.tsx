@@ -0,0 +1,28 @@
+"use client";
+
+interface PausedPanelProps {
+  pausedSince: number;
+  onResume: () => void;
+}
+
+/**
+ * Shown instead of an exercise while study is paused
+ */
+export function PausedPanel({ pausedSince, onResume }: PausedPanelProps) {
+  return (
+    <div className="space-y-4 py-8 text-center">
+      <div className="text-2xl font-semibold text-zinc-900 dark:text-white">Study is paused</div>
+      <p className="text-zinc-600 dark:text-zinc-400">
+        Your reviews have been frozen since {new Date(pausedSince).toLocaleDateString()}. Resume
+        when you&apos;re back; words that fall due meanwhile are spread over the following days.
+      </p>
+      <button
+        type="button"
+        onClick={onResume}
+        className="rounded-lg bg-red-600 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-red-500 focus:outline-none focus:ring-2 focus:ring-red-500/40"
+      >
+        Resume study
+      </button>
+    </div>
+  );
+}
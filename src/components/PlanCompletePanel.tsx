@@ -0,0 +1,29 @@
+"use client";
+
+interface PlanCompletePanelProps {
+  onKeepStudying: () => void;
+}
+
+/**
+ * Shown instead of an exercise once today's new-word and review limits are used up
+ */
+export function PlanCompletePanel({ onKeepStudying }: PlanCompletePanelProps) {
+  return (
+    <div className="space-y-4 py-8 text-center">
+      <div className="text-2xl font-semibold text-zinc-900 dark:text-white">
+        Today&apos;s plan is done
+      </div>
+      <p className="text-zinc-600 dark:text-zinc-400">
+        You&apos;ve reached your daily limits. Come back tomorrow for the next reviews, or keep
+        going past the limits for the rest of today.
+      </p>
+      <button
+        type="button"
+        onClick={onKeepStudying}
+        className="rounded-lg border border-zinc-300 px-4 py-2 text-sm text-zinc-700 hover:bg-zinc-100 dark:border-zinc-700 dark:text-zinc-300 dark:hover:bg-zinc-800"
+      >
+        Keep studying
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+"use client";
+
+import { useState } from "react";
+import { checkReorder, type ReorderPuzzle } from "@/lib/comprehension";
+import type { Exercise } from "@/lib/domain";
+
+interface ReorderExerciseProps {
+  exercise: Exercise;
+  puzzle: ReorderPuzzle;
+  /** Receives the mistakes made on each word, in sentence order */
+  onComplete: (wordMistakes: number[]) => void;
+}
+
+/**
+ * Put the shuffled words of a sentence in the order of its English
+ * translation
+ */
+export function ReorderExercise({ exercise, puzzle, onComplete }: ReorderExerciseProps) {
+  // Positions into puzzle.tiles, in the order placed
+  const [placed, setPlaced] = useState<number[]>([]);
+  const [wrongPositions, setWrongPositions] = useState<Set<number>>(new Set());
+  const [wordMistakes, setWordMistakes] = useState<number[]>(() => puzzle.tiles.map(() => 0));
+
+  const order = placed.map((tile) => puzzle.tiles[tile]);
+  const isFull = placed.length === puzzle.tiles.length;
+
+  const place = (tile: number) => {
+    setPlaced((prev) => [...prev, tile]);
+  };
+
+  const remove = (position: number) => {
+    setPlaced((prev) => prev.filter((_, i) => i !== position));
+    setWrongPositions(new Set());
+  };
+
+  const handleCheck = () => {
+    const correct = checkReorder(exercise, order);
+    const mistakes = wordMistakes.map((count, position) => count + (correct[position] ? 0 : 1));
+    if (correct.every(Boolean)) {
+      onComplete(mistakes);
+      return;
+    }
+    setWordMistakes(mistakes);
+    setWrongPositions(new Set(correct.flatMap((ok, position) => (ok ? [] : [position]))));
+  };
+
+  const tileClassName =
+    "rounded-lg border px-3 py-2 text-2xl text-zinc-900 dark:text-zinc-100";
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center text-lg text-zinc-700 dark:text-zinc-300">{exercise.english}</div>
+
+      <div className="flex min-h-16 flex-wrap justify-center gap-2 rounded-xl border border-dashed border-zinc-300 p-3 dark:border-zinc-700">
+        {placed.map((tile, position) => (
+          <button
+            key={tile}
+            type="button"
+            onClick={() => remove(position)}
+            className={`${tileClassName} ${
+              wrongPositions.has(position)
+                ? "border-red-400 bg-red-50 dark:border-red-700 dark:bg-red-950/40"
+                : "border-zinc-300 hover:bg-zinc-100 dark:border-zinc-700 dark:hover:bg-zinc-800"
+            }`}
+          >
+            {exercise.segments[puzzle.tiles[tile]].chinese}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap justify-center gap-2">
+        {puzzle.tiles.map((segmentIndex, tile) =>
+          placed.includes(tile) ? null : (
+            <button
+              key={tile}
+              type="button"
+              onClick={() => place(tile)}
+              className={`${tileClassName} border-zinc-300 hover:bg-zinc-100 dark:border-zinc-700 dark:hover:bg-zinc-800`}
+            >
+              {exercise.segments[segmentIndex].chinese}
+            </button>
+          )
+        )}
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          type="button"
+          disabled={!isFull}
+          onClick={handleCheck}
+          className="rounded-lg bg-red-600 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-red-500 disabled:opacity-50"
+        >
+          Check
+        </button>
+      </div>
+    </div>
+  );
+}
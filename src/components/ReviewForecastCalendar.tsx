@@ -0,0 +1,158 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { StudentProgress } from "@/lib/domain";
+import { forecastReviews, type ForecastDay } from "@/lib/review-forecast";
+
+interface ReviewForecastCalendarProps {
+  progress: StudentProgress;
+  /** Words left to introduce in the active decks, when known */
+  unseenWords?: number;
+  defaultNewWordsPerDay: number;
+}
+
+const DAY_OPTIONS = [30, 60, 90];
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+const HEAT_STYLES = [
+  "bg-zinc-50 text-zinc-400 dark:bg-zinc-800/40 dark:text-zinc-500",
+  "bg-red-100 text-red-900 dark:bg-red-950/60 dark:text-red-200",
+  "bg-red-200 text-red-900 dark:bg-red-900/60 dark:text-red-100",
+  "bg-red-400 text-white dark:bg-red-700",
+  "bg-red-600 text-white dark:bg-red-500",
+];
+
+function getHeatLevel(dueWords: number, maxDueWords: number): number {
+  if (dueWords === 0 || maxDueWords === 0) return 0;
+  return Math.max(1, Math.ceil((dueWords / maxDueWords) * (HEAT_STYLES.length - 1)));
+}
+
+function parseDateKey(dateKey: string): Date {
+  const [year, month, day] = dateKey.split("-").map((value) => parseInt(value, 10));
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Split the forecast into Monday-first weeks, padding the first week
+ */
+function toWeeks(forecast: ForecastDay[]): (ForecastDay | null)[][] {
+  if (forecast.length === 0) return [];
+  const padding = (parseDateKey(forecast[0].dateKey).getDay() + 6) % 7;
+  const cells: (ForecastDay | null)[] = [...Array(padding).fill(null), ...forecast];
+  const weeks: (ForecastDay | null)[][] = [];
+  for (let i = 0; i < cells.length; i += 7) {
+    weeks.push(cells.slice(i, i + 7));
+  }
+  return weeks;
+}
+
+export function ReviewForecastCalendar({
+  progress,
+  unseenWords,
+  defaultNewWordsPerDay,
+}: ReviewForecastCalendarProps) {
+  const [days, setDays] = useState(30);
+  const [newWordsPerDay, setNewWordsPerDay] = useState(defaultNewWordsPerDay);
+  const [nowTimestamp] = useState<number>(() => Date.now());
+
+  const forecast = useMemo(
+    () => forecastReviews(progress, nowTimestamp, { days, newWordsPerDay, unseenWords }),
+    [progress, nowTimestamp, days, newWordsPerDay, unseenWords]
+  );
+
+  const maxDueWords = Math.max(0, ...forecast.map((day) => day.dueWords));
+  const totalDueWords = forecast.reduce((sum, day) => sum + day.dueWords, 0);
+  const peakDay = forecast.find((day) => day.dueWords === maxDueWords);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100">Review forecast</h2>
+        <div className="flex items-center gap-4 text-xs text-zinc-600 dark:text-zinc-400">
+          <label className="flex items-center gap-1.5">
+            New words per day
+            <input
+              type="number"
+              min={0}
+              value={newWordsPerDay}
+              onChange={(e) => {
+                const value = Math.floor(Number(e.target.value));
+                if (Number.isFinite(value) && value >= 0) setNewWordsPerDay(value);
+              }}
+              className="w-14 rounded border border-zinc-300 bg-transparent px-1 py-0.5 text-right dark:border-zinc-700"
+            />
+          </label>
+          <div className="flex items-center gap-2">
+            {DAY_OPTIONS.map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setDays(option)}
+                className={`rounded-md px-3 py-1 text-xs font-semibold ${
+                  days === option
+                    ? "bg-red-600 text-white"
+                    : "bg-zinc-100 text-zinc-600 hover:bg-zinc-200 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700"
+                }`}
+              >
+                {option}D
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-6 text-sm text-zinc-600 dark:text-zinc-400">
+        <span>
+          Reviews: <span className="font-medium text-zinc-900 dark:text-zinc-100">{totalDueWords}</span>
+        </span>
+        <span>
+          Per day:{" "}
+          <span className="font-medium text-zinc-900 dark:text-zinc-100">
+            {forecast.length > 0 ? (totalDueWords / forecast.length).toFixed(1) : 0}
+          </span>
+        </span>
+        {peakDay && maxDueWords > 0 && (
+          <span>
+            Busiest day:{" "}
+            <span className="font-medium text-zinc-900 dark:text-zinc-100">
+              {parseDateKey(peakDay.dateKey).toLocaleDateString(undefined, {
+                month: "short",
+                day: "numeric",
+              })}{" "}
+              ({maxDueWords})
+            </span>
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 text-xs">
+        {WEEKDAYS.map((weekday) => (
+          <div key={weekday} className="px-1 text-center font-semibold text-zinc-500 dark:text-zinc-400">
+            {weekday}
+          </div>
+        ))}
+        {toWeeks(forecast).flatMap((week, weekIndex) =>
+          week.map((day, dayIndex) =>
+            day ? (
+              <div
+                key={day.dateKey}
+                title={`${day.dateKey}: ${day.dueWords} due${day.newWords > 0 ? `, ${day.newWords} new` : ""}`}
+                className={`flex h-12 flex-col justify-between rounded p-1 ${HEAT_STYLES[getHeatLevel(day.dueWords, maxDueWords)]}`}
+              >
+                <span className="opacity-70">{parseDateKey(day.dateKey).getDate()}</span>
+                <span className="text-right font-semibold tabular-nums">{day.dueWords || ""}</span>
+              </div>
+            ) : (
+              <div key={`pad-${weekIndex}-${dayIndex}`} />
+            )
+          )
+        )}
+      </div>
+
+      <div className="text-xs text-zinc-500 dark:text-zinc-400">
+        Assumes every review succeeds and words are reviewed on the day they fall due; overdue
+        words count on the first day.
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { StudentProgress } from "@/lib/domain";
+import { formatDuration } from "@/lib/formatting";
+import {
+  optimizeConfig,
+  scaleConfigToRetention,
+  type FitMetrics,
+} from "@/lib/scheduler-optimizer";
+import { DEFAULT_CONFIG, type SpacedRepetitionConfig } from "@/lib/spaced-repetition";
+
+interface SchedulerOptimizerModalProps {
+  show: boolean;
+  onClose: () => void;
+  progress: StudentProgress;
+  onApply: (config: SpacedRepetitionConfig) => void;
+}
+
+const RETENTION_OPTIONS = [0.8, 0.85, 0.9, 0.95];
+
+const PARAMETERS: { key: keyof SpacedRepetitionConfig; label: string; format: (v: number) => string }[] = [
+  { key: "firstTimeSuccessIntervalSeconds", label: "First interval", format: formatDuration },
+  { key: "hardReviewMultiplier", label: "Hard review", format: (v) => `×${v.toFixed(2)}` },
+  { key: "goodReviewMultiplier", label: "Good review", format: (v) => `×${v.toFixed(2)}` },
+  { key: "easyReviewMultiplier", label: "Easy review", format: (v) => `×${v.toFixed(2)}` },
+  { key: "earlyReviewMultiplier", label: "Early review", format: (v) => `×${v.toFixed(2)}` },
+];
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+function FitSummary({ label, metrics }: { label: string; metrics: FitMetrics }) {
+  return (
+    <div className="flex justify-between">
+      <span>{label}:</span>
+      <span className="font-medium text-zinc-900 dark:text-zinc-100">
+        {formatPercent(metrics.predictedRecallRate)} predicted · loss {metrics.logLoss.toFixed(3)}
+      </span>
+    </div>
+  );
+}
+
+export function SchedulerOptimizerModal({
+  show,
+  onClose,
+  progress,
+  onApply,
+}: SchedulerOptimizerModalProps) {
+  const [targetRetention, setTargetRetention] = useState(0.9);
+  const currentConfig = progress.scheduler?.config ?? DEFAULT_CONFIG;
+
+  // Fitting replays the whole review log many times; only redo it when the log or pauses change
+  const optimization = useMemo(() => {
+    if (!show) return null;
+    try {
+      return {
+        result: optimizeConfig(progress.reviewLog, 0.9, currentConfig, progress.pauses),
+        error: null,
+      };
+    } catch (error) {
+      return {
+        result: null,
+        error: error instanceof Error ? error.message : "Optimization failed.",
+      };
+    }
+  }, [show, progress.reviewLog, progress.pauses, currentConfig]);
+
+  if (!show || !optimization) return null;
+
+  const { result, error } = optimization;
+  const proposed = result ? scaleConfigToRetention(result.fittedConfig, targetRetention) : null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 backdrop-blur-sm">
+      <div className="flex max-h-[88vh] w-full max-w-lg flex-col rounded-2xl bg-white shadow-xl dark:bg-zinc-900">
+        <div className="flex items-center justify-between border-b border-zinc-200 p-6 dark:border-zinc-800">
+          <h3 className="text-xl font-bold text-zinc-900 dark:text-white">Personalise Scheduler</h3>
+          <button
+            onClick={onClose}
+            className="text-zinc-500 hover:text-zinc-700 dark:text-zinc-400 dark:hover:text-zinc-200"
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 text-sm text-zinc-600 dark:text-zinc-400">
+          {error ? (
+            <div className="rounded-lg bg-red-50 p-4 text-red-700 dark:bg-red-950/40 dark:text-red-400">
+              {error}
+            </div>
+          ) : result && proposed ? (
+            <div className="space-y-4">
+              <div className="space-y-1">
+                <div className="flex justify-between">
+                  <span>Reviews analysed:</span>
+                  <span className="font-medium text-zinc-900 dark:text-zinc-100">
+                    {result.baseline.reviewCount}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Actually recalled:</span>
+                  <span className="font-medium text-zinc-900 dark:text-zinc-100">
+                    {formatPercent(result.baseline.actualRecallRate)}
+                  </span>
+                </div>
+                <FitSummary label="Current settings" metrics={result.baseline} />
+                <FitSummary label="Fitted model" metrics={result.fitted} />
+              </div>
+
+              <label className="flex items-center justify-between">
+                <span>Target retention:</span>
+                <select
+                  value={targetRetention}
+                  onChange={(e) => setTargetRetention(Number(e.target.value))}
+                  className="rounded border border-zinc-300 bg-white px-2 py-1 text-sm text-zinc-700 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300"
+                >
+                  {RETENTION_OPTIONS.map((option) => (
+                    <option key={option} value={option}>
+                      {formatPercent(option)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              <table className="w-full">
+                <thead>
+                  <tr className="text-left text-xs text-zinc-500">
+                    <th className="pb-1 font-medium">Parameter</th>
+                    <th className="pb-1 text-right font-medium">Current</th>
+                    <th className="pb-1 text-right font-medium">Proposed</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {PARAMETERS.map(({ key, label, format }) => (
+                    <tr key={key}>
+                      <td className="py-0.5">{label}</td>
+                      <td className="py-0.5 text-right">{format(currentConfig[key])}</td>
+                      <td className="py-0.5 text-right font-medium text-zinc-900 dark:text-zinc-100">
+                        {format(proposed[key])}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : null}
+        </div>
+
+        <div className="flex items-center justify-end gap-2 border-t border-zinc-200 p-6 dark:border-zinc-800">
+          <button
+            onClick={onClose}
+            className="rounded-xl border border-zinc-300 px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-100 dark:border-zinc-700 dark:text-zinc-300 dark:hover:bg-zinc-800"
+          >
+            Cancel
+          </button>
+          {proposed && (
+            <button
+              onClick={() => onApply(proposed)}
+              className="rounded-xl bg-zinc-900 px-4 py-2 text-sm font-medium text-white hover:bg-zinc-800 dark:bg-white dark:text-zinc-900 dark:hover:bg-zinc-200"
+            >
+              Apply
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+"use client";
+
+import { getScheduler, SCHEDULER_IDS } from "@/lib/scheduler";
+import type { SchedulerId } from "@/lib/domain";
+
+interface SchedulerSelectorProps {
+  schedulerId: SchedulerId;
+  onChange: (schedulerId: SchedulerId) => void;
+  onOpenOptimizer: () => void;
+}
+
+export function SchedulerSelector({
+  schedulerId,
+  onChange,
+  onOpenOptimizer,
+}: SchedulerSelectorProps) {
+  return (
+    <div className="mt-8">
+      <h3 className="mb-2 text-sm font-semibold text-zinc-700 dark:text-zinc-300">
+        Scheduler
+      </h3>
+      <select
+        value={schedulerId}
+        onChange={(e) => onChange(e.target.value as SchedulerId)}
+        className="w-full rounded border border-zinc-300 bg-white px-2 py-1 text-sm text-zinc-700 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300"
+        title="Algorithm used to schedule word reviews"
+      >
+        {SCHEDULER_IDS.map((id) => (
+          <option key={id} value={id}>
+            {getScheduler(id).name}
+          </option>
+        ))}
+      </select>
+      {schedulerId === "erudify" && (
+        <button
+          type="button"
+          onClick={onOpenOptimizer}
+          className="mt-1 text-xs text-zinc-500 hover:text-red-600 dark:hover:text-red-400"
+          title="Fit the scheduler to your own review history"
+        >
+          Personalise…
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+"use client";
+
+import { useEffect } from "react";
+import { DEBUG_MODE, SERVICE_WORKER_FILE } from "@/lib/config";
+
+/**
+ * Register the offline service worker. Development builds skip it so pages
+ * and decks are never served stale while editing.
+ *
+ * On the first visit the scripts, deck manifest and decks load before the
+ * worker controls the page, so once it is ready the page sends it every
+ * same-origin URL it has fetched (and fetches later) to cache.
+ */
+export function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (DEBUG_MODE || !("serviceWorker" in navigator)) return;
+
+    const wasControlled = navigator.serviceWorker.controller !== null;
+    let observer: PerformanceObserver | null = null;
+    let cancelled = false;
+
+    navigator.serviceWorker
+      .register(SERVICE_WORKER_FILE)
+      .then(() => navigator.serviceWorker.ready)
+      .then((registration) => {
+        const worker = registration.active;
+        if (cancelled || wasControlled || !worker) return;
+
+        worker.postMessage({ type: "cache-urls", pages: [window.location.href] });
+        // Buffered entries cover what loaded already, including requests
+        // that were still in flight when the worker took over
+        observer = new PerformanceObserver((list) => {
+          const urls = list
+            .getEntries()
+            .map((entry) => entry.name)
+            .filter((url) => new URL(url).origin === window.location.origin);
+          if (urls.length > 0) worker.postMessage({ type: "cache-urls", urls });
+        });
+        observer.observe({ type: "resource", buffered: true });
+      })
+      .catch((error) => {
+        console.error("Failed to register service worker:", error);
+      });
+
+    return () => {
+      cancelled = true;
+      observer?.disconnect();
+    };
+  }, []);
+
+  return null;
+}
@@ -1,24 +1,67 @@
 "use client";
 
+import { useRef } from "react";
 import Link from "next/link";
 import { PomodoroTimer } from "./PomodoroTimer";
 import { HistoryDisplay } from "./HistoryDisplay";
-import type { ExerciseHistory } from "@/lib/domain";
+import { DeckSelector } from "./DeckSelector";
+import { SyncPanel } from "./SyncPanel";
+import { SchedulerSelector } from "./SchedulerSelector";
+import { StudyPlanPanel } from "./StudyPlanPanel";
+import { VacationModePanel } from "./VacationModePanel";
+import { ExerciseModeSelector } from "./ExerciseModeSelector";
+import { ChineseScriptSelector } from "./ChineseScriptSelector";
+import type {
+  ChineseScript,
+  DeckInfo,
+  ExerciseHistory,
+  ExerciseMode,
+  SchedulerId,
+  SchedulerSelection,
+} from "@/lib/domain";
+import type { PinyinAnswerSettings } from "@/lib/domain/exercise-input";
 import type { PomodoroState } from "./PomodoroTimer";
+import type { UseProgressSync } from "@/hooks/useProgress";
+import { DEFAULT_SCHEDULER_ID } from "@/lib/scheduler";
+import type { StudyLimits, StudyPlan } from "@/lib/study-plan";
 
 interface SidebarProps {
   progress: {
     words: Record<string, unknown>;
     history: ExerciseHistory[];
-    exerciseLastSeen: Record<number, unknown>;
+    exerciseLastSeen: Record<string, unknown>;
     dailyMetricsHistory: Record<string, unknown>;
+    scheduler?: SchedulerSelection;
   };
   stats: {
     known: number;
     review: number;
     left: number;
   };
+  studyPlan: StudyPlan;
+  studyLimits: StudyLimits;
+  onStudyLimitsChange: (limits: StudyLimits) => void;
+  exerciseModes: ExerciseMode[];
+  writingUnavailable: boolean;
+  onExerciseModesChange: (modes: ExerciseMode[]) => void;
+  answerSettings: PinyinAnswerSettings;
+  onAnswerSettingsChange: (settings: PinyinAnswerSettings) => void;
+  chineseScript: ChineseScript;
+  onChineseScriptChange: (script: ChineseScript) => void;
+  /** Traditional forms of the deck words, keyed by simplified text */
+  traditionalWords: Map<string, string>;
+  pausedSince: number | null;
+  onPause: () => void;
+  onResume: () => void;
+  decks: DeckInfo[];
+  activeDeckIds: string[];
+  onDeckSelectionChange: (deckIds: string[]) => void;
+  onSchedulerChange: (schedulerId: SchedulerId) => void;
+  onOpenSchedulerOptimizer: () => void;
+  sync: UseProgressSync;
   onClearProgress: () => void;
+  onExportProgress: () => void;
+  onImportProgress: (file: File) => void;
   onPomodoroStateChange: (state: PomodoroState) => void;
   onOpenMetricsHistory: () => void;
   onOpenWordProgress: () => void;
@@ -27,11 +70,35 @@ interface SidebarProps {
 export function Sidebar({
   progress,
   stats,
+  studyPlan,
+  studyLimits,
+  onStudyLimitsChange,
+  exerciseModes,
+  writingUnavailable,
+  onExerciseModesChange,
+  answerSettings,
+  onAnswerSettingsChange,
+  chineseScript,
+  onChineseScriptChange,
+  traditionalWords,
+  pausedSince,
+  onPause,
+  onResume,
+  decks,
+  activeDeckIds,
+  onDeckSelectionChange,
+  onSchedulerChange,
+  onOpenSchedulerOptimizer,
+  sync,
   onClearProgress,
+  onExportProgress,
+  onImportProgress,
   onPomodoroStateChange,
   onOpenMetricsHistory,
   onOpenWordProgress,
 }: SidebarProps) {
+  const importInputRef = useRef<HTMLInputElement>(null);
+
   return (
     <aside className="w-80 overflow-y-auto border-r border-zinc-200 bg-white p-6 dark:border-zinc-800 dark:bg-zinc-900">
       <h2 className="mb-4 text-xl font-bold text-zinc-900 dark:text-white">
@@ -51,6 +118,12 @@ export function Sidebar({
         >
           Study
         </Link>
+        <Link
+          href="/read/tones"
+          className="block rounded-lg px-3 py-2 text-sm text-zinc-600 hover:bg-zinc-100 dark:text-zinc-400 dark:hover:bg-zinc-800"
+        >
+          Tones
+        </Link>
       </nav>
 
       <div className="mt-8">
@@ -93,18 +166,79 @@ export function Sidebar({
         <div className="mt-2 text-xs text-zinc-500">
           Exercises: {Object.keys(progress.exerciseLastSeen).length}
         </div>
+        <StudyPlanPanel
+          plan={studyPlan}
+          limits={studyLimits}
+          onLimitsChange={onStudyLimitsChange}
+        />
       </div>
 
+      <VacationModePanel pausedSince={pausedSince} onPause={onPause} onResume={onResume} />
+
+      <DeckSelector
+        decks={decks}
+        activeDeckIds={activeDeckIds}
+        onChange={onDeckSelectionChange}
+      />
+
+      <ExerciseModeSelector
+        modes={exerciseModes}
+        writingUnavailable={writingUnavailable}
+        onChange={onExerciseModesChange}
+        answerSettings={answerSettings}
+        onAnswerSettingsChange={onAnswerSettingsChange}
+      />
+
+      <ChineseScriptSelector script={chineseScript} onChange={onChineseScriptChange} />
+
+      <SchedulerSelector
+        schedulerId={progress.scheduler?.id ?? DEFAULT_SCHEDULER_ID}
+        onChange={onSchedulerChange}
+        onOpenOptimizer={onOpenSchedulerOptimizer}
+      />
+
+      <SyncPanel sync={sync} />
+
       <PomodoroTimer onStateChange={onPomodoroStateChange} />
 
       <div className="mt-8">
         <h3 className="mb-2 text-sm font-semibold text-zinc-700 dark:text-zinc-300">
           Recent History
         </h3>
-        <HistoryDisplay history={progress.history} />
+        <HistoryDisplay
+          history={progress.history}
+          script={chineseScript}
+          traditionalWords={traditionalWords}
+        />
       </div>
 
-      <div className="mt-8">
+      <div className="mt-8 space-y-2">
+        <div className="flex gap-2">
+          <button
+            onClick={onExportProgress}
+            className="flex-1 rounded-lg border border-zinc-300 px-3 py-2 text-sm text-zinc-700 hover:bg-zinc-100 dark:border-zinc-700 dark:text-zinc-300 dark:hover:bg-zinc-800"
+          >
+            Export
+          </button>
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="flex-1 rounded-lg border border-zinc-300 px-3 py-2 text-sm text-zinc-700 hover:bg-zinc-100 dark:border-zinc-700 dark:text-zinc-300 dark:hover:bg-zinc-800"
+          >
+            Import
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              // Allow picking the same file again after a cancelled import
+              e.target.value = "";
+              if (file) onImportProgress(file);
+            }}
+          />
+        </div>
         <button
           onClick={onClearProgress}
           className="w-full rounded-lg border border-red-300 px-3 py-2 text-sm text-red-600 hover:bg-red-50 dark:border-red-700 dark:text-red-400 dark:hover:bg-red-950/50"
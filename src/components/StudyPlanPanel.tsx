@@ -0,0 +1,95 @@
+"use client";
+
+import type { PlanProgress, StudyLimits, StudyPlan } from "@/lib/study-plan";
+
+interface StudyPlanPanelProps {
+  plan: StudyPlan;
+  limits: StudyLimits;
+  onLimitsChange: (limits: StudyLimits) => void;
+}
+
+function PlanRow({ label, progress }: { label: string; progress: PlanProgress }) {
+  const target = progress.done + progress.remaining;
+  const percent = target > 0 ? Math.min(100, (progress.done / target) * 100) : 100;
+
+  return (
+    <div>
+      <div className="flex justify-between">
+        <span>{label}:</span>
+        <span className="font-medium text-zinc-900 dark:text-zinc-100">
+          {progress.done} / {target}
+        </span>
+      </div>
+      <div className="mt-1 h-1.5 rounded bg-zinc-200 dark:bg-zinc-700">
+        <div className="h-1.5 rounded bg-red-500" style={{ width: `${percent}%` }} />
+      </div>
+    </div>
+  );
+}
+
+function LimitInput({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <label className="flex items-center justify-between gap-2">
+      <span>{label}</span>
+      <input
+        type="number"
+        min={0}
+        step={1}
+        value={value}
+        onChange={(e) => {
+          const next = Math.floor(Number(e.target.value));
+          if (Number.isFinite(next) && next >= 0) onChange(next);
+        }}
+        className="w-16 rounded border border-zinc-300 bg-transparent px-1 py-0.5 text-right dark:border-zinc-700"
+      />
+    </label>
+  );
+}
+
+/**
+ * Today's progress against the daily limits, and the limits themselves
+ */
+export function StudyPlanPanel({ plan, limits, onLimitsChange }: StudyPlanPanelProps) {
+  return (
+    <div className="mt-4 space-y-2 text-sm text-zinc-600 dark:text-zinc-400">
+      <div className="flex items-baseline justify-between">
+        <span className="font-semibold text-zinc-700 dark:text-zinc-300">Today&apos;s plan</span>
+        <span className="text-xs text-zinc-500">
+          {plan.isComplete ? "Done for today" : `~${plan.estimatedMinutes} min left`}
+        </span>
+      </div>
+      <PlanRow label="New words" progress={plan.newWords} />
+      <PlanRow label="Reviews" progress={plan.reviews} />
+      {plan.dueToday > plan.reviews.remaining && (
+        <div className="text-xs text-zinc-500">
+          {plan.dueToday - plan.reviews.remaining} due words wait for tomorrow
+        </div>
+      )}
+      <details className="text-xs">
+        <summary className="cursor-pointer text-zinc-500 hover:text-zinc-700 dark:hover:text-zinc-300">
+          Daily limits
+        </summary>
+        <div className="mt-2 space-y-1">
+          <LimitInput
+            label="New words per day"
+            value={limits.newWordsPerDay}
+            onChange={(newWordsPerDay) => onLimitsChange({ ...limits, newWordsPerDay })}
+          />
+          <LimitInput
+            label="Reviews per day"
+            value={limits.reviewsPerDay}
+            onChange={(reviewsPerDay) => onLimitsChange({ ...limits, reviewsPerDay })}
+          />
+        </div>
+      </details>
+    </div>
+  );
+}
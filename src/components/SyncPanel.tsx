@@ -0,0 +1,95 @@
+"use client";
+
+import { useState } from "react";
+import type { UseProgressSync } from "@/hooks/useProgress";
+
+interface SyncPanelProps {
+  sync: UseProgressSync;
+}
+
+const STATUS_LABELS: Record<UseProgressSync["status"], string> = {
+  disabled: "Off",
+  idle: "Waiting",
+  syncing: "Syncing…",
+  synced: "Synced",
+  error: "Failed",
+};
+
+export function SyncPanel({ sync }: SyncPanelProps) {
+  const [keyInput, setKeyInput] = useState("");
+
+  return (
+    <div className="mt-8">
+      <h3 className="mb-2 text-sm font-semibold text-zinc-700 dark:text-zinc-300">
+        Sync
+      </h3>
+      {sync.syncKey ? (
+        <div className="space-y-2 text-sm text-zinc-600 dark:text-zinc-400">
+          <div className="flex justify-between">
+            <span>Status:</span>
+            <span
+              className={
+                sync.status === "error"
+                  ? "font-medium text-red-600 dark:text-red-400"
+                  : "font-medium text-zinc-900 dark:text-zinc-100"
+              }
+              title={sync.error ?? undefined}
+            >
+              {STATUS_LABELS[sync.status]}
+            </span>
+          </div>
+          <div>
+            <div className="text-xs text-zinc-500">
+              Enter this key on another device to share progress:
+            </div>
+            <input
+              type="text"
+              readOnly
+              value={sync.syncKey}
+              onFocus={(e) => e.target.select()}
+              className="mt-1 w-full rounded border border-zinc-300 bg-zinc-50 px-2 py-1 font-mono text-xs text-zinc-700 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300"
+            />
+          </div>
+          <button
+            onClick={sync.disableSync}
+            className="w-full rounded-lg border border-zinc-300 px-3 py-2 text-sm text-zinc-700 hover:bg-zinc-100 dark:border-zinc-700 dark:text-zinc-300 dark:hover:bg-zinc-800"
+          >
+            Disconnect
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <button
+            onClick={() => sync.enableSync()}
+            className="w-full rounded-lg border border-zinc-300 px-3 py-2 text-sm text-zinc-700 hover:bg-zinc-100 dark:border-zinc-700 dark:text-zinc-300 dark:hover:bg-zinc-800"
+          >
+            Enable Sync
+          </button>
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (!keyInput.trim()) return;
+              sync.enableSync(keyInput);
+              setKeyInput("");
+            }}
+          >
+            <input
+              type="text"
+              value={keyInput}
+              onChange={(e) => setKeyInput(e.target.value)}
+              placeholder="Existing sync key"
+              className="min-w-0 flex-1 rounded border border-zinc-300 px-2 py-1 font-mono text-xs text-zinc-700 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300"
+            />
+            <button
+              type="submit"
+              className="rounded-lg border border-zinc-300 px-3 py-1 text-sm text-zinc-700 hover:bg-zinc-100 dark:border-zinc-700 dark:text-zinc-300 dark:hover:bg-zinc-800"
+            >
+              Connect
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
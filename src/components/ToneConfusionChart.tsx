@@ -0,0 +1,83 @@
+"use client";
+
+import { useMemo } from "react";
+import type { ToneReview } from "@/lib/domain";
+import { getToneConfusions, getTopToneConfusions, TONES } from "@/lib/tone-drill";
+
+interface ToneConfusionChartProps {
+  toneLog: Record<string, ToneReview[]>;
+}
+
+/**
+ * Heatmap of the tone given for each expected tone, by share of answers
+ */
+export function ToneConfusionChart({ toneLog }: ToneConfusionChartProps) {
+  const matrix = useMemo(() => getToneConfusions(toneLog), [toneLog]);
+  const topConfusions = useMemo(() => getTopToneConfusions(matrix), [matrix]);
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100">Tone confusions</h2>
+
+      <table className="text-sm">
+        <thead>
+          <tr>
+            <th className="px-2 py-1 text-left font-normal text-zinc-500 dark:text-zinc-400">
+              Expected ↓ / Answered →
+            </th>
+            {TONES.map((tone) => (
+              <th key={tone} className="w-12 px-2 py-1 font-medium text-zinc-700 dark:text-zinc-300">
+                {tone}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {matrix.map((row, e) => {
+            const total = row.reduce((sum, count) => sum + count, 0);
+            return (
+              <tr key={e}>
+                <th className="px-2 py-1 text-left font-medium text-zinc-700 dark:text-zinc-300">
+                  {e + 1}
+                </th>
+                {row.map((count, a) => {
+                  const share = total === 0 ? 0 : count / total;
+                  const isCorrect = e === a;
+                  return (
+                    <td
+                      key={a}
+                      title={`Tone ${e + 1} answered as ${a + 1}: ${count}`}
+                      className="h-10 w-12 text-center text-zinc-900 dark:text-zinc-100"
+                      style={{
+                        backgroundColor:
+                          count === 0
+                            ? undefined
+                            : isCorrect
+                              ? `rgba(22, 163, 74, ${0.15 + share * 0.6})`
+                              : `rgba(220, 38, 38, ${0.15 + share * 0.6})`,
+                      }}
+                    >
+                      {count || ""}
+                    </td>
+                  );
+                })}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      {topConfusions.length === 0 ? (
+        <p className="text-sm text-zinc-500 dark:text-zinc-400">No tone mistakes yet.</p>
+      ) : (
+        <ul className="space-y-1 text-sm text-zinc-700 dark:text-zinc-300">
+          {topConfusions.map((confusion) => (
+            <li key={`${confusion.expected}-${confusion.answered}`}>
+              Tone {confusion.expected} heard as tone {confusion.answered}: {confusion.count}×
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { formatToneDrillSyllable, TONES, type ToneDrillSyllable } from "@/lib/tone-drill";
+
+interface ToneDrillProps {
+  word: string;
+  syllables: ToneDrillSyllable[];
+  /** Receives the tone given for each syllable once all are answered */
+  onAnswer: (answered: number[]) => void;
+  onNext: () => void;
+}
+
+const TONE_LABELS: Record<number, string> = {
+  1: "1 ˉ",
+  2: "2 ˊ",
+  3: "3 ˇ",
+  4: "4 ˋ",
+  5: "5 ·",
+};
+
+/**
+ * Asks for the tone of each syllable of a word, by button or number key, then
+ * shows the answer with tone marks
+ */
+export function ToneDrill({ word, syllables, onAnswer, onNext }: ToneDrillProps) {
+  const [answered, setAnswered] = useState<number[]>([]);
+  const isRevealed = answered.length === syllables.length;
+
+  const handleTone = useCallback(
+    (tone: number) => {
+      if (isRevealed) return;
+      const next = [...answered, tone];
+      setAnswered(next);
+      if (next.length === syllables.length) onAnswer(next);
+    },
+    [answered, isRevealed, syllables.length, onAnswer]
+  );
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isRevealed) {
+        if (event.key === "Enter") onNext();
+        return;
+      }
+      if (event.key === "Backspace") {
+        setAnswered((prev) => prev.slice(0, -1));
+        return;
+      }
+      const tone = parseInt(event.key, 10);
+      if (TONES.includes(tone)) handleTone(tone);
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [isRevealed, handleTone, onNext]);
+
+  return (
+    <div className="space-y-6 text-center">
+      <div className="text-5xl text-zinc-900 dark:text-zinc-100">{word}</div>
+
+      <div className="flex justify-center gap-3">
+        {syllables.map((syllable, index) => {
+          const tone = answered[index];
+          const isWrong = isRevealed && tone !== syllable.tone;
+          return (
+            <div key={index} className="min-w-16 rounded-lg border border-zinc-200 px-3 py-2 dark:border-zinc-700">
+              <div className="text-xl text-zinc-800 dark:text-zinc-200">
+                {isRevealed ? formatToneDrillSyllable(syllable) : syllable.syllable}
+              </div>
+              <div
+                className={`text-sm ${
+                  isWrong
+                    ? "text-red-600 line-through dark:text-red-400"
+                    : isRevealed
+                      ? "text-green-600 dark:text-green-400"
+                      : "text-zinc-500 dark:text-zinc-400"
+                }`}
+              >
+                {tone ?? (index === answered.length ? "?" : " ")}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {isRevealed ? (
+        <button
+          type="button"
+          onClick={onNext}
+          className="rounded-lg bg-red-600 px-4 py-2 text-sm font-medium text-white hover:bg-red-700"
+        >
+          Next (Enter)
+        </button>
+      ) : (
+        <div className="flex justify-center gap-2">
+          {TONES.map((tone) => (
+            <button
+              key={tone}
+              type="button"
+              onClick={() => handleTone(tone)}
+              className="rounded-lg border border-zinc-300 px-4 py-3 text-zinc-800 hover:bg-zinc-100 dark:border-zinc-700 dark:text-zinc-200 dark:hover:bg-zinc-800"
+            >
+              {TONE_LABELS[tone]}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
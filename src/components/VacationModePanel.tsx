@@ -0,0 +1,48 @@
+"use client";
+
+interface VacationModePanelProps {
+  pausedSince: number | null;
+  onPause: () => void;
+  onResume: () => void;
+}
+
+/**
+ * Sidebar control for pausing study, e.g. while on vacation
+ */
+export function VacationModePanel({ pausedSince, onPause, onResume }: VacationModePanelProps) {
+  return (
+    <div className="mt-8">
+      <h3 className="mb-2 text-sm font-semibold text-zinc-700 dark:text-zinc-300">
+        Vacation Mode
+      </h3>
+      {pausedSince === null ? (
+        <>
+          <p className="mb-2 text-xs text-zinc-500">
+            Pausing freezes your reviews. When you resume, overdue words are spread over the
+            following days.
+          </p>
+          <button
+            type="button"
+            onClick={onPause}
+            className="w-full rounded-lg border border-zinc-300 px-3 py-2 text-sm text-zinc-700 hover:bg-zinc-100 dark:border-zinc-700 dark:text-zinc-300 dark:hover:bg-zinc-800"
+          >
+            Pause study
+          </button>
+        </>
+      ) : (
+        <>
+          <p className="mb-2 text-sm text-zinc-600 dark:text-zinc-400">
+            Paused since {new Date(pausedSince).toLocaleDateString()}
+          </p>
+          <button
+            type="button"
+            onClick={onResume}
+            className="w-full rounded-lg bg-red-600 px-3 py-2 text-sm font-semibold text-white hover:bg-red-500"
+          >
+            Resume study
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
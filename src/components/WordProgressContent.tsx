@@ -1,10 +1,12 @@
 "use client";
 
-import { useMemo } from "react";
+import { useMemo, useState } from "react";
 import type { WordProgress, ExerciseHistory } from "@/lib/domain";
-import type { Exercise } from "@/lib/domain/exercise";
+import type { ChineseScript, Exercise } from "@/lib/domain/exercise";
+import { getScriptForms, getTraditionalWords, toTraditional } from "@/lib/chinese-script";
 import { formatShortDuration, formatRelativeTime } from "@/lib/formatting";
 import { getExerciseWords } from "@/lib/exercises";
+import { isLeech, needsRemediation } from "@/lib/leeches";
 
 interface WordProgressContentProps {
   wordList: string[];
@@ -12,6 +14,7 @@ interface WordProgressContentProps {
   history: ExerciseHistory[];
   exercises: Exercise[];
   now: number;
+  script?: ChineseScript;
 }
 
 interface WordRow {
@@ -36,6 +39,26 @@ function getWordStatus(
   return "future";
 }
 
+interface WordFormsProps {
+  word: string;
+  traditional: string;
+  script: ChineseScript;
+}
+
+/** The word in the chosen script, with its traditional form after it when showing both */
+function WordForms({ word, traditional, script }: WordFormsProps) {
+  const [primary, secondary] = getScriptForms(word, traditional, script);
+
+  return (
+    <>
+      {primary}
+      {secondary && (
+        <span className="ml-2 font-normal text-zinc-500 dark:text-zinc-400">{secondary}</span>
+      )}
+    </>
+  );
+}
+
 const STATUS_STYLES: Record<string, string> = {
   overdue: "bg-red-50 dark:bg-red-950/30",
   "due-today": "bg-amber-50 dark:bg-amber-950/30",
@@ -49,9 +72,12 @@ export function WordProgressContent({
   history,
   exercises,
   now,
+  script = "simplified",
 }: WordProgressContentProps) {
+  const [leechesOnly, setLeechesOnly] = useState(false);
+  const traditionalWords = useMemo(() => getTraditionalWords(exercises), [exercises]);
   const { wordSentenceCounts, totalSentenceCounts, wordExerciseIndices } = useMemo(() => {
-    const wordSeen = new Map<string, Set<number>>();
+    const wordSeen = new Map<string, Set<string>>();
     const wordTotal = new Map<string, number>();
     const wordExercises = new Map<string, number[]>();
 
@@ -71,7 +97,7 @@ export function WordProgressContent({
         if (!wordSeen.has(change.word)) {
           wordSeen.set(change.word, new Set());
         }
-        wordSeen.get(change.word)!.add(entry.exerciseIndex);
+        wordSeen.get(change.word)!.add(entry.exerciseId);
       }
     }
 
@@ -119,6 +145,9 @@ export function WordProgressContent({
     return c;
   }, [rows]);
 
+  const leechCount = useMemo(() => rows.filter((row) => isLeech(row.progress)).length, [rows]);
+  const visibleRows = leechesOnly ? rows.filter((row) => isLeech(row.progress)) : rows;
+
   return (
     <div className="space-y-4">
       <div className="flex flex-wrap gap-3 text-xs">
@@ -138,6 +167,14 @@ export function WordProgressContent({
           <span className="inline-block h-3 w-3 rounded bg-zinc-200 dark:bg-zinc-700" />
           Unseen ({counts.unseen})
         </span>
+        <label className="ml-auto flex items-center gap-1.5">
+          <input
+            type="checkbox"
+            checked={leechesOnly}
+            onChange={(e) => setLeechesOnly(e.target.checked)}
+          />
+          Leeches only ({leechCount})
+        </label>
       </div>
 
       <div className="overflow-x-auto">
@@ -154,7 +191,7 @@ export function WordProgressContent({
             </tr>
           </thead>
           <tbody>
-            {rows.map((row) => (
+            {visibleRows.map((row) => (
               <tr
                 key={row.word}
                 className={`border-b border-zinc-100 dark:border-zinc-800 ${STATUS_STYLES[row.status]}`}
@@ -163,7 +200,23 @@ export function WordProgressContent({
                   {row.index}
                 </td>
                 <td className="px-2 py-1.5 font-medium text-zinc-900 dark:text-zinc-100">
-                  {row.word}
+                  <WordForms
+                    word={row.word}
+                    traditional={toTraditional(row.word, traditionalWords)}
+                    script={script}
+                  />
+                  {isLeech(row.progress) && (
+                    <span
+                      className="ml-2 rounded bg-amber-100 px-1.5 py-0.5 text-xs font-normal text-amber-700 dark:bg-amber-900/50 dark:text-amber-300"
+                      title={
+                        needsRemediation(row.progress)
+                          ? "Keeps being forgotten; remediation pending"
+                          : "Keeps being forgotten; remediated"
+                      }
+                    >
+                      leech
+                    </span>
+                  )}
                 </td>
                 <td className="px-2 py-1.5 text-zinc-600 dark:text-zinc-400">
                   {row.progress
@@ -1,8 +1,10 @@
 "use client";
 
+import { useState } from "react";
 import type { WordProgress, ExerciseHistory } from "@/lib/domain";
-import type { Exercise } from "@/lib/domain/exercise";
+import type { ChineseScript, Exercise } from "@/lib/domain/exercise";
 import { WordProgressContent } from "@/components/WordProgressContent";
+import { CharacterProgressTable } from "@/components/CharacterProgressTable";
 
 interface WordProgressModalProps {
   show: boolean;
@@ -12,6 +14,7 @@ interface WordProgressModalProps {
   history: ExerciseHistory[];
   exercises: Exercise[];
   now: number;
+  script?: ChineseScript;
 }
 
 export function WordProgressModal({
@@ -22,14 +25,35 @@ export function WordProgressModal({
   history,
   exercises,
   now,
+  script,
 }: WordProgressModalProps) {
+  const [view, setView] = useState<"words" | "characters">("words");
+
   if (!show) return null;
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 backdrop-blur-sm">
       <div className="flex max-h-[88vh] w-full max-w-5xl flex-col rounded-2xl bg-white shadow-xl dark:bg-zinc-900">
         <div className="flex items-center justify-between border-b border-zinc-200 p-6 dark:border-zinc-800">
-          <h3 className="text-xl font-bold text-zinc-900 dark:text-white">Word Progress</h3>
+          <div className="flex items-center gap-4">
+            <h3 className="text-xl font-bold text-zinc-900 dark:text-white">Word Progress</h3>
+            <div className="flex rounded-lg border border-zinc-300 text-sm dark:border-zinc-700">
+              {(["words", "characters"] as const).map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setView(option)}
+                  className={`px-3 py-1 capitalize first:rounded-l-lg last:rounded-r-lg ${
+                    view === option
+                      ? "bg-zinc-900 text-white dark:bg-white dark:text-zinc-900"
+                      : "text-zinc-600 hover:bg-zinc-100 dark:text-zinc-400 dark:hover:bg-zinc-800"
+                  }`}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+          </div>
           <button
             onClick={onClose}
             className="text-zinc-500 hover:text-zinc-700 dark:text-zinc-400 dark:hover:text-zinc-200"
@@ -39,13 +63,18 @@ export function WordProgressModal({
         </div>
 
         <div className="flex-1 overflow-y-auto p-6">
-          <WordProgressContent
-            wordList={wordList}
-            words={words}
-            history={history}
-            exercises={exercises}
-            now={now}
-          />
+          {view === "words" ? (
+            <WordProgressContent
+              wordList={wordList}
+              words={words}
+              history={history}
+              exercises={exercises}
+              now={now}
+              script={script}
+            />
+          ) : (
+            <CharacterProgressTable wordList={wordList} words={words} now={now} />
+          )}
         </div>
 
         <div className="flex items-center justify-end border-t border-zinc-200 p-6 dark:border-zinc-800">
@@ -0,0 +1,123 @@
+"use client";
+
+import { useState } from "react";
+import { CharacterCanvas } from "./CharacterCanvas";
+import type { WritingPuzzle } from "@/lib/comprehension";
+import type { Exercise } from "@/lib/domain";
+import {
+  checkStroke,
+  MISTAKES_BEFORE_HINT,
+  type StrokeData,
+  type StrokePoint,
+  type StrokeResult,
+  type WritingEvidence,
+} from "@/lib/strokes";
+
+interface WritingExerciseProps {
+  exercise: Exercise;
+  puzzle: WritingPuzzle;
+  strokes: StrokeData;
+  onComplete: (evidence: WritingEvidence) => void;
+}
+
+const FEEDBACK: Record<Exclude<StrokeResult, "correct">, string> = {
+  backwards: "Right stroke, wrong direction",
+  "out-of-order": "That stroke comes later. Check the stroke order",
+  wrong: "That doesn't match the next stroke",
+};
+
+/**
+ * Write each character of a word from the sentence, stroke by stroke
+ */
+export function WritingExercise({ exercise, puzzle, strokes, onComplete }: WritingExerciseProps) {
+  const segment = exercise.segments[puzzle.segmentIndex];
+  const characters = segment.chinese.match(/\p{Script=Han}/gu) ?? [];
+
+  const [characterIndex, setCharacterIndex] = useState(0);
+  const [strokeIndex, setStrokeIndex] = useState(0);
+  const [strokeMistakes, setStrokeMistakes] = useState(0);
+  const [showHint, setShowHint] = useState(false);
+  const [feedback, setFeedback] = useState<StrokeResult | null>(null);
+  const [evidence, setEvidence] = useState<WritingEvidence>({ mistakes: 0, hintsUsed: 0 });
+
+  const medians = strokes[characters[characterIndex]] ?? [];
+
+  const revealHint = (current: WritingEvidence): WritingEvidence => {
+    if (showHint) return current;
+    setShowHint(true);
+    return { ...current, hintsUsed: current.hintsUsed + 1 };
+  };
+
+  const handleStrokeDrawn = (points: StrokePoint[]) => {
+    const result = checkStroke(points, medians, strokeIndex);
+    setFeedback(result);
+
+    if (result !== "correct") {
+      let updated = { ...evidence, mistakes: evidence.mistakes + 1 };
+      if (strokeMistakes + 1 >= MISTAKES_BEFORE_HINT) updated = revealHint(updated);
+      setStrokeMistakes(strokeMistakes + 1);
+      setEvidence(updated);
+      return;
+    }
+
+    setStrokeMistakes(0);
+    setShowHint(false);
+    if (strokeIndex + 1 < medians.length) {
+      setStrokeIndex(strokeIndex + 1);
+    } else if (characterIndex + 1 < characters.length) {
+      setCharacterIndex(characterIndex + 1);
+      setStrokeIndex(0);
+      setFeedback(null);
+    } else {
+      onComplete(evidence);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2 text-center">
+        <div className="text-3xl text-zinc-900 dark:text-white">
+          {exercise.segments.map((s, i) =>
+            i === puzzle.segmentIndex ? (
+              <span key={i} className="mx-1 text-red-600 dark:text-red-400">
+                {characters.slice(0, characterIndex).join("")}
+                {"＿".repeat(characters.length - characterIndex)}
+              </span>
+            ) : (
+              <span key={i}>{s.chinese}</span>
+            )
+          )}
+        </div>
+        <div className="text-lg text-zinc-700 dark:text-zinc-300">{segment.pinyin}</div>
+        <div className="text-zinc-600 dark:text-zinc-400">{exercise.english}</div>
+      </div>
+
+      <div className="flex flex-col items-center gap-3">
+        <CharacterCanvas
+          key={characterIndex}
+          medians={medians}
+          completedStrokes={strokeIndex}
+          showHint={showHint}
+          onStrokeDrawn={handleStrokeDrawn}
+        />
+        <div className="h-5 text-sm text-red-600 dark:text-red-400">
+          {feedback && feedback !== "correct" ? FEEDBACK[feedback] : ""}
+        </div>
+        <div className="flex items-center gap-4 text-sm text-zinc-500">
+          <span>
+            Character {characterIndex + 1} of {characters.length}, stroke{" "}
+            {Math.min(strokeIndex + 1, medians.length)} of {medians.length}
+          </span>
+          <button
+            type="button"
+            disabled={showHint}
+            onClick={() => setEvidence(revealHint(evidence))}
+            className="rounded-lg border border-zinc-300 px-3 py-1 text-zinc-700 hover:bg-zinc-100 disabled:opacity-50 dark:border-zinc-700 dark:text-zinc-300 dark:hover:bg-zinc-800"
+          >
+            Hint
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
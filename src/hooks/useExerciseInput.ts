@@ -1,9 +1,13 @@
-import { useState, useCallback, KeyboardEvent, ChangeEvent, useRef, useEffect } from "react";
+import { useState, useCallback, KeyboardEvent, ChangeEvent, useRef, useEffect, useMemo } from "react";
 import { processPinyinInput } from "../lib/pinyin";
 import type { ExerciseSegment } from "../lib/domain";
 import {
+  DEFAULT_PINYIN_ANSWER_SETTINGS,
   ExerciseInputState,
+  PinyinAnswerSettings,
+  SegmentEvidence,
   createInitialState,
+  getAcceptedPinyin,
   requestHint,
   updateInput,
   resetState,
@@ -11,8 +15,11 @@ import {
 
 export interface UseExerciseInputOptions {
   segments: ExerciseSegment[];
+  /** Which forms of the pinyin count as correct */
+  answerSettings?: PinyinAnswerSettings;
   onSegmentComplete?: (index: number) => void;
-  onComplete?: (hintsUsed: Set<number>) => void;
+  /** Receives the evidence recorded for each input segment */
+  onComplete?: (evidence: SegmentEvidence[]) => void;
 }
 
 export interface UseExerciseInputReturn {
@@ -34,10 +41,18 @@ export interface UseExerciseInputReturn {
 export function useExerciseInput(
   options: UseExerciseInputOptions
 ): UseExerciseInputReturn {
-  const { segments, onSegmentComplete, onComplete } = options;
-
-  const inputSegments = segments.filter((seg) => seg.pinyin !== "");
-  const totalInputs = inputSegments.length;
+  const {
+    segments,
+    answerSettings = DEFAULT_PINYIN_ANSWER_SETTINGS,
+    onSegmentComplete,
+    onComplete,
+  } = options;
+
+  const acceptedPinyin = useMemo(
+    () => getAcceptedPinyin(segments, answerSettings),
+    [segments, answerSettings]
+  );
+  const totalInputs = acceptedPinyin.length;
 
   const [state, setState] = useState<ExerciseInputState>(() =>
     createInitialState(totalInputs)
@@ -65,20 +80,20 @@ export function useExerciseInput(
 
   const checkAndAdvance = useCallback(
     (newValue: string) => {
-      const currentSegment = inputSegments[state.currentInputIndex];
-      if (!currentSegment) return;
+      const accepted = acceptedPinyin[state.currentInputIndex];
+      if (!accepted) return;
 
-      const result = updateInput(state, newValue, currentSegment.pinyin);
+      const result = updateInput(state, newValue, accepted, Date.now(), answerSettings.format);
       setState(result.state);
 
       if (result.segmentCompleted !== undefined) {
         onSegmentCompleteRef.current?.(result.segmentCompleted);
       }
       if (result.exerciseCompleted) {
-        onCompleteRef.current?.(result.state.hintedIndices);
+        onCompleteRef.current?.(result.state.evidence);
       }
     },
-    [state, inputSegments]
+    [state, acceptedPinyin, answerSettings.format]
   );
 
   const handleKeyDown = useCallback(
@@ -89,7 +104,9 @@ export function useExerciseInput(
         return;
       }
 
-      if (/^[0-4]$/.test(e.key)) {
+      // Numbered pinyin keeps its digits and zhuyin comes from the keyboard's
+      // input method; only tone-marked pinyin turns digits into marks
+      if (answerSettings.format === "tone-marks" && /^[0-5]$/.test(e.key)) {
         e.preventDefault();
         const input = e.currentTarget;
         const selectionStart = input.selectionStart ?? state.inputValue.length;
@@ -110,7 +127,7 @@ export function useExerciseInput(
         });
       }
     },
-    [state, checkAndAdvance]
+    [state, checkAndAdvance, answerSettings.format]
   );
 
   const handleChange = useCallback(
@@ -127,8 +144,8 @@ export function useExerciseInput(
   }, [totalInputs]);
 
   const completeExercise = useCallback(() => {
-    onCompleteRef.current?.(state.hintedIndices);
-  }, [state.hintedIndices]);
+    onCompleteRef.current?.(state.evidence);
+  }, [state.evidence]);
 
   // For backward compatibility, expose individual state properties
   const setInputValue = useCallback((value: string) => {
@@ -1,24 +1,28 @@
 import { useMemo } from "react";
 import { getExerciseCandidates, selectNextExercise } from "../lib/exercises";
 import type { Exercise, StudentProgress, ScoredExercise } from "../lib/domain";
+import type { StudyLimits } from "../lib/study-plan";
 
 export interface UseExerciseSelectionReturn {
   currentExercise: Exercise | null;
   currentIndex: number;
   targetWord: string | undefined;
   debugCandidates: ScoredExercise[];
+  /** True when the daily limits leave nothing more to study today */
+  isPlanComplete: boolean;
 }
 
 export function useExerciseSelection(
   exercises: Exercise[],
   progress: StudentProgress,
   wordList: string[],
-  displayedIndex: number | null
+  displayedIndex: number | null,
+  limits?: StudyLimits
 ): UseExerciseSelectionReturn {
   const nextExerciseData = useMemo(() => {
     if (exercises.length === 0) return null;
-    return selectNextExercise(exercises, progress, wordList);
-  }, [exercises, progress, wordList]);
+    return selectNextExercise(exercises, progress, wordList, undefined, limits);
+  }, [exercises, progress, wordList, limits]);
 
   const currentIndex = displayedIndex ?? nextExerciseData?.index ?? -1;
   const currentExercise = currentIndex >= 0 && currentIndex < exercises.length ? exercises[currentIndex] : null;
@@ -29,5 +33,7 @@ export function useExerciseSelection(
     return getExerciseCandidates(targetWord, exercises, progress, wordList);
   }, [targetWord, exercises, progress, wordList]);
 
-  return { currentExercise, currentIndex, targetWord, debugCandidates };
+  const isPlanComplete = limits !== undefined && exercises.length > 0 && nextExerciseData === null;
+
+  return { currentExercise, currentIndex, targetWord, debugCandidates, isPlanComplete };
 }
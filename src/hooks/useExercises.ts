@@ -1,36 +1,138 @@
-import { useState, useEffect } from "react";
-import { loadAllData } from "../lib/data-loader";
+import { useState, useEffect, useCallback, useRef } from "react";
+import { hasDeckUpdate, loadAllData, loadDeckManifest } from "../lib/data-loader";
+import { loadDeckSelection, saveDeckSelection } from "../lib/storage";
+import type { DeckInfo } from "../lib/domain/deck";
 import type { Exercise } from "../lib/domain/exercise";
 
 export interface UseExercisesReturn {
+  decks: DeckInfo[];
+  activeDeckIds: string[];
+  setActiveDeckIds: (deckIds: string[]) => void;
   exercises: Exercise[];
   wordList: string[];
   loading: boolean;
   error: Error | null;
+  /** A newer build of the active decks has been downloaded */
+  deckUpdateAvailable: boolean;
+  /** Switch to the downloaded decks; call between exercises to keep the learner's place */
+  applyDeckUpdate: () => void;
+}
+
+interface LoadedData {
+  decks: DeckInfo[];
+  /** The requested decks that the manifest still lists */
+  activeDeckIds: string[];
+  exercises: Exercise[];
+  wordList: string[];
+}
+
+function isSameSelection(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((id, i) => id === b[i]);
 }
 
 export function useExercises(): UseExercisesReturn {
-  const [data, setData] = useState<{ exercises: Exercise[]; wordList: string[] }>({
+  const [activeDeckIds, setActiveDeckIdsState] = useState<string[]>(() => loadDeckSelection());
+  const [data, setData] = useState<LoadedData>({
+    decks: [],
+    activeDeckIds: [],
     exercises: [],
     wordList: [],
   });
+  const [pendingData, setPendingData] = useState<LoadedData | null>(null);
+  const checkedOnMountRef = useRef(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
 
   useEffect(() => {
+    let cancelled = false;
+
     async function loadData() {
       try {
-        const result = await loadAllData();
+        const result = await loadAllData(activeDeckIds);
+        if (cancelled) return;
+        // The stored selection named decks dropped from the manifest
+        if (!isSameSelection(result.activeDeckIds, activeDeckIds)) {
+          saveDeckSelection(result.activeDeckIds);
+          setActiveDeckIdsState(result.activeDeckIds);
+        }
         setData(result);
+        setPendingData(null);
+        setError(null);
         setLoading(false);
       } catch (err) {
+        if (cancelled) return;
         setError(err instanceof Error ? err : new Error("Failed to load data"));
         setLoading(false);
       }
     }
 
     loadData();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activeDeckIds]);
+
+  // Look for rebuilt decks once the first decks are loaded (they may have
+  // come from the offline cache), and whenever the learner comes back to the
+  // tab or reconnects, so a long offline session picks up updates when it ends
+  useEffect(() => {
+    if (data.decks.length === 0) return;
+    let cancelled = false;
+
+    async function checkForUpdate() {
+      if (document.visibilityState !== "visible" || !navigator.onLine) return;
+      try {
+        const manifest = await loadDeckManifest();
+        if (cancelled || !hasDeckUpdate(data.decks, manifest.decks, activeDeckIds)) return;
+        const result = await loadAllData(activeDeckIds);
+        if (!cancelled) setPendingData(result);
+      } catch (err) {
+        // Keep studying the loaded decks; the next check tries again
+        console.error("Failed to check for deck updates:", err);
+      }
+    }
+
+    if (!checkedOnMountRef.current) {
+      checkedOnMountRef.current = true;
+      checkForUpdate();
+    }
+    window.addEventListener("online", checkForUpdate);
+    document.addEventListener("visibilitychange", checkForUpdate);
+
+    return () => {
+      cancelled = true;
+      window.removeEventListener("online", checkForUpdate);
+      document.removeEventListener("visibilitychange", checkForUpdate);
+    };
+  }, [data.decks, activeDeckIds]);
+
+  const applyDeckUpdate = useCallback(() => {
+    if (!pendingData) return;
+    if (!isSameSelection(pendingData.activeDeckIds, activeDeckIds)) {
+      saveDeckSelection(pendingData.activeDeckIds);
+      setActiveDeckIdsState(pendingData.activeDeckIds);
+    }
+    setData(pendingData);
+    setPendingData(null);
+  }, [pendingData, activeDeckIds]);
+
+  const setActiveDeckIds = useCallback((deckIds: string[]) => {
+    if (deckIds.length === 0) return;
+    saveDeckSelection(deckIds);
+    setLoading(true);
+    setActiveDeckIdsState(deckIds);
   }, []);
 
-  return { ...data, loading, error };
+  return {
+    decks: data.decks,
+    exercises: data.exercises,
+    wordList: data.wordList,
+    activeDeckIds,
+    setActiveDeckIds,
+    loading,
+    error,
+    deckUpdateAvailable: pendingData !== null,
+    applyDeckUpdate,
+  };
 }
@@ -56,7 +56,7 @@ export function usePinyinInput(
   const handleKeyDown = useCallback(
     (e: KeyboardEvent<HTMLInputElement>) => {
       const key = e.key;
-      if (/^[0-4]$/.test(key)) {
+      if (/^[0-5]$/.test(key)) {
         e.preventDefault();
         const input = e.currentTarget;
         const selectionStart = input.selectionStart ?? currentValue.length;
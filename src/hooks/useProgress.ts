@@ -1,20 +1,95 @@
-import { useState, useEffect, useCallback } from "react";
-import { loadProgress, saveProgress, clearProgress as clearProgressStorage } from "../lib/storage";
+import { useState, useEffect, useCallback, useRef } from "react";
+import {
+  loadProgress,
+  saveProgress,
+  clearProgress as clearProgressStorage,
+  loadSyncSettings,
+  saveSyncSettings,
+  clearSyncSettings,
+  type SyncSettings,
+} from "../lib/storage";
+import { generateSyncKey, pullAndSyncProgress, syncProgress } from "../lib/progress-sync";
+import { mergeProgress } from "../lib/progress-merge";
+import { SYNC_DEBOUNCE_MS } from "../lib/config";
 import type { StudentProgress } from "../lib/domain";
 
+export type SyncStatus = "disabled" | "idle" | "syncing" | "synced" | "error";
+
+export interface UseProgressSync {
+  status: SyncStatus;
+  syncKey: string | null;
+  error: string | null;
+  /** Link this browser to synced progress, with a new key or one from another device */
+  enableSync: (syncKey?: string) => void;
+  disableSync: () => void;
+}
+
 export interface UseProgressReturn {
   progress: StudentProgress;
   updateProgress: (update: Partial<StudentProgress> | ((prev: StudentProgress) => StudentProgress)) => void;
+  /** Reset local progress; also turns sync off so the reset is not merged away */
   clearProgress: () => void;
+  sync: UseProgressSync;
 }
 
 export function useProgress(): UseProgressReturn {
   const [progress, setProgress] = useState<StudentProgress>(() => loadProgress());
+  const [syncSettings, setSyncSettings] = useState<SyncSettings | null>(() => loadSyncSettings());
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>(() =>
+    loadSyncSettings() ? "idle" : "disabled"
+  );
+  const [syncError, setSyncError] = useState<string | null>(null);
+  // The progress object last reconciled with the server, to skip redundant pushes
+  const lastSyncedRef = useRef<StudentProgress | null>(null);
+  // Pull before the first push after loading or connecting
+  const needsPullRef = useRef(true);
+  // Bumped when the browser reconnects, to sync what was studied offline
+  const [reconnects, setReconnects] = useState(0);
+
+  useEffect(() => {
+    const handleOnline = () => setReconnects((count) => count + 1);
+    window.addEventListener("online", handleOnline);
+    return () => window.removeEventListener("online", handleOnline);
+  }, []);
 
   useEffect(() => {
     saveProgress(progress);
   }, [progress]);
 
+  useEffect(() => {
+    if (!syncSettings || progress === lastSyncedRef.current) return;
+    // Progress stays in localStorage until the browser is back online
+    if (!navigator.onLine) return;
+
+    const { syncKey, revision } = syncSettings;
+    const timer = setTimeout(async () => {
+      setSyncStatus("syncing");
+      try {
+        const result = needsPullRef.current
+          ? await pullAndSyncProgress(syncKey, progress)
+          : await syncProgress(syncKey, revision, progress);
+        needsPullRef.current = false;
+        lastSyncedRef.current = result.progress;
+
+        const nextSettings = { syncKey, revision: result.revision };
+        saveSyncSettings(nextSettings);
+        setSyncSettings(nextSettings);
+        // Keep anything studied while the request was in flight
+        setProgress((prev) =>
+          prev === progress ? result.progress : mergeProgress(prev, result.progress)
+        );
+        setSyncError(null);
+        setSyncStatus("synced");
+      } catch (error) {
+        console.error("Failed to sync progress:", error);
+        setSyncError(error instanceof Error ? error.message : "Progress sync failed.");
+        setSyncStatus("error");
+      }
+    }, SYNC_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [progress, syncSettings, reconnects]);
+
   const updateProgress = useCallback((
     update: Partial<StudentProgress> | ((prev: StudentProgress) => StudentProgress)
   ) => {
@@ -27,7 +102,41 @@ export function useProgress(): UseProgressReturn {
   const clearProgress = useCallback(() => {
     clearProgressStorage();
     setProgress(loadProgress());
+    // Pushing the empty progress would be merged with the other devices' and
+    // undo the reset, so this browser stops syncing instead
+    clearSyncSettings();
+    setSyncSettings(null);
+    setSyncError(null);
+    setSyncStatus("disabled");
+  }, []);
+
+  const enableSync = useCallback((syncKey?: string) => {
+    const settings = { syncKey: syncKey?.trim() || generateSyncKey(), revision: 0 };
+    needsPullRef.current = true;
+    lastSyncedRef.current = null;
+    saveSyncSettings(settings);
+    setSyncSettings(settings);
+    setSyncError(null);
+    setSyncStatus("idle");
+  }, []);
+
+  const disableSync = useCallback(() => {
+    clearSyncSettings();
+    setSyncSettings(null);
+    setSyncError(null);
+    setSyncStatus("disabled");
   }, []);
 
-  return { progress, updateProgress, clearProgress };
+  return {
+    progress,
+    updateProgress,
+    clearProgress,
+    sync: {
+      status: syncStatus,
+      syncKey: syncSettings?.syncKey ?? null,
+      error: syncError,
+      enableSync,
+      disableSync,
+    },
+  };
 }
@@ -0,0 +1,42 @@
+import { useEffect, useState } from "react";
+import { loadStrokeData } from "../lib/data-loader";
+import type { StrokeData } from "../lib/strokes";
+
+export interface UseStrokeDataReturn {
+  strokes: StrokeData | null;
+  error: Error | null;
+}
+
+/**
+ * Stroke data for the writing exercise, loaded the first time it is enabled
+ */
+export function useStrokeData(enabled: boolean): UseStrokeDataReturn {
+  const [state, setState] = useState<UseStrokeDataReturn>({ strokes: null, error: null });
+  const isLoaded = state.strokes !== null || state.error !== null;
+
+  useEffect(() => {
+    if (!enabled || isLoaded) return;
+    let cancelled = false;
+
+    async function loadData() {
+      try {
+        const strokes = await loadStrokeData();
+        if (!cancelled) setState({ strokes, error: null });
+      } catch (err) {
+        if (cancelled) return;
+        setState({
+          strokes: null,
+          error: err instanceof Error ? err : new Error("Failed to load stroke data"),
+        });
+      }
+    }
+
+    loadData();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, isLoaded]);
+
+  return state;
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import {
+  getCharacterProgress,
+  getHanCharacters,
+  getKnownCharacters,
+  getUnfamiliarCharacters,
+} from "./characters";
+import type { WordProgress } from "./domain";
+
+const NOW = Date.UTC(2026, 1, 11);
+
+function word(name: string, lastReviewed: number, nextReview: number): WordProgress {
+  return {
+    word: name,
+    lastReviewed,
+    nextReview,
+    intervalSeconds: (nextReview - lastReviewed) / 1000,
+    consecutiveSuccesses: 1,
+  };
+}
+
+const WORDS = {
+  学生: word("学生", NOW - 2000, NOW + 8000),
+  学校: word("学校", NOW - 1000, NOW),
+  你们: word("你们", NOW - 3000, NOW + 1000),
+};
+
+describe("getHanCharacters", () => {
+  it("returns distinct Han characters, skipping punctuation and latin text", () => {
+    expect(getHanCharacters("谢谢！OK，谢了")).toEqual(["谢", "了"]);
+  });
+});
+
+describe("getCharacterProgress", () => {
+  it("combines the progress of every word containing the character", () => {
+    const characters = getCharacterProgress(WORDS, NOW);
+
+    expect(characters["学"]).toEqual({
+      character: "学",
+      words: ["学生", "学校"],
+      knownWords: 1,
+      lastReviewed: NOW - 1000,
+      intervalSeconds: 10,
+    });
+    expect(characters["校"].knownWords).toBe(0);
+    expect(Object.keys(characters).sort()).toEqual(["们", "你", "学", "校", "生"].sort());
+  });
+});
+
+describe("getUnfamiliarCharacters", () => {
+  it("leaves out characters known through other words", () => {
+    const known = getKnownCharacters(WORDS, NOW);
+
+    expect([...known].sort()).toEqual(["们", "你", "学", "生"].sort());
+    expect(getUnfamiliarCharacters("学校", known)).toEqual(["校"]);
+    expect(getUnfamiliarCharacters("图书馆", known)).toEqual(["图", "书", "馆"]);
+  });
+});
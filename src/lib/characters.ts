@@ -0,0 +1,77 @@
+import type { WordProgress } from "./domain";
+
+/**
+ * Character layer derived from word progress. Words are tracked by their full
+ * segment text, so 学 in 学生 is separate from 学 in 学校; this spreads what
+ * the learner knows about each word onto its Han characters.
+ */
+
+export interface CharacterProgress {
+  character: string;
+  /** Studied words containing the character, in the order first reviewed */
+  words: string[];
+  /** How many of those words are not currently due */
+  knownWords: number;
+  /** Most recent review of any of its words */
+  lastReviewed: number;
+  /** Longest current interval among its words */
+  intervalSeconds: number;
+}
+
+const HAN_CHARACTER = /\p{Script=Han}/gu;
+
+/**
+ * Distinct Han characters of a text in order of appearance
+ */
+export function getHanCharacters(text: string): string[] {
+  return [...new Set(text.match(HAN_CHARACTER) ?? [])];
+}
+
+/**
+ * Progress of every character in the studied words, keyed by character
+ */
+export function getCharacterProgress(
+  words: Record<string, WordProgress>,
+  now: number
+): Record<string, CharacterProgress> {
+  const characters: Record<string, CharacterProgress> = {};
+  const studied = Object.values(words).sort((a, b) => a.lastReviewed - b.lastReviewed);
+
+  for (const wordProgress of studied) {
+    const isKnown = wordProgress.nextReview > now;
+    for (const character of getHanCharacters(wordProgress.word)) {
+      const existing = characters[character];
+      characters[character] = {
+        character,
+        words: [...(existing?.words ?? []), wordProgress.word],
+        knownWords: (existing?.knownWords ?? 0) + (isKnown ? 1 : 0),
+        lastReviewed: Math.max(existing?.lastReviewed ?? 0, wordProgress.lastReviewed),
+        intervalSeconds: Math.max(existing?.intervalSeconds ?? 0, wordProgress.intervalSeconds),
+      };
+    }
+  }
+
+  return characters;
+}
+
+/**
+ * Characters the learner currently knows through at least one word
+ */
+export function getKnownCharacters(
+  words: Record<string, WordProgress>,
+  now: number
+): Set<string> {
+  const known = new Set<string>();
+  for (const wordProgress of Object.values(words)) {
+    if (wordProgress.nextReview <= now) continue;
+    for (const character of getHanCharacters(wordProgress.word)) known.add(character);
+  }
+  return known;
+}
+
+/**
+ * Characters of a word the learner doesn't know yet from other words
+ */
+export function getUnfamiliarCharacters(word: string, knownCharacters: Set<string>): string[] {
+  return getHanCharacters(word).filter((character) => !knownCharacters.has(character));
+}
@@ -0,0 +1,78 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { decode } from "cbor-x";
+import { decompress } from "fzstd";
+import { describe, expect, it } from "vitest";
+import { getScriptForms, getTraditionalWords, toTraditional } from "./chinese-script";
+import type { Exercise } from "./domain";
+
+const EXERCISES: Exercise[] = [
+  {
+    id: "a",
+    english: "Have you eaten bread?",
+    segments: [
+      { chinese: "你", pinyin: "nǐ" },
+      { chinese: "吃", pinyin: "chī" },
+      { chinese: "面包", pinyin: "miànbāo", traditional: "麵包" },
+      { chinese: "了", pinyin: "le" },
+      { chinese: "吗", pinyin: "ma", traditional: "嗎" },
+      { chinese: "？", pinyin: "" },
+    ],
+  },
+  {
+    id: "b",
+    english: "See you tomorrow.",
+    segments: [
+      { chinese: "明天", pinyin: "míngtiān" },
+      { chinese: "见", pinyin: "jiàn", traditional: "見" },
+      { chinese: "面", pinyin: "miàn" },
+    ],
+  },
+];
+
+describe("getTraditionalWords", () => {
+  it("maps the segments that differ to their traditional form", () => {
+    expect(getTraditionalWords(EXERCISES)).toEqual(
+      new Map([
+        ["面包", "麵包"],
+        ["吗", "嗎"],
+        ["见", "見"],
+      ])
+    );
+  });
+});
+
+describe("toTraditional", () => {
+  it("converts longest deck words first and keeps the rest", () => {
+    const words = getTraditionalWords(EXERCISES);
+
+    expect(toTraditional("你吃面包了吗？", words)).toBe("你吃麵包了嗎？");
+    expect(toTraditional("明天见面", words)).toBe("明天見面");
+  });
+});
+
+describe("getScriptForms", () => {
+  it("picks the forms for the chosen script", () => {
+    expect(getScriptForms("面包", "麵包", "simplified")).toEqual(["面包"]);
+    expect(getScriptForms("面包", "麵包", "traditional")).toEqual(["麵包"]);
+    expect(getScriptForms("面包", "麵包", "both")).toEqual(["面包", "麵包"]);
+    expect(getScriptForms("你", undefined, "traditional")).toEqual(["你"]);
+    expect(getScriptForms("你", undefined, "both")).toEqual(["你"]);
+  });
+});
+
+describe("HSK 1 traditional forms", () => {
+  it("are stored by the data script with the same length as the simplified text", () => {
+    const compressed = readFileSync(join(process.cwd(), "public/HSK-1.cbor.zstd"));
+    const exercises = decode(decompress(new Uint8Array(compressed))) as Exercise[];
+    const segments = exercises.flatMap((exercise) => exercise.segments);
+    const converted = segments.filter((segment) => segment.traditional);
+
+    expect(converted.length).toBeGreaterThan(0);
+    for (const segment of converted) {
+      expect(segment.traditional).not.toBe(segment.chinese);
+      expect([...segment.traditional!].length).toBe([...segment.chinese].length);
+    }
+    expect(segments.find((segment) => segment.chinese === "学生")?.traditional).toBe("學生");
+  });
+});
@@ -0,0 +1,66 @@
+import type { ChineseScript, Exercise } from "./domain";
+
+/**
+ * Simplified and traditional display. Progress, history and word lists stay
+ * keyed by the simplified text; the traditional forms the data script stores
+ * on each segment are only looked up when rendering.
+ */
+
+export const CHINESE_SCRIPTS: ChineseScript[] = ["simplified", "traditional", "both"];
+
+export const DEFAULT_CHINESE_SCRIPT: ChineseScript = "simplified";
+
+/**
+ * Traditional form of every deck segment that differs from its simplified
+ * text, keyed by the simplified text
+ */
+export function getTraditionalWords(exercises: Exercise[]): Map<string, string> {
+  const words = new Map<string, string>();
+  for (const exercise of exercises) {
+    for (const segment of exercise.segments) {
+      if (segment.traditional && !words.has(segment.chinese)) {
+        words.set(segment.chinese, segment.traditional);
+      }
+    }
+  }
+  return words;
+}
+
+/**
+ * Convert simplified text such as a history sentence using the deck's words,
+ * longest match first, keeping characters no word covers
+ */
+export function toTraditional(text: string, words: Map<string, string>): string {
+  let longest = 0;
+  for (const word of words.keys()) longest = Math.max(longest, word.length);
+
+  let result = "";
+  let i = 0;
+  while (i < text.length) {
+    let length = Math.min(longest, text.length - i);
+    while (length > 0 && !words.has(text.slice(i, i + length))) length--;
+
+    if (length === 0) {
+      result += text[i++];
+    } else {
+      result += words.get(text.slice(i, i + length));
+      i += length;
+    }
+  }
+  return result;
+}
+
+/**
+ * The forms to show for a text in the chosen script: one form, or the
+ * simplified followed by the traditional when showing both and they differ
+ */
+export function getScriptForms(
+  simplified: string,
+  traditional: string | undefined,
+  script: ChineseScript
+): string[] {
+  const converted = traditional ?? simplified;
+  if (script === "traditional") return [converted];
+  if (script === "both" && converted !== simplified) return [simplified, converted];
+  return [simplified];
+}
@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildComprehensionPuzzle,
+  buildMissingSegmentPuzzle,
+  buildReorderPuzzle,
+  buildTranslationPuzzle,
+  buildWritingPuzzle,
+  CHOICE_COUNT,
+  checkReorder,
+  gradeComprehension,
+} from "./comprehension";
+import { getExerciseId } from "./exercise-id";
+import { createRandom } from "./random";
+import type { StrokeData } from "./strokes";
+import type { Exercise } from "./domain";
+
+function makeExercise(words: string[], english = words.join(" ")): Exercise {
+  return {
+    id: getExerciseId(words.join(""), english),
+    segments: [
+      ...words.map((word) => ({ chinese: word, pinyin: "x" })),
+      { chinese: "。", pinyin: "" },
+    ],
+    english,
+  };
+}
+
+const SENTENCE = makeExercise(["我", "是", "学生"], "I am a student.");
+const EXERCISES = [
+  SENTENCE,
+  makeExercise(["你", "好"], "Hello."),
+  makeExercise(["他", "是", "老师"], "He is a teacher."),
+  makeExercise(["我们", "喝", "茶"], "We drink tea."),
+  makeExercise(["谢谢"], "Thanks."),
+];
+
+describe("buildTranslationPuzzle", () => {
+  it("offers the translation among other sentences' translations", () => {
+    const puzzle = buildTranslationPuzzle(SENTENCE, EXERCISES, createRandom(1))!;
+
+    expect(puzzle.choices).toHaveLength(CHOICE_COUNT);
+    expect(new Set(puzzle.choices).size).toBe(CHOICE_COUNT);
+    expect(puzzle.choices[puzzle.answerIndex]).toBe("I am a student.");
+  });
+
+  it("needs another translation to choose from", () => {
+    expect(buildTranslationPuzzle(SENTENCE, [SENTENCE], createRandom(1))).toBeNull();
+  });
+});
+
+describe("buildReorderPuzzle", () => {
+  it("shuffles the words out of order, leaving out punctuation", () => {
+    for (let seed = 1; seed <= 20; seed++) {
+      const { tiles } = buildReorderPuzzle(SENTENCE, createRandom(seed))!;
+
+      expect([...tiles].sort()).toEqual([0, 1, 2]);
+      expect(checkReorder(SENTENCE, tiles).every(Boolean)).toBe(false);
+    }
+  });
+
+  it("has nothing to reorder in a single word or repeated words", () => {
+    expect(buildReorderPuzzle(makeExercise(["谢谢"]), createRandom(1))).toBeNull();
+    expect(buildReorderPuzzle(makeExercise(["谢", "谢"]), createRandom(1))).toBeNull();
+  });
+});
+
+describe("checkReorder", () => {
+  it("marks each position and treats identical words as interchangeable", () => {
+    expect(checkReorder(SENTENCE, [1, 0, 2])).toEqual([false, false, true]);
+
+    const repeated = makeExercise(["谢", "谢", "你"]);
+    expect(checkReorder(repeated, [1, 0, 2])).toEqual([true, true, true]);
+  });
+});
+
+describe("buildMissingSegmentPuzzle", () => {
+  it("blanks the target word and prefers distractors of the same length", () => {
+    const puzzle = buildMissingSegmentPuzzle(SENTENCE, EXERCISES, createRandom(1), "学生")!;
+
+    expect(puzzle.segmentIndex).toBe(2);
+    expect(puzzle.choices[puzzle.answerIndex]).toBe("学生");
+    expect(puzzle.choices).toHaveLength(CHOICE_COUNT);
+    // 老师, 我们 and 谢谢 are the only other two-character words
+    expect([...puzzle.choices].sort()).toEqual(["学生", "我们", "老师", "谢谢"].sort());
+  });
+});
+
+describe("buildWritingPuzzle", () => {
+  const stroke: StrokeData[string] = [
+    [
+      [0, 0],
+      [1, 1],
+    ],
+  ];
+  const strokes: StrokeData = { 我: stroke, 学: stroke, 生: stroke };
+
+  it("writes the target word, or else a word with stroke data", () => {
+    expect(buildWritingPuzzle(SENTENCE, strokes, createRandom(1), "学生")).toEqual({
+      segmentIndex: 2,
+    });
+
+    expect(buildWritingPuzzle(SENTENCE, { 我: stroke }, createRandom(1), "学生")).toEqual({
+      segmentIndex: 0,
+    });
+    expect(buildWritingPuzzle(SENTENCE, {}, createRandom(1))).toBeNull();
+  });
+
+  it("is only built once stroke data has loaded", () => {
+    expect(buildComprehensionPuzzle(SENTENCE, EXERCISES, ["writing"], 1)).toBeNull();
+    expect(
+      buildComprehensionPuzzle(SENTENCE, EXERCISES, ["writing"], 1, "学生", strokes)?.mode
+    ).toBe("writing");
+  });
+});
+
+describe("buildComprehensionPuzzle", () => {
+  it("only picks enabled modes and falls back to pinyin typing", () => {
+    for (let seed = 1; seed <= 10; seed++) {
+      expect(buildComprehensionPuzzle(SENTENCE, EXERCISES, ["reorder"], seed)?.mode).toBe("reorder");
+      expect(buildComprehensionPuzzle(SENTENCE, EXERCISES, ["pinyin"], seed)).toBeNull();
+    }
+    expect(buildComprehensionPuzzle(SENTENCE, [SENTENCE], ["translation"], 1)).toBeNull();
+  });
+});
+
+describe("gradeComprehension", () => {
+  it("grades by the mistakes made on the word", () => {
+    expect([0, 1, 2, 3].map(gradeComprehension)).toEqual(["good", "hard", "again", "again"]);
+  });
+});
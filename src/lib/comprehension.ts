@@ -0,0 +1,227 @@
+import type { Exercise, ExerciseMode, RecallGrade } from "./domain";
+import { getExerciseWords } from "./exercises";
+import { createRandom } from "./random";
+import { canWriteWord, type StrokeData } from "./strokes";
+
+/**
+ * Comprehension and writing exercises built from the same `Exercise` data as
+ * pinyin typing. Each mode grades every word of the exercise into the same
+ * word reviews, so scheduling stays the same whatever the mode.
+ */
+
+export const EXERCISE_MODES: ExerciseMode[] = [
+  "pinyin",
+  "translation",
+  "reorder",
+  "missing-segment",
+  "writing",
+];
+
+export const DEFAULT_EXERCISE_MODES: ExerciseMode[] = ["pinyin"];
+
+/** Options offered in the multiple-choice modes, the answer included */
+export const CHOICE_COUNT = 4;
+
+/** Pick one answer from several options */
+export interface ChoicePuzzle {
+  choices: string[];
+  answerIndex: number;
+}
+
+export interface MissingSegmentPuzzle extends ChoicePuzzle {
+  /** Index into `exercise.segments` of the blanked-out word */
+  segmentIndex: number;
+}
+
+export interface ReorderPuzzle {
+  /** Indices into `exercise.segments` of the words, shuffled */
+  tiles: number[];
+}
+
+export interface WritingPuzzle {
+  /** Index into `exercise.segments` of the word to write */
+  segmentIndex: number;
+}
+
+export type ComprehensionPuzzle =
+  | { mode: "translation"; puzzle: ChoicePuzzle }
+  | { mode: "reorder"; puzzle: ReorderPuzzle }
+  | { mode: "missing-segment"; puzzle: MissingSegmentPuzzle }
+  | { mode: "writing"; puzzle: WritingPuzzle };
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/** Up to `count` distinct items, picked at random */
+function sample<T>(items: T[], count: number, random: () => number): T[] {
+  return shuffle([...new Set(items)], random).slice(0, count);
+}
+
+function toChoicePuzzle(answer: string, distractors: string[], random: () => number): ChoicePuzzle {
+  const choices = shuffle([answer, ...distractors], random);
+  return { choices, answerIndex: choices.indexOf(answer) };
+}
+
+/**
+ * Pick the English translation of the sentence among translations of other
+ * sentences. Null when the deck has no other translation to offer.
+ */
+export function buildTranslationPuzzle(
+  exercise: Exercise,
+  exercises: Exercise[],
+  random: () => number
+): ChoicePuzzle | null {
+  const others = exercises.map((e) => e.english).filter((english) => english !== exercise.english);
+  const distractors = sample(others, CHOICE_COUNT - 1, random);
+  if (distractors.length === 0) return null;
+  return toChoicePuzzle(exercise.english, distractors, random);
+}
+
+/**
+ * Put the words of the sentence back in order; punctuation is left out. Null
+ * when there is nothing to reorder.
+ */
+export function buildReorderPuzzle(exercise: Exercise, random: () => number): ReorderPuzzle | null {
+  const wordIndices = exercise.segments.flatMap((segment, i) => (segment.pinyin !== "" ? [i] : []));
+  const answer = wordIndices.map((i) => exercise.segments[i].chinese).join("");
+  const isSolved = (tiles: number[]) =>
+    tiles.map((i) => exercise.segments[i].chinese).join("") === answer;
+
+  const tiles = shuffle(wordIndices, random);
+  if (!isSolved(tiles)) return { tiles };
+
+  // Rotating changes the order unless every word is the same
+  const rotated = [...tiles.slice(1), tiles[0]];
+  return isSolved(rotated) ? null : { tiles: rotated };
+}
+
+/**
+ * Choose the word blanked out of the sentence among other words from the
+ * deck, preferring words of the same length. Blanks the target word when it
+ * is in the sentence, otherwise a random one.
+ */
+export function buildMissingSegmentPuzzle(
+  exercise: Exercise,
+  exercises: Exercise[],
+  random: () => number,
+  targetWord?: string
+): MissingSegmentPuzzle | null {
+  const words = getExerciseWords(exercise);
+  if (words.length === 0) return null;
+
+  const answer =
+    targetWord && words.includes(targetWord)
+      ? targetWord
+      : words[Math.floor(random() * words.length)];
+  const segmentIndex = exercise.segments.findIndex(
+    (segment) => segment.pinyin !== "" && segment.chinese === answer
+  );
+
+  const otherWords = [...new Set(exercises.flatMap(getExerciseWords))].filter(
+    (word) => !words.includes(word)
+  );
+  const sameLength = sample(
+    otherWords.filter((word) => word.length === answer.length),
+    CHOICE_COUNT - 1,
+    random
+  );
+  const distractors = [
+    ...sameLength,
+    ...sample(
+      otherWords.filter((word) => word.length !== answer.length),
+      CHOICE_COUNT - 1 - sameLength.length,
+      random
+    ),
+  ];
+  if (distractors.length === 0) return null;
+
+  return { ...toChoicePuzzle(answer, distractors, random), segmentIndex };
+}
+
+/**
+ * Write the characters of a word from the sentence: the target word when it
+ * has stroke data, otherwise a random word that has. Null when no word can be
+ * written.
+ */
+export function buildWritingPuzzle(
+  exercise: Exercise,
+  strokes: StrokeData,
+  random: () => number,
+  targetWord?: string
+): WritingPuzzle | null {
+  const writable = exercise.segments.flatMap((segment, i) =>
+    segment.pinyin !== "" && canWriteWord(segment.chinese, strokes) ? [i] : []
+  );
+  if (writable.length === 0) return null;
+
+  const target = writable.find((i) => exercise.segments[i].chinese === targetWord);
+  return { segmentIndex: target ?? writable[Math.floor(random() * writable.length)] };
+}
+
+/**
+ * Which placed words are in the right position. Identical words are
+ * interchangeable.
+ */
+export function checkReorder(exercise: Exercise, order: number[]): boolean[] {
+  const words = getExerciseWords(exercise);
+  return order.map((segmentIndex, position) => exercise.segments[segmentIndex].chinese === words[position]);
+}
+
+/**
+ * Seed for the puzzle of an exercise; changes each time the exercise is
+ * completed, so the mode and shuffles vary between showings.
+ */
+export function getPuzzleSeed(exercise: Exercise, lastSeen: number): number {
+  return (parseInt(exercise.id.slice(-8), 16) ^ lastSeen) >>> 0;
+}
+
+/**
+ * Pick one of the enabled modes and build its puzzle. Null means typing the
+ * pinyin, either because it was picked or because the deck (or the stroke
+ * data, while it loads) can't supply the chosen puzzle for this exercise.
+ */
+export function buildComprehensionPuzzle(
+  exercise: Exercise,
+  exercises: Exercise[],
+  modes: ExerciseMode[],
+  seed: number,
+  targetWord?: string,
+  strokes: StrokeData | null = null
+): ComprehensionPuzzle | null {
+  const random = createRandom(seed);
+  const mode = modes.length > 0 ? modes[Math.floor(random() * modes.length)] : "pinyin";
+
+  if (mode === "translation") {
+    const puzzle = buildTranslationPuzzle(exercise, exercises, random);
+    return puzzle && { mode, puzzle };
+  }
+  if (mode === "reorder") {
+    const puzzle = buildReorderPuzzle(exercise, random);
+    return puzzle && { mode, puzzle };
+  }
+  if (mode === "missing-segment") {
+    const puzzle = buildMissingSegmentPuzzle(exercise, exercises, random, targetWord);
+    return puzzle && { mode, puzzle };
+  }
+  if (mode === "writing" && strokes) {
+    const puzzle = buildWritingPuzzle(exercise, strokes, random, targetWord);
+    return puzzle && { mode, puzzle };
+  }
+  return null;
+}
+
+/**
+ * Grade a word from the mistakes made on it. Recognising an answer is easier
+ * than recalling it, so a comprehension exercise is never graded "easy".
+ */
+export function gradeComprehension(mistakes: number): RecallGrade {
+  if (mistakes >= 2) return "again";
+  if (mistakes === 1) return "hard";
+  return "good";
+}
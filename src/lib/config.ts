@@ -1,5 +1,19 @@
 export const STORAGE_KEY = "erudify-progress";
-export const EXERCISE_FILE = "/HSK-1.cbor.zstd";
-export const WORD_LIST_FILE = "/HSK 1.txt";
+export const QUARANTINE_KEY_PREFIX = "erudify-progress-quarantine-";
+export const DECK_SELECTION_KEY = "erudify-decks";
+export const SYNC_SETTINGS_KEY = "erudify-sync";
+export const STUDY_LIMITS_KEY = "erudify-study-limits";
+export const EXERCISE_MODES_KEY = "erudify-exercise-modes";
+export const PINYIN_ANSWER_SETTINGS_KEY = "erudify-pinyin-answers";
+export const CHINESE_SCRIPT_KEY = "erudify-chinese-script";
+export const SYNC_API_PATH = "/api/progress";
+export const SYNC_DEBOUNCE_MS = 2000;
+export const MAX_SYNCED_PROGRESS_BYTES = 2_000_000;
+export const DECK_MANIFEST_FILE = "/decks.json";
+/** Built by scripts/build-hsk-cbor-zstd.mjs from data/makemeahanzi */
+export const STROKE_DATA_FILE = "/strokes.cbor.zstd";
+/** Caches the app and decks for offline study; not registered in development */
+export const SERVICE_WORKER_FILE = "/sw.js";
+export const DEFAULT_DECK_IDS = ["hsk-1"];
 export const MAX_HISTORY_ITEMS = 3;
 export const DEBUG_MODE = process.env.NODE_ENV === "development";
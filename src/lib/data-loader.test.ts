@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { getDeckAssetUrl, hasDeckUpdate, resolveDeckSelection, toDeckManifest } from "./data-loader";
+import type { DeckInfo } from "./domain";
+
+function deck(id: string, version?: string): DeckInfo {
+  return {
+    id,
+    name: id,
+    source: `public/${id}.yml`,
+    exercises: `/${id}.cbor.zstd`,
+    wordList: `/${id}.txt`,
+    version,
+  };
+}
+
+describe("toDeckManifest", () => {
+  it("keeps the version written by the data script", () => {
+    const manifest = toDeckManifest({
+      decks: [
+        { ...deck("hsk-1"), version: "655bad680321" },
+        { ...deck("hsk-2"), version: 2 },
+      ],
+    });
+
+    expect(manifest.decks.map((d) => d.version)).toEqual(["655bad680321", undefined]);
+  });
+});
+
+describe("getDeckAssetUrl", () => {
+  it("adds the deck version to file URLs", () => {
+    expect(getDeckAssetUrl(deck("hsk-1", "abc"), "/HSK 1.txt")).toBe("/HSK 1.txt?v=abc");
+    expect(getDeckAssetUrl(deck("hsk-1"), "/HSK 1.txt")).toBe("/HSK 1.txt");
+  });
+});
+
+describe("hasDeckUpdate", () => {
+  it("only reports version changes of active decks", () => {
+    const loaded = [deck("hsk-1", "a"), deck("hsk-2", "b")];
+
+    expect(hasDeckUpdate(loaded, [deck("hsk-1", "a"), deck("hsk-2", "c")], ["hsk-1"])).toBe(false);
+    expect(hasDeckUpdate(loaded, [deck("hsk-1", "a"), deck("hsk-2", "c")], ["hsk-1", "hsk-2"])).toBe(
+      true
+    );
+    expect(hasDeckUpdate(loaded, [deck("hsk-2", "b")], ["hsk-1"])).toBe(true);
+  });
+});
+
+describe("resolveDeckSelection", () => {
+  it("drops decks missing from the manifest and falls back to the defaults", () => {
+    const manifest = { decks: [deck("hsk-1"), deck("hsk-2")] };
+
+    expect(resolveDeckSelection(["hsk-2", "hsk-9"], manifest)).toEqual(["hsk-2"]);
+    expect(resolveDeckSelection(["hsk-9"], manifest)).toEqual(["hsk-1"]);
+    expect(resolveDeckSelection([], manifest)).toEqual(["hsk-1"]);
+  });
+});
@@ -1,7 +1,88 @@
 import { decode } from "cbor-x";
 import { decompress } from "fzstd";
-import { EXERCISE_FILE, WORD_LIST_FILE } from "./config";
+import { DECK_MANIFEST_FILE, DEFAULT_DECK_IDS, STROKE_DATA_FILE } from "./config";
+import type { DeckInfo, DeckManifest, HskLevel } from "./domain/deck";
 import type { Exercise } from "./domain/exercise";
+import { getExerciseId } from "./exercise-id";
+import type { StrokeData, StrokePoint } from "./strokes";
+
+/**
+ * Validate a parsed deck manifest, dropping malformed entries
+ */
+export function toDeckManifest(data: unknown): DeckManifest {
+  if (!data || typeof data !== "object" || !Array.isArray((data as { decks?: unknown }).decks)) {
+    throw new Error("Deck manifest has no decks array.");
+  }
+
+  const decks: DeckInfo[] = [];
+
+  for (const item of (data as { decks: unknown[] }).decks) {
+    if (!item || typeof item !== "object") {
+      continue;
+    }
+
+    const record = item as {
+      id?: unknown;
+      name?: unknown;
+      level?: unknown;
+      source?: unknown;
+      exercises?: unknown;
+      wordList?: unknown;
+      version?: unknown;
+    };
+
+    if (
+      typeof record.id !== "string" ||
+      typeof record.name !== "string" ||
+      typeof record.source !== "string" ||
+      typeof record.exercises !== "string" ||
+      typeof record.wordList !== "string"
+    ) {
+      continue;
+    }
+
+    const level =
+      typeof record.level === "number" && [1, 2, 3, 4, 5, 6].includes(record.level)
+        ? (record.level as HskLevel)
+        : undefined;
+
+    decks.push({
+      id: record.id,
+      name: record.name,
+      level,
+      source: record.source,
+      exercises: record.exercises,
+      wordList: record.wordList,
+      version: typeof record.version === "string" ? record.version : undefined,
+    });
+  }
+
+  return { decks };
+}
+
+/**
+ * URL of a deck file for its version, so a cached copy is only reused until
+ * the deck is rebuilt
+ */
+export function getDeckAssetUrl(deck: DeckInfo, file: string): string {
+  return deck.version ? `${file}?v=${encodeURIComponent(deck.version)}` : file;
+}
+
+/**
+ * Whether the latest manifest has a different version of any active deck
+ * than the one loaded
+ */
+export function hasDeckUpdate(
+  loaded: DeckInfo[],
+  latest: DeckInfo[],
+  activeDeckIds: string[]
+): boolean {
+  return activeDeckIds.some((deckId) => {
+    const before = loaded.find((deck) => deck.id === deckId);
+    const after = latest.find((deck) => deck.id === deckId);
+    return before?.version !== after?.version;
+  });
+}
 
 function toExerciseArray(data: unknown): Exercise[] {
   if (!Array.isArray(data)) {
@@ -16,6 +97,7 @@ function toExerciseArray(data: unknown): Exercise[] {
     }
 
     const record = item as {
+      id?: unknown;
       english?: unknown;
       segments?: unknown;
     };
@@ -35,6 +117,7 @@ function toExerciseArray(data: unknown): Exercise[] {
         chinese?: unknown;
         pinyin?: unknown;
         transliteration?: unknown;
+        traditional?: unknown;
       };
 
       if (typeof chunk.chinese !== "string" || typeof chunk.pinyin !== "string") {
@@ -46,10 +129,18 @@ function toExerciseArray(data: unknown): Exercise[] {
         pinyin: chunk.pinyin,
         transliteration:
           typeof chunk.transliteration === "string" ? chunk.transliteration : undefined,
+        traditional: typeof chunk.traditional === "string" ? chunk.traditional : undefined,
       });
     }
 
+    // Decks built before IDs were assigned get the same content-derived ID here
+    const id =
+      typeof record.id === "string"
+        ? record.id
+        : getExerciseId(segments.map((s) => s.chinese).join(""), record.english);
+
     exercises.push({
+      id,
       english: record.english,
       segments,
     });
@@ -58,45 +149,145 @@ function toExerciseArray(data: unknown): Exercise[] {
   return exercises;
 }
 
+/**
+ * Decode a CBOR + ZSTD exercise file
+ */
+export function decodeExercises(compressed: Uint8Array): Exercise[] {
+  return toExerciseArray(decode(decompress(compressed)));
+}
+
+function isStrokePoint(value: unknown): value is StrokePoint {
+  return (
+    Array.isArray(value) &&
+    value.length === 2 &&
+    typeof value[0] === "number" &&
+    typeof value[1] === "number"
+  );
+}
+
+/**
+ * Decode a CBOR + ZSTD stroke data file, dropping malformed characters
+ */
+export function decodeStrokeData(compressed: Uint8Array): StrokeData {
+  const data: unknown = decode(decompress(compressed));
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    throw new Error("Stroke data payload is not an object.");
+  }
+
+  const strokes: StrokeData = {};
+  for (const [character, medians] of Object.entries(data)) {
+    if (
+      Array.isArray(medians) &&
+      medians.every((median) => Array.isArray(median) && median.length > 0 && median.every(isStrokePoint))
+    ) {
+      strokes[character] = medians;
+    }
+  }
+  return strokes;
+}
+
+/**
+ * Parse a word list file: one word per line, `#` starts a comment line
+ */
+export function parseWordList(text: string): string[] {
+  return text
+    .split("\n")
+    .map((w) => w.trim())
+    .filter((w) => w !== "" && !w.startsWith("#"));
+}
+
+/**
+ * Load the manifest describing every available deck
+ */
+export async function loadDeckManifest(): Promise<DeckManifest> {
+  // Always ask the server first; the service worker answers offline
+  const response = await fetch(DECK_MANIFEST_FILE, { cache: "no-cache" });
+  if (!response.ok) {
+    throw new Error(`Failed to load deck manifest: ${response.statusText}`);
+  }
+  return toDeckManifest(await response.json());
+}
+
 /**
  * Load exercises from CBOR + ZSTD file
  */
-export async function loadExercises(): Promise<Exercise[]> {
-  const response = await fetch(EXERCISE_FILE);
+export async function loadExercises(deck: DeckInfo): Promise<Exercise[]> {
+  const response = await fetch(getDeckAssetUrl(deck, deck.exercises));
   if (!response.ok) {
     throw new Error(`Failed to load exercises: ${response.statusText}`);
   }
-  const compressed = new Uint8Array(await response.arrayBuffer());
-  const decompressed = decompress(compressed);
-  const payload = decode(decompressed);
-  return toExerciseArray(payload);
+  return decodeExercises(new Uint8Array(await response.arrayBuffer()));
 }
 
 /**
  * Load word list from text file
  */
-export async function loadWordList(): Promise<string[]> {
-  const response = await fetch(WORD_LIST_FILE);
+export async function loadWordList(deck: DeckInfo): Promise<string[]> {
+  const response = await fetch(getDeckAssetUrl(deck, deck.wordList));
   if (!response.ok) {
     throw new Error(`Failed to load word list: ${response.statusText}`);
   }
-  const text = await response.text();
-  return text
-    .split("\n")
-    .map((w) => w.trim())
-    .filter((w) => w !== "" && !w.startsWith("#"));
+  return parseWordList(await response.text());
 }
 
 /**
- * Load all data (exercises and word list)
+ * Load the stroke data used by the writing exercise
  */
-export async function loadAllData(): Promise<{
+export async function loadStrokeData(): Promise<StrokeData> {
+  const response = await fetch(STROKE_DATA_FILE);
+  if (!response.ok) {
+    throw new Error(`Failed to load stroke data: ${response.statusText}`);
+  }
+  return decodeStrokeData(new Uint8Array(await response.arrayBuffer()));
+}
+
+/**
+ * The selected decks that are still in the manifest, or the default decks
+ * when none of them is
+ */
+export function resolveDeckSelection(deckIds: string[], manifest: DeckManifest): string[] {
+  const available = new Set(manifest.decks.map((deck) => deck.id));
+  const selected = deckIds.filter((id) => available.has(id));
+  return selected.length > 0 ? selected : [...DEFAULT_DECK_IDS];
+}
+
+/**
+ * Load all data (exercises and word list) for the active decks.
+ * Exercises are concatenated in manifest order and word lists are merged,
+ * keeping the first occurrence of words shared between decks. The returned
+ * `activeDeckIds` drop decks the manifest no longer lists.
+ */
+export async function loadAllData(requestedDeckIds: string[]): Promise<{
+  decks: DeckInfo[];
+  activeDeckIds: string[];
   exercises: Exercise[];
   wordList: string[];
 }> {
-  const [exercises, wordList] = await Promise.all([
-    loadExercises(),
-    loadWordList(),
-  ]);
-  return { exercises, wordList };
+  const manifest = await loadDeckManifest();
+  const activeDeckIds = resolveDeckSelection(requestedDeckIds, manifest);
+  const activeIds = new Set(activeDeckIds);
+  const activeDecks = manifest.decks.filter((deck) => activeIds.has(deck.id));
+
+  const loaded = await Promise.all(
+    activeDecks.map(async (deck) => {
+      const [exercises, wordList] = await Promise.all([
+        loadExercises(deck),
+        loadWordList(deck),
+      ]);
+      return { exercises, wordList };
+    })
+  );
+
+  // A sentence shared by several decks is only studied once
+  const exerciseIds = new Set<string>();
+  const exercises = loaded
+    .flatMap((deck) => deck.exercises)
+    .filter((exercise) => {
+      if (exerciseIds.has(exercise.id)) return false;
+      exerciseIds.add(exercise.id);
+      return true;
+    });
+  const wordList = [...new Set(loaded.flatMap((deck) => deck.wordList))];
+
+  return { decks: manifest.decks, activeDeckIds, exercises, wordList };
 }
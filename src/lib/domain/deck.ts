@@ -0,0 +1,20 @@
+export type HskLevel = 1 | 2 | 3 | 4 | 5 | 6;
+
+export interface DeckInfo {
+  id: string;
+  name: string;
+  /** HSK level for the official decks; omitted for custom decks */
+  level?: HskLevel;
+  /** YAML source the data script builds from (relative to the repo root) */
+  source: string;
+  /** Public path of the compressed CBOR exercise file */
+  exercises: string;
+  /** Public path of the ordered word list */
+  wordList: string;
+  /** Content hash of the built files, set by the data script */
+  version?: string;
+}
+
+export interface DeckManifest {
+  decks: DeckInfo[];
+}
@@ -5,6 +5,11 @@ import {
   updateInput,
   resetState,
   getSegmentDisplayState,
+  classifyPinyinMismatch,
+  describeMistake,
+  gradeSegment,
+  getAcceptedPinyin,
+  type SegmentEvidence,
 } from "./exercise-input";
 
 describe("exercise-input state machine", () => {
@@ -147,6 +152,66 @@ describe("exercise-input state machine", () => {
       expect(result.state.currentInputIndex).toBe(1);
       expect(result.segmentCompleted).toBe(0);
     });
+
+    it("accepts any of several forms of the pinyin", () => {
+      const state = createInitialState(2);
+      const accepted = ["nǐhǎo", "níhǎo"];
+
+      expect(updateInput(state, "ní hǎo", accepted).segmentCompleted).toBe(0);
+      expect(classifyPinyinMismatch("nìhǎo", accepted)).toBe("tone");
+    });
+  });
+
+  describe("answer formats", () => {
+    it("checks numbered pinyin, with or without the neutral tone number", () => {
+      const state = createInitialState(2);
+
+      expect(updateInput(state, "xue2sheng5", "xue2sheng5", 0, "numbered").segmentCompleted).toBe(0);
+      expect(updateInput(state, "xue2sheng", "xue2sheng5", 0, "numbered").segmentCompleted).toBe(0);
+      expect(classifyPinyinMismatch("xue3sheng", "xue2sheng5", "numbered")).toBe("tone");
+      expect(classifyPinyinMismatch("lv4", "lü4", "numbered")).toBeNull();
+    });
+
+    it("checks zhuyin", () => {
+      expect(classifyPinyinMismatch("ㄒㄩㄝˊ˙ㄕㄥ", "ㄒㄩㄝˊ˙ㄕㄥ", "zhuyin")).toBeNull();
+      expect(classifyPinyinMismatch("ㄒㄩㄝˇ˙ㄕㄥ", "ㄒㄩㄝˊ˙ㄕㄥ", "zhuyin")).toBe("tone");
+      expect(classifyPinyinMismatch("ㄒㄧㄝˊ˙ㄕㄥ", "ㄒㄩㄝˊ˙ㄕㄥ", "zhuyin")).toBe("syllable");
+    });
+
+    it("gives the accepted answers in the chosen format", () => {
+      const segments = [{ chinese: "你好", pinyin: "nǐhǎo", transliteration: "hello" }];
+
+      expect(getAcceptedPinyin(segments, { acceptSandhi: true, format: "numbered" })).toEqual([
+        ["ni3hao3", "ni2hao3"],
+      ]);
+      expect(getAcceptedPinyin(segments, { acceptSandhi: false, format: "zhuyin" })).toEqual([
+        ["ㄋㄧˇㄏㄠˇ"],
+      ]);
+    });
+  });
+
+  describe("getAcceptedPinyin", () => {
+    const segments = [
+      { chinese: "你好", pinyin: "nǐhǎo", transliteration: "hello" },
+      { chinese: "，", pinyin: ",", transliteration: "" },
+      { chinese: "不是", pinyin: "bùshì", transliteration: "isn't" },
+    ];
+
+    it("accepts dictionary and spoken tones when sandhi is accepted", () => {
+      expect(getAcceptedPinyin(segments, { acceptSandhi: true, format: "tone-marks" })).toEqual([
+        ["nǐhǎo", "níhǎo"],
+        [","],
+        ["bùshì", "búshì"],
+      ]);
+    });
+
+    it("accepts only the deck's pinyin otherwise", () => {
+      expect(getAcceptedPinyin(segments, { acceptSandhi: false, format: "tone-marks" })).toEqual([
+        ["nǐhǎo"],
+        [","],
+        ["bùshì"],
+      ]);
+    });
   });
 
   describe("resetState", () => {
@@ -268,4 +333,111 @@ describe("exercise-input state machine", () => {
       expect(getSegmentDisplayState(state, 3).showHint).toBe(true);
     });
   });
+  describe("recall evidence", () => {
+    it("records tone-only and syllable mistakes separately", () => {
+      let state = createInitialState(1, 0);
+      state = updateInput(state, "nǐ", "nì", 1000).state;
+      state = updateInput(state, "wǒ", "nì", 2000).state;
+      state = updateInput(state, "nì", "nì", 3000).state;
+
+      expect(state.evidence[0]).toMatchObject({
+        wrongAttempts: 2,
+        toneMistakes: 1,
+        syllableMistakes: 1,
+        hintUsed: false,
+        startedAt: 0,
+        completedAt: 3000,
+      });
+    });
+
+    it("does not count input that is still being typed", () => {
+      let state = createInitialState(1, 0);
+      for (const value of ["x", "xu", "xue", "xué", "xuésh", "xuéshe", "xuésheng"]) {
+        state = updateInput(state, value, "xuésheng", 1000).state;
+      }
+
+      expect(state.isComplete).toBe(true);
+      expect(state.evidence[0].wrongAttempts).toBe(0);
+    });
+
+    it("counts an unchanged wrong answer only once", () => {
+      let state = createInitialState(1, 0);
+      state = updateInput(state, "nǐ", "nì", 1000).state;
+      state = updateInput(state, "nǐ", "nì", 1100).state;
+
+      expect(state.evidence[0].toneMistakes).toBe(1);
+    });
+
+    it("does not count typing on past a wrong answer as more attempts", () => {
+      let state = createInitialState(1, 0);
+      for (const value of ["w", "wǒ", "wǒm", "wǒme", "wǒmen", "wǒmen", "wǒ", "w", ""]) {
+        state = updateInput(state, value, "nì", 1000).state;
+      }
+
+      expect(state.evidence[0]).toMatchObject({ wrongAttempts: 1, syllableMistakes: 1 });
+      state = updateInput(state, "nì", "nì", 2000).state;
+      expect(gradeSegment(state.evidence[0])).toBe("hard");
+    });
+
+    it("records hints and when each segment started", () => {
+      let state = createInitialState(2, 0);
+      state = updateInput(state, "wǒ", "wǒ", 1500).state;
+      state = requestHint(state);
+      state = updateInput(state, "shì", "shì", 9000).state;
+
+      expect(state.evidence[0]).toMatchObject({ hintUsed: false, startedAt: 0, completedAt: 1500 });
+      expect(state.evidence[1]).toMatchObject({ hintUsed: true, startedAt: 1500, completedAt: 9000 });
+    });
+
+    it("describes the last wrong answer until the segment is answered", () => {
+      let state = createInitialState(2, 0);
+      state = updateInput(state, "nǐgǎo", "nǐhǎo", 1000).state;
+      expect(state.lastMistake).toBe("initial");
+
+      state = updateInput(state, "nǐgǎ", "nǐhǎo", 1100).state;
+      expect(state.lastMistake).toBe("initial");
+
+      state = updateInput(state, "nǐhǎo", "nǐhǎo", 1200).state;
+      expect(state.lastMistake).toBeNull();
+    });
+
+    it("describes numbered answers like tone-marked ones", () => {
+      expect(describeMistake("xue3sheng", "xue2sheng5", "numbered")).toBe("tone");
+      expect(describeMistake("xie2sheng", "xue2sheng5", "numbered")).toBe("final");
+    });
+
+    it("classifies pinyin mismatches", () => {
+      expect(classifyPinyinMismatch("nǐ hǎo", "nǐhǎo")).toBeNull();
+      expect(classifyPinyinMismatch("nǐhào", "nǐhǎo")).toBe("tone");
+      expect(classifyPinyinMismatch("nǐhǒu", "nǐhǎo")).toBe("syllable");
+    });
+  });
+
+  describe("gradeSegment", () => {
+    const evidence = (overrides: Partial<SegmentEvidence>): SegmentEvidence => ({
+      wrongAttempts: 0,
+      toneMistakes: 0,
+      syllableMistakes: 0,
+      hintUsed: false,
+      startedAt: 0,
+      completedAt: 6000,
+      ...overrides,
+    });
+
+    it("grades hints and repeated syllable mistakes as again", () => {
+      expect(gradeSegment(evidence({ hintUsed: true }))).toBe("again");
+      expect(gradeSegment(evidence({ wrongAttempts: 2, syllableMistakes: 2 }))).toBe("again");
+    });
+
+    it("grades tone mistakes as hard rather than forgotten", () => {
+      expect(gradeSegment(evidence({ wrongAttempts: 3, toneMistakes: 3 }))).toBe("hard");
+      expect(gradeSegment(evidence({ wrongAttempts: 1, syllableMistakes: 1 }))).toBe("hard");
+    });
+
+    it("grades clean answers by how long they took", () => {
+      expect(gradeSegment(evidence({ completedAt: 2000 }))).toBe("easy");
+      expect(gradeSegment(evidence({}))).toBe("good");
+      expect(gradeSegment(evidence({ completedAt: 60000 }))).toBe("hard");
+    });
+  });
 });
@@ -1,4 +1,50 @@
-import { normalizePinyin } from "../pinyin";
+import {
+  comparePinyin,
+  countToneMarks,
+  formatPinyin,
+  getCitationPinyin,
+  getSpokenPinyin,
+  normalizePinyin,
+  parsePinyinAnswer,
+  removeTones,
+  type PinyinDifference,
+  type PinyinFormat,
+} from "../pinyin";
+import type { ExerciseSegment } from "./exercise";
+import type { RecallGrade } from "./progress";
+
+/** Answers at least this fast, without mistakes, are graded "easy" */
+export const EASY_ANSWER_MS = 4000;
+/** Answers slower than this are graded "hard" even without mistakes */
+export const SLOW_ANSWER_MS = 30000;
+
+/**
+ * What the learner did while answering one segment.
+ */
+export interface SegmentEvidence {
+  /** Wrong answers entered before the correct one */
+  wrongAttempts: number;
+  /** Wrong answers with the right syllables but wrong tones */
+  toneMistakes: number;
+  /** Wrong answers with the wrong syllables */
+  syllableMistakes: number;
+  hintUsed: boolean;
+  /** When the segment became the current one */
+  startedAt: number | null;
+  /** When the segment was answered correctly */
+  completedAt: number | null;
+}
+
+function createEvidence(startedAt: number | null): SegmentEvidence {
+  return {
+    wrongAttempts: 0,
+    toneMistakes: 0,
+    syllableMistakes: 0,
+    hintUsed: false,
+    startedAt,
+    completedAt: null,
+  };
+}
 
 /**
  * State for tracking exercise input progress.
@@ -17,12 +63,19 @@ export interface ExerciseInputState {
   totalInputs: number;
   /** Whether the exercise is complete */
   isComplete: boolean;
+  /** Evidence per input segment, used to grade recall */
+  evidence: SegmentEvidence[];
+  /** How the last wrong answer for the current segment differed */
+  lastMistake: PinyinDifference | null;
 }
 
 /**
  * Creates initial state for exercise input.
  */
-export function createInitialState(totalInputs: number): ExerciseInputState {
+export function createInitialState(
+  totalInputs: number,
+  now: number = Date.now()
+): ExerciseInputState {
   return {
     currentInputIndex: 0,
     inputValue: "",
@@ -30,9 +83,169 @@ export function createInitialState(totalInputs: number): ExerciseInputState {
     hintedIndices: new Set(),
     totalInputs,
     isComplete: false,
+    evidence: Array.from({ length: totalInputs }, (_, i) => createEvidence(i === 0 ? now : null)),
+    lastMistake: null,
   };
 }
 
+function updateEvidence(
+  evidence: SegmentEvidence[],
+  index: number,
+  update: (current: SegmentEvidence) => SegmentEvidence
+): SegmentEvidence[] {
+  if (index >= evidence.length) return evidence;
+  return evidence.map((item, i) => (i === index ? update(item) : item));
+}
+
+/**
+ * How a wrong answer differs from the expected pinyin.
+ */
+export type PinyinMismatch = "tone" | "syllable";
+
+/**
+ * Put an answer in a comparable form. Numbered pinyin may write ü as v or u:
+ * and leave the neutral tone unnumbered.
+ */
+function normalizeAnswer(answer: string, format: PinyinFormat): string {
+  const normalized = normalizePinyin(answer);
+  if (format !== "numbered") return normalized;
+  return normalized.replace(/u:|v/g, "ü").replace(/[05]/g, "");
+}
+
+function stripTones(answer: string, format: PinyinFormat): string {
+  if (format === "numbered") return answer.replace(/[0-5]/g, "");
+  if (format === "zhuyin") return answer.replace(/[ˊˇˋ˙]/g, "");
+  return removeTones(answer);
+}
+
+function countTones(answer: string, format: PinyinFormat): number {
+  if (format === "numbered") return answer.replace(/[^1-4]/g, "").length;
+  if (format === "zhuyin") return answer.replace(/[^ˊˇˋ˙]/g, "").length;
+  return countToneMarks(answer);
+}
+
+/**
+ * Compare an answer to the expected pinyin, or to any of several accepted
+ * forms of it, all written in the answer's format.
+ */
+export function classifyPinyinMismatch(
+  input: string,
+  expected: string | string[],
+  format: PinyinFormat = "tone-marks"
+): PinyinMismatch | null {
+  const normalizedInput = normalizeAnswer(input, format);
+  const normalizedExpected = (Array.isArray(expected) ? expected : [expected]).map((pinyin) =>
+    normalizeAnswer(pinyin, format)
+  );
+  if (normalizedExpected.includes(normalizedInput)) return null;
+  const tonelessInput = stripTones(normalizedInput, format);
+  return normalizedExpected.some((pinyin) => stripTones(pinyin, format) === tonelessInput)
+    ? "tone"
+    : "syllable";
+}
+
+/**
+ * How typed pinyin is checked.
+ */
+export interface PinyinAnswerSettings {
+  /** Accept dictionary tones and the tones as spoken after tone sandhi */
+  acceptSandhi: boolean;
+  /** What the learner types: tone-marked pinyin, numbered pinyin or zhuyin */
+  format: PinyinFormat;
+}
+
+export const ANSWER_FORMATS: PinyinFormat[] = ["tone-marks", "numbered", "zhuyin"];
+
+export const DEFAULT_PINYIN_ANSWER_SETTINGS: PinyinAnswerSettings = {
+  acceptSandhi: true,
+  format: "tone-marks",
+};
+
+/**
+ * The answers accepted for each input segment of an exercise in the learner's
+ * format, the deck's own pinyin first. With `acceptSandhi`, 不是 may be typed
+ * as "bù shì" or "bú shì" and 你好 as "nǐ hǎo" or "ní hǎo".
+ */
+export function getAcceptedPinyin(
+  segments: ExerciseSegment[],
+  settings: PinyinAnswerSettings
+): string[][] {
+  const citation = getCitationPinyin(segments);
+  const spoken = getSpokenPinyin(segments);
+  return segments.flatMap((segment, i) => {
+    if (segment.pinyin === "") return [];
+    const forms = settings.acceptSandhi ? [segment.pinyin, citation[i], spoken[i]] : [segment.pinyin];
+    return [[...new Set(forms.map((form) => formatPinyin(form, settings.format)))]];
+  });
+}
+
+/**
+ * Describe how a wrong answer differs, compared as tone-marked pinyin with the
+ * accepted form closest to it.
+ */
+export function describeMistake(
+  input: string,
+  expected: string | string[],
+  format: PinyinFormat = "tone-marks"
+): PinyinDifference | null {
+  const answer = parsePinyinAnswer(input, format);
+  const forms = (Array.isArray(expected) ? expected : [expected]).map((form) =>
+    parsePinyinAnswer(form, format)
+  );
+  const closest =
+    forms.find((form) => normalizePinyin(removeTones(form)) === normalizePinyin(removeTones(answer))) ??
+    forms[0];
+  return comparePinyin(answer, closest);
+}
+
+/**
+ * Whether the input looks like a finished answer rather than one still being
+ * typed: as many letters and tones as the expected answer.
+ */
+function isAnswerAttempt(input: string, expected: string, format: PinyinFormat): boolean {
+  const normalizedInput = normalizePinyin(input);
+  const normalizedExpected = normalizePinyin(expected);
+  return (
+    normalizedInput.length >= normalizedExpected.length &&
+    countTones(normalizedInput, format) >= countTones(normalizedExpected, format)
+  );
+}
+
+/**
+ * Whether a wrong input counts as another attempt: it has just reached the
+ * expected length, or a tone or letter of a finished answer was replaced.
+ * Typing on past a finished answer, or deleting from it, is not a new attempt.
+ */
+function isNewAnswerAttempt(
+  previous: string,
+  input: string,
+  expected: string,
+  format: PinyinFormat
+): boolean {
+  if (!isAnswerAttempt(input, expected, format)) return false;
+  if (!isAnswerAttempt(previous, expected, format)) return true;
+  const normalizedPrevious = normalizePinyin(previous);
+  const normalizedInput = normalizePinyin(input);
+  return (
+    normalizedInput !== normalizedPrevious && normalizedInput.length === normalizedPrevious.length
+  );
+}
+
+/**
+ * Map the evidence for one segment to a recall grade. Needing a hint or
+ * repeatedly typing the wrong syllables means the word was not known; tone
+ * mistakes, a single wrong syllable or a slow answer mean it was hard.
+ */
+export function gradeSegment(evidence: SegmentEvidence): RecallGrade {
+  if (evidence.hintUsed || evidence.syllableMistakes >= 2) return "again";
+  if (evidence.syllableMistakes > 0 || evidence.toneMistakes > 0) return "hard";
+
+  if (evidence.startedAt === null || evidence.completedAt === null) return "good";
+  const elapsed = evidence.completedAt - evidence.startedAt;
+  if (elapsed > SLOW_ANSWER_MS) return "hard";
+  return elapsed <= EASY_ANSWER_MS ? "easy" : "good";
+}
+
 /**
  * Result of a state transition that may trigger side effects.
  */
@@ -58,30 +271,62 @@ export function requestHint(state: ExerciseInputState): ExerciseInputState {
     inputValue: "",
     showHint: true,
     hintedIndices: new Set(state.hintedIndices).add(state.currentInputIndex),
+    lastMistake: null,
+    evidence: updateEvidence(state.evidence, state.currentInputIndex, (current) => ({
+      ...current,
+      hintUsed: true,
+    })),
   };
 }
 
 /**
  * Updates the input value and checks if the answer is correct.
  * If correct, advances to the next segment or completes the exercise.
+ * Wrong answers that look finished are recorded as tone or syllable mistakes.
+ * `expectedPinyin` may list several accepted forms, the deck's own first, all
+ * in the answer `format`.
  */
 export function updateInput(
   state: ExerciseInputState,
   newValue: string,
-  expectedPinyin: string
+  expectedPinyin: string | string[],
+  now: number = Date.now(),
+  format: PinyinFormat = "tone-marks"
 ): StateTransitionResult {
   if (state.isComplete) {
     return { state };
   }
 
-  const isCorrect = normalizePinyin(newValue) === normalizePinyin(expectedPinyin);
+  const mismatch = classifyPinyinMismatch(newValue, expectedPinyin, format);
 
-  if (!isCorrect) {
+  if (mismatch) {
+    const expected = Array.isArray(expectedPinyin) ? expectedPinyin[0] : expectedPinyin;
+    const isNewAttempt = isNewAnswerAttempt(state.inputValue, newValue, expected, format);
     return {
-      state: { ...state, inputValue: newValue },
+      state: {
+        ...state,
+        inputValue: newValue,
+        lastMistake: isNewAttempt
+          ? describeMistake(newValue, expectedPinyin, format)
+          : state.lastMistake,
+        evidence: isNewAttempt
+          ? updateEvidence(state.evidence, state.currentInputIndex, (current) => ({
+              ...current,
+              wrongAttempts: current.wrongAttempts + 1,
+              toneMistakes: current.toneMistakes + (mismatch === "tone" ? 1 : 0),
+              syllableMistakes: current.syllableMistakes + (mismatch === "syllable" ? 1 : 0),
+            }))
+          : state.evidence,
+      },
     };
   }
 
+  const completedEvidence = updateEvidence(
+    state.evidence,
+    state.currentInputIndex,
+    (current) => ({ ...current, completedAt: now })
+  );
+
   // Answer is correct - advance or complete
   const isLastSegment = state.currentInputIndex >= state.totalInputs - 1;
 
@@ -91,6 +336,7 @@ export function updateInput(
         ...state,
         inputValue: newValue,
         isComplete: true,
+        evidence: completedEvidence,
       },
       segmentCompleted: state.currentInputIndex,
       exerciseCompleted: true,
@@ -104,6 +350,11 @@ export function updateInput(
       currentInputIndex: state.currentInputIndex + 1,
       inputValue: "",
       showHint: false, // Reset hint for new segment
+      lastMistake: null,
+      evidence: updateEvidence(completedEvidence, state.currentInputIndex + 1, (next) => ({
+        ...next,
+        startedAt: now,
+      })),
     },
     segmentCompleted: state.currentInputIndex,
   };
@@ -112,8 +363,8 @@ export function updateInput(
 /**
  * Resets the state to initial values.
  */
-export function resetState(totalInputs: number): ExerciseInputState {
-  return createInitialState(totalInputs);
+export function resetState(totalInputs: number, now: number = Date.now()): ExerciseInputState {
+  return createInitialState(totalInputs, now);
 }
 
 /**
@@ -1,14 +1,29 @@
 export interface ExerciseSegment {
+  /** Simplified characters, the canonical form progress is keyed by */
   chinese: string;
   pinyin: string;
   transliteration?: string;
+  /** Traditional characters, present only when they differ from `chinese` */
+  traditional?: string;
 }
 
 export interface Exercise {
+  /** Stable content-derived ID assigned by the data script */
+  id: string;
   segments: ExerciseSegment[];
   english: string;
 }
 
+/**
+ * Ways of drilling an exercise: typing the pinyin of each word, picking the
+ * English translation, putting shuffled words back in order, choosing the
+ * word missing from the sentence, or writing a word's characters
+ */
+export type ExerciseMode = "pinyin" | "translation" | "reorder" | "missing-segment" | "writing";
+
+/** Which characters to show: simplified, traditional, or both together */
+export type ChineseScript = "simplified" | "traditional" | "both";
+
 export interface ScoredExercise {
   exercise: Exercise;
   index: number;
@@ -16,6 +31,8 @@ export interface ScoredExercise {
     wordsNotInOrderedList: number;
     unknownOrReviewWordCount: number;
     hasBeenSeen: number;
+    /** Han characters of unseen words not known from any other word */
+    unfamiliarCharacterCount: number;
     largestOrderedWordIndex: number;
     chineseCharacterCount: number;
   };
@@ -24,6 +41,7 @@ export interface ScoredExercise {
     orderedWordIndices: Record<string, number | null>;
     wordsNotInOrderedList: number;
     unknownOrReviewWordCount: number;
+    unfamiliarCharacterCount: number;
     largestOrderedWordIndex: number;
     chineseCharacterCount: number;
     lastSeen: number;
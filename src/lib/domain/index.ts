@@ -1,3 +1,4 @@
+export * from "./deck";
 export * from "./exercise";
 export * from "./exercise-input";
 export * from "./progress";
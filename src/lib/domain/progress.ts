@@ -1,9 +1,56 @@
+import type { SpacedRepetitionConfig } from "../spaced-repetition";
+
+/**
+ * How well a word was recalled, from forgotten ("again") to effortless ("easy")
+ */
+export type RecallGrade = "again" | "hard" | "good" | "easy";
+
+/** Scheduling algorithms a learner can choose between */
+export type SchedulerId = "erudify" | "sm2" | "fsrs";
+
+export interface SchedulerSelection {
+  id: SchedulerId;
+  /** When the learner picked this scheduler, so merges keep the latest choice */
+  selectedAt: number;
+  /** Personalised parameters for the Erudify scheduler, e.g. from the optimizer */
+  config?: SpacedRepetitionConfig;
+}
+
+/** Per-word state of the SM-2 scheduler */
+export interface Sm2State {
+  easeFactor: number;
+  /** Successful on-time reviews since the last failure */
+  repetitions: number;
+}
+
+/** Per-word memory state of the FSRS scheduler */
+export interface FsrsState {
+  /** Days until recall probability drops to 90% */
+  stability: number;
+  /** 1 (easy) to 10 (hard) */
+  difficulty: number;
+}
+
+/** A word the learner keeps forgetting */
+export interface LeechState {
+  /** When repeated lapses marked the word as a leech */
+  detectedAt: number;
+  /** When the learner last went through remediation; null while it is pending */
+  remediatedAt: number | null;
+}
+
 export interface WordProgress {
   word: string;
   lastReviewed: number;
   nextReview: number;
   intervalSeconds: number;
   consecutiveSuccesses: number;
+  /** Only present once the word has been scheduled by SM-2 */
+  sm2?: Sm2State;
+  /** Only present once the word has been scheduled by FSRS */
+  fsrs?: FsrsState;
+  /** Only present once the word has been flagged as a leech */
+  leech?: LeechState;
 }
 
 export interface WordIntervalChange {
@@ -14,10 +61,27 @@ export interface WordIntervalChange {
   nextReview: number;
   wasEarlyReview: boolean;
   wasFailure: boolean;
+  /** Absent on reviews recorded before graded recall */
+  grade?: RecallGrade;
+}
+
+/**
+ * One review of one word
+ */
+export interface WordReview {
+  reviewedAt: number;
+  grade: RecallGrade;
+  /** Seconds since the previous review of the word; null on its first review */
+  elapsedSeconds: number | null;
+  /** Interval before this review; null on the word's first review */
+  oldIntervalSeconds: number | null;
+  newIntervalSeconds: number;
+  /** Exercise the word was reviewed in; null when unknown */
+  exerciseId: string | null;
 }
 
 export interface ExerciseHistory {
-  exerciseIndex: number;
+  exerciseId: string;
   completedAt: number;
   success: boolean;
   chinese: string;
@@ -26,11 +90,42 @@ export interface ExerciseHistory {
   wordChanges: WordIntervalChange[];
 }
 
+/**
+ * A stretch of time (e.g. a holiday) during which the learner paused study.
+ * Paused time doesn't count towards any word's elapsed time.
+ */
+export interface PauseWindow {
+  start: number;
+  /** null while the pause is ongoing */
+  end: number | null;
+}
+
+/**
+ * One answer in the tone drill: the tone of each syllable of the word, 1–4 or
+ * 5 for the neutral tone
+ */
+export interface ToneReview {
+  reviewedAt: number;
+  expected: number[];
+  answered: number[];
+}
+
 export interface StudentProgress {
   words: Record<string, WordProgress>;
   history: ExerciseHistory[];
-  exerciseLastSeen: Record<number, number>;
+  /** Last completion timestamp keyed by exercise ID */
+  exerciseLastSeen: Record<string, number>;
   dailyMetricsHistory: Record<string, DailyMetricsPoint>;
+  /** Every review of each word in chronological order, keyed by word */
+  reviewLog: Record<string, WordReview[]>;
+  /** Pauses in chronological order; at most the last one is ongoing */
+  pauses: PauseWindow[];
+  /** Tone drill schedule of each word, kept apart from recall of its meaning */
+  toneWords: Record<string, WordProgress>;
+  /** Every tone drill answer for each word in chronological order, keyed by word */
+  toneLog: Record<string, ToneReview[]>;
+  /** Scheduling algorithm chosen by the learner; the default one when absent */
+  scheduler?: SchedulerSelection;
 }
 
 export interface DailyMetricsPoint {
@@ -1,9 +1,25 @@
-export type { ExerciseSegment, Exercise, ScoredExercise } from "./exercise";
+export type { HskLevel, DeckInfo, DeckManifest } from "./deck";
 export type {
+  ExerciseSegment,
+  Exercise,
+  ExerciseMode,
+  ChineseScript,
+  ScoredExercise,
+} from "./exercise";
+export type {
+  RecallGrade,
+  SchedulerId,
+  SchedulerSelection,
+  Sm2State,
+  FsrsState,
+  LeechState,
+  PauseWindow,
   WordProgress,
   WordIntervalChange,
+  WordReview,
   ExerciseHistory,
   DailyMetricsPoint,
   StudentProgress,
+  ToneReview,
 } from "./progress";
 export type { PomodoroState } from "./timer";
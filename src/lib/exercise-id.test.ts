@@ -0,0 +1,37 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { decode } from "cbor-x";
+import { decompress } from "fzstd";
+import { describe, expect, it } from "vitest";
+import { getExerciseId } from "./exercise-id";
+
+describe("getExerciseId", () => {
+  it("is deterministic and content-derived", () => {
+    const id = getExerciseId("我是学生。", "I am a student.");
+
+    expect(id).toMatch(/^[0-9a-f]{14}$/);
+    expect(getExerciseId("我是学生。", "I am a student.")).toBe(id);
+    expect(getExerciseId("我是老师。", "I am a student.")).not.toBe(id);
+    expect(getExerciseId("我是学生。", "I am a teacher.")).not.toBe(id);
+  });
+
+  it("keeps the Chinese text and English separate", () => {
+    expect(getExerciseId("ab", "c")).not.toBe(getExerciseId("a", "bc"));
+  });
+
+  it("matches the IDs assigned by the data script", () => {
+    const compressed = readFileSync(join(process.cwd(), "public/HSK-1.cbor.zstd"));
+    const exercises = decode(decompress(new Uint8Array(compressed))) as {
+      id: string;
+      english: string;
+      segments: { chinese: string }[];
+    }[];
+
+    expect(exercises.length).toBeGreaterThan(0);
+    for (const exercise of exercises) {
+      const chinese = exercise.segments.map((s) => s.chinese).join("");
+      expect(exercise.id).toBe(getExerciseId(chinese, exercise.english));
+    }
+    expect(new Set(exercises.map((e) => e.id)).size).toBe(exercises.length);
+  });
+});
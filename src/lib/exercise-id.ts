@@ -0,0 +1,38 @@
+/**
+ * Content-derived exercise IDs.
+ *
+ * An exercise is identified by its Chinese text and English translation, so
+ * reordering or inserting sentences in a deck source keeps progress attached
+ * to the right sentence, while pinyin or transliteration fixes keep the ID.
+ * The data script assigns these IDs when building a deck and must use the
+ * same algorithm (see `exerciseId()` in scripts/build-hsk-cbor-zstd.mjs).
+ */
+
+/**
+ * 53-bit string hash (cyrb53), rendered as 14 hex digits.
+ */
+function hashString(text: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  const hash = 4294967296 * (2097151 & h2) + (h1 >>> 0);
+  return hash.toString(16).padStart(14, "0");
+}
+
+/**
+ * Compute the stable ID for an exercise from its joined Chinese text and English.
+ */
+export function getExerciseId(chinese: string, english: string): string {
+  return hashString(`${chinese}\u0000${english}`);
+}
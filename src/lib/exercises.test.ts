@@ -1,9 +1,17 @@
 import { afterEach, describe, expect, it, vi } from "vitest";
-import { getExerciseCandidates, selectNextExercise } from "./exercises";
+import {
+  getExerciseCandidates,
+  selectNextExercise,
+  updateWordFailure,
+  updateWordSuccess,
+} from "./exercises";
+import { getExerciseId } from "./exercise-id";
+import { getEmptyProgress } from "./storage";
 import type { Exercise, StudentProgress } from "./domain";
 
 function makeExercise(words: string[]): Exercise {
   return {
+    id: getExerciseId(words.join(""), words.join(" ")),
     segments: words.map((word) => ({ chinese: word, pinyin: "x" })),
     english: words.join(" "),
   };
@@ -13,12 +21,7 @@ function makeProgress(
   words: StudentProgress["words"],
   exerciseLastSeen: StudentProgress["exerciseLastSeen"] = {}
 ): StudentProgress {
-  return {
-    words,
-    history: [],
-    exerciseLastSeen,
-    dailyMetricsHistory: {},
-  };
+  return { ...getEmptyProgress(), words, exerciseLastSeen };
 }
 
 describe("selectNextExercise", () => {
@@ -33,6 +36,7 @@ describe("selectNextExercise", () => {
 
     const exercises: Exercise[] = [
       {
+        id: "hello",
         // Contains 你 (overdue) but also 好 (also overdue), so locked for reviewing 你.
         segments: [
           { chinese: "你", pinyin: "ni3" },
@@ -41,6 +45,7 @@ describe("selectNextExercise", () => {
         english: "Hello",
       },
       {
+        id: "i-study",
         // Contains 学 (overdue target) and only known future words, so unlocked.
         segments: [
           { chinese: "我", pinyin: "wo3" },
@@ -51,6 +56,7 @@ describe("selectNextExercise", () => {
     ];
 
     const progress: StudentProgress = {
+      ...getEmptyProgress(),
       words: {
         你: {
           word: "你",
@@ -81,9 +87,6 @@ describe("selectNextExercise", () => {
           consecutiveSuccesses: 3,
         },
       },
-      history: [],
-      exerciseLastSeen: {},
-      dailyMetricsHistory: {},
     };
 
     const result = selectNextExercise(exercises, progress, ["你", "好", "我", "学"]);
@@ -100,16 +103,19 @@ describe("selectNextExercise", () => {
 
     const exercises: Exercise[] = [
       {
+        id: "external-word",
         segments: [{ chinese: "X", pinyin: "x" }],
         english: "external word",
       },
       {
+        id: "you",
         segments: [{ chinese: "你", pinyin: "ni3" }],
         english: "you",
       },
     ];
 
     const progress: StudentProgress = {
+      ...getEmptyProgress(),
       words: {
         X: {
           word: "X",
@@ -126,9 +132,6 @@ describe("selectNextExercise", () => {
           consecutiveSuccesses: 1,
         },
       },
-      history: [],
-      exerciseLastSeen: {},
-      dailyMetricsHistory: {},
     };
 
     const result = selectNextExercise(exercises, progress, ["你"]);
@@ -137,6 +140,47 @@ describe("selectNextExercise", () => {
     expect(result?.targetWord).toBe("你");
     expect(result?.index).toBe(1);
   });
+
+  it("respects the daily new-word and review limits", () => {
+    const now = new Date(2026, 1, 11, 12).getTime();
+    const exercises = [makeExercise(["你"]), makeExercise(["好"]), makeExercise(["我"])];
+    // 你 was learned yesterday and is due; 好 was met for the first time today
+    let progress = updateWordSuccess("你", "x", makeProgress({}), now - 86_400_000).progress;
+    progress = {
+      ...progress,
+      words: { ...progress.words, 你: { ...progress.words["你"], nextReview: now - 3_600_000 } },
+    };
+    progress = updateWordFailure("好", "x", progress, now - 60_000).progress;
+    const wordList = ["你", "好", "我"];
+
+    expect(
+      selectNextExercise(exercises, progress, wordList, now, { newWordsPerDay: 1, reviewsPerDay: 1 })
+        ?.targetWord
+    ).toBe("你");
+    // Relearning a word already studied today doesn't use up the review limit
+    expect(
+      selectNextExercise(exercises, progress, wordList, now, { newWordsPerDay: 1, reviewsPerDay: 0 })
+        ?.targetWord
+    ).toBe("好");
+    expect(
+      selectNextExercise(exercises, progress, wordList, now + 60_000, {
+        newWordsPerDay: 2,
+        reviewsPerDay: 0,
+      })?.targetWord
+    ).toBe("好");
+
+    const reviewedOnly = {
+      ...progress,
+      words: { ...progress.words, 好: { ...progress.words["好"], nextReview: now + 60_000 } },
+    };
+    expect(
+      selectNextExercise(exercises, reviewedOnly, wordList, now, { newWordsPerDay: 2, reviewsPerDay: 0 })
+        ?.targetWord
+    ).toBe("我");
+    expect(
+      selectNextExercise(exercises, reviewedOnly, wordList, now, { newWordsPerDay: 1, reviewsPerDay: 0 })
+    ).toBeNull();
+  });
 });
 
 describe("getExerciseCandidates", () => {
@@ -155,6 +199,7 @@ describe("getExerciseCandidates", () => {
       wordsNotInOrderedList: 0,
       unknownOrReviewWordCount: 2,
       hasBeenSeen: 0,
+      unfamiliarCharacterCount: 2,
       largestOrderedWordIndex: 1,
       chineseCharacterCount: 2,
     });
@@ -189,7 +234,7 @@ describe("getExerciseCandidates", () => {
     vi.useRealTimers();
   });
 
-  it("uses chinese character count as tie-breaker after the first three score levels", () => {
+  it("uses chinese character count as tie-breaker after the other score levels", () => {
     vi.useFakeTimers();
     vi.setSystemTime(new Date("2026-02-11T00:00:00.000Z"));
     const future = Date.now() + 60_000;
@@ -216,6 +261,7 @@ describe("getExerciseCandidates", () => {
       wordsNotInOrderedList: 0,
       unknownOrReviewWordCount: 1,
       hasBeenSeen: 0,
+      unfamiliarCharacterCount: 1,
       largestOrderedWordIndex: 0,
       chineseCharacterCount: 1,
     });
@@ -223,12 +269,37 @@ describe("getExerciseCandidates", () => {
     vi.useRealTimers();
   });
 
+  it("prefers sentences whose new words use characters already known", () => {
+    const now = new Date("2026-02-11T00:00:00.000Z").getTime();
+    const exercises: Exercise[] = [
+      makeExercise(["的", "书包"]),
+      makeExercise(["的", "学校"]),
+    ];
+    const progress = makeProgress({
+      学生: {
+        word: "学生",
+        lastReviewed: now,
+        nextReview: now + 60_000,
+        intervalSeconds: 60,
+        consecutiveSuccesses: 1,
+      },
+    });
+    const orderedWordList = ["的", "书包", "学校"];
+
+    const candidates = getExerciseCandidates("的", exercises, progress, orderedWordList, now);
+
+    // 学 carries over from 学生, so 学校 has one unfamiliar character to 书包's two
+    expect(candidates[0].index).toBe(1);
+    expect(candidates[0].score.unfamiliarCharacterCount).toBe(2);
+    expect(candidates[1].score.unfamiliarCharacterCount).toBe(3);
+  });
+
   it("prefers unseen exercises over seen exercises before considering word index", () => {
     const exercises: Exercise[] = [
       makeExercise(["我", "的"]),    // index 0 — seen, lower word index
       makeExercise(["你们", "的"]),  // index 1 — unseen, higher word index
     ];
-    const progress = makeProgress({}, { 0: 1000 });
+    const progress = makeProgress({}, { [exercises[0].id]: 1000 });
     const orderedWordList = ["的", "我", "你们"];
 
     const candidates = getExerciseCandidates("的", exercises, progress, orderedWordList);
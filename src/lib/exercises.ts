@@ -1,14 +1,21 @@
 import type {
   Exercise,
+  RecallGrade,
   ScoredExercise,
   StudentProgress,
   WordIntervalChange,
 } from "./domain";
+import { getProgressScheduler, type Scheduler } from "./scheduler";
+import { appendWordReview, createWordReview } from "./review-log";
+import { getKnownCharacters, getUnfamiliarCharacters } from "./characters";
+import { DEFAULT_LEECH_CONFIG, detectLeech } from "./leeches";
+import { excludePausedTime } from "./pauses";
 import {
-  updateWordStateSuccess,
-  updateWordStateFailure,
-  type WordState,
-} from "./spaced-repetition";
+  canIntroduceNewWord,
+  canReviewWord,
+  getTodaysActivity,
+  type StudyLimits,
+} from "./study-plan";
 
 /**
  * Get all words from an exercise (excluding punctuation - segments without pinyin)
@@ -38,20 +45,25 @@ export function getNewWords(
 
 /**
  * Select the next exercise for the student based on spaced repetition algorithm
+ * @param now - current time; simulations pass their own clock
+ * @param limits - daily caps; returns null once today's plan is used up
  */
 export function selectNextExercise(
   exercises: Exercise[],
   progress: StudentProgress,
-  orderedWordList: string[] = []
+  orderedWordList: string[] = [],
+  now: number = Date.now(),
+  limits?: StudyLimits
 ): { exercise: Exercise; index: number; targetWord?: string } | null {
-  const now = Date.now();
   const allowedWords = new Set(orderedWordList);
+  const activity = limits ? getTodaysActivity(progress, now) : null;
 
   // Find words that need review (nextReview is in the past), limited to
-  // the loaded ordered word list when it is provided.
+  // the loaded ordered word list when it is provided and to today's limit.
   const wordsNeedingReview = Object.values(progress.words)
     .filter((wp) => {
       if (wp.nextReview > now) return false;
+      if (activity && limits && !canReviewWord(wp.word, activity, limits)) return false;
       if (allowedWords.size === 0) return true;
       return allowedWords.has(wp.word);
     })
@@ -66,7 +78,8 @@ export function selectNextExercise(
       targetWord,
       exercises,
       progress,
-      orderedWordList
+      orderedWordList,
+      now
     ).filter(({ exercise }) => {
       const otherWords = getExerciseWords(exercise).filter((w) => w !== targetWord);
       return otherWords.every((w) => {
@@ -84,17 +97,19 @@ export function selectNextExercise(
     }
   }
 
+  if (activity && limits && !canIntroduceNewWord(activity, limits)) return null;
+
   // No teachable review words - pick the next word in the HSK list that isn't mastered
-  return selectNewExercise(exercises, progress, orderedWordList);
+  return selectNewExercise(exercises, progress, orderedWordList, now);
 }
 
 export function getExerciseCandidates(
   word: string,
   exercises: Exercise[],
   progress: StudentProgress,
-  orderedWordList: string[] = []
+  orderedWordList: string[] = [],
+  now: number = Date.now()
 ): ScoredExercise[] {
-  const now = Date.now();
   const orderedWordIndex = new Map<string, number>(
     orderedWordList.map((orderedWord, index) => [orderedWord, index])
   );
@@ -102,6 +117,7 @@ export function getExerciseCandidates(
   const candidateExercises = exercises
     .map((ex, idx) => ({ exercise: ex, index: idx }))
     .filter(({ exercise }) => exerciseContainsWord(exercise, word));
+  const knownCharacters = getKnownCharacters(progress.words, now);
 
   const scored = candidateExercises.map(({ exercise, index }) => {
     const exerciseWords = getExerciseWords(exercise);
@@ -109,6 +125,7 @@ export function getExerciseCandidates(
     const orderedWordIndices: Record<string, number | null> = {};
     let wordsNotInOrderedList = 0;
     let unknownOrReviewWordCount = 0;
+    let unfamiliarCharacterCount = 0;
     let largestOrderedWordIndex = -1;
 
     for (const w of exerciseWords) {
@@ -124,6 +141,8 @@ export function getExerciseCandidates(
 
       if (!wp) {
         wordStatuses[w] = "unknown";
+        // Unseen words are easier when their characters are known from other words
+        unfamiliarCharacterCount += getUnfamiliarCharacters(w, knownCharacters).length;
       } else {
         wordStatuses[w] = "review";
       }
@@ -141,7 +160,7 @@ export function getExerciseCandidates(
     const sentence = exercise.segments.map((seg) => seg.chinese).join("");
     const chineseCharacterCount =
       sentence.match(/\p{Script=Han}/gu)?.length ?? 0;
-    const lastSeen = progress.exerciseLastSeen[index] || 0;
+    const lastSeen = progress.exerciseLastSeen[exercise.id] || 0;
     const hasBeenSeen = lastSeen > 0 ? 1 : 0;
 
     return {
@@ -151,6 +170,7 @@ export function getExerciseCandidates(
         wordsNotInOrderedList,
         unknownOrReviewWordCount,
         hasBeenSeen,
+        unfamiliarCharacterCount,
         largestOrderedWordIndex,
         chineseCharacterCount,
       },
@@ -159,6 +179,7 @@ export function getExerciseCandidates(
         orderedWordIndices,
         wordsNotInOrderedList,
         unknownOrReviewWordCount,
+        unfamiliarCharacterCount,
         largestOrderedWordIndex,
         chineseCharacterCount,
         lastSeen,
@@ -180,6 +201,10 @@ export function getExerciseCandidates(
       return a.score.hasBeenSeen - b.score.hasBeenSeen;
     }
 
+    if (a.score.unfamiliarCharacterCount !== b.score.unfamiliarCharacterCount) {
+      return a.score.unfamiliarCharacterCount - b.score.unfamiliarCharacterCount;
+    }
+
     if (a.score.largestOrderedWordIndex !== b.score.largestOrderedWordIndex) {
       return a.score.largestOrderedWordIndex - b.score.largestOrderedWordIndex;
     }
@@ -192,6 +217,31 @@ export function getExerciseCandidates(
   });
 }
 
+/**
+ * Different example sentences for a word, easiest to read first. Used to
+ * remediate leeches.
+ */
+export function getExampleExercises(
+  word: string,
+  exercises: Exercise[],
+  progress: StudentProgress,
+  orderedWordList: string[] = [],
+  now: number = Date.now(),
+  count: number = DEFAULT_LEECH_CONFIG.remediationExamples
+): Exercise[] {
+  const sentences = new Set<string>();
+  const examples: Exercise[] = [];
+
+  for (const { exercise } of getExerciseCandidates(word, exercises, progress, orderedWordList, now)) {
+    const sentence = exercise.segments.map((segment) => segment.chinese).join("");
+    if (sentences.has(sentence)) continue;
+    sentences.add(sentence);
+    examples.push(exercise);
+    if (examples.length >= count) break;
+  }
+
+  return examples;
+}
 
 /**
  * Select a new exercise (one that introduces new words)
@@ -199,7 +249,8 @@ export function getExerciseCandidates(
 function selectNewExercise(
   exercises: Exercise[],
   progress: StudentProgress,
-  orderedWordList: string[]
+  orderedWordList: string[],
+  now: number
 ): { exercise: Exercise; index: number; targetWord?: string } | null {
   // If we have an ordered word list, pick the first word that isn't in progress
   if (orderedWordList.length > 0) {
@@ -210,7 +261,8 @@ function selectNewExercise(
           word,
           exercises,
           progress,
-          orderedWordList
+          orderedWordList,
+          now
         );
 
         if (candidates.length > 0) {
@@ -235,7 +287,8 @@ function selectNewExercise(
         newWords[0],
         exercises,
         progress,
-        orderedWordList
+        orderedWordList,
+        now
       );
       if (candidates.length > 0) {
         return {
@@ -252,105 +305,113 @@ function selectNewExercise(
   return { exercise: exercises[0], index: 0 };
 }
 
+export interface WordReviewOptions {
+  /** Exercise the word was reviewed in, recorded in the review log */
+  exerciseId?: string;
+  /** Defaults to the scheduler the learner has chosen */
+  scheduler?: Scheduler;
+}
+
 /**
- * Update word progress after a successful recall
- * Returns new progress and the interval change info
+ * Update word progress after a review graded from the learner's answer
+ * Returns new progress (including the word's review log) and the interval change info
  * @param completedAt - timestamp when the exercise was completed (used for all words)
  */
-export function updateWordSuccess(
+export function updateWordReview(
   word: string,
   pinyin: string,
   progress: StudentProgress,
-  completedAt: number
+  completedAt: number,
+  grade: RecallGrade,
+  options: WordReviewOptions = {}
 ): { progress: StudentProgress; change: WordIntervalChange } {
-  const existing = progress.words[word];
-  const existingState: WordState | null = existing
-    ? {
-        intervalSeconds: existing.intervalSeconds,
-        lastReviewed: existing.lastReviewed,
-        consecutiveSuccesses: existing.consecutiveSuccesses,
-      }
-    : null;
-
-  const { state: newState, change } = updateWordStateSuccess(
+  const scheduler = options.scheduler ?? getProgressScheduler(progress);
+  const stored = progress.words[word];
+  const existing = stored ? excludePausedTime(stored, progress.pauses, completedAt) : null;
+  const success = grade !== "again";
+  const { progress: wordProgress, wasEarlyReview } = scheduler.review(
     word,
-    pinyin,
-    existingState,
+    existing,
+    grade,
     completedAt
   );
 
-  const nextReview = completedAt + newState.intervalSeconds * 1000;
-  const updatedChange = { ...change, nextReview };
+  const change: WordIntervalChange = {
+    word,
+    pinyin,
+    oldIntervalSeconds: success ? existing?.intervalSeconds ?? null : null,
+    newIntervalSeconds: wordProgress.intervalSeconds,
+    nextReview: wordProgress.nextReview,
+    wasEarlyReview,
+    wasFailure: !success,
+    grade,
+  };
+
+  const reviewLog = appendWordReview(
+    progress.reviewLog,
+    word,
+    createWordReview(existing, wordProgress, grade, options.exerciseId ?? null)
+  );
+  const leech = success
+    ? wordProgress.leech
+    : detectLeech(wordProgress.leech, reviewLog[word], completedAt);
 
   return {
     progress: {
       ...progress,
       words: {
         ...progress.words,
-        [word]: {
-          word,
-          lastReviewed: newState.lastReviewed,
-          nextReview,
-          intervalSeconds: newState.intervalSeconds,
-          consecutiveSuccesses: newState.consecutiveSuccesses,
-        },
+        [word]: leech ? { ...wordProgress, leech } : wordProgress,
       },
+      reviewLog,
     },
-    change: updatedChange,
+    change,
   };
 }
 
 /**
- * Update word progress after a failed recall
+ * Update word progress after a successful recall (graded "good")
  * Returns new progress and the interval change info
  * @param completedAt - timestamp when the exercise was completed (used for all words)
  */
-export function updateWordFailure(
+export function updateWordSuccess(
   word: string,
   pinyin: string,
   progress: StudentProgress,
-  completedAt: number
+  completedAt: number,
+  options: WordReviewOptions = {}
 ): { progress: StudentProgress; change: WordIntervalChange } {
-  const { state: newState, change } = updateWordStateFailure(
-    word,
-    pinyin,
-    completedAt
-  );
-
-  const nextReview = completedAt + newState.intervalSeconds * 1000;
-  const updatedChange = { ...change, nextReview };
+  return updateWordReview(word, pinyin, progress, completedAt, "good", options);
+}
 
-  return {
-    progress: {
-      ...progress,
-      words: {
-        ...progress.words,
-        [word]: {
-          word,
-          lastReviewed: newState.lastReviewed,
-          nextReview,
-          intervalSeconds: newState.intervalSeconds,
-          consecutiveSuccesses: newState.consecutiveSuccesses,
-        },
-      },
-    },
-    change: updatedChange,
-  };
+/**
+ * Update word progress after a failed recall (graded "again")
+ * Returns new progress and the interval change info
+ * @param completedAt - timestamp when the exercise was completed (used for all words)
+ */
+export function updateWordFailure(
+  word: string,
+  pinyin: string,
+  progress: StudentProgress,
+  completedAt: number,
+  options: WordReviewOptions = {}
+): { progress: StudentProgress; change: WordIntervalChange } {
+  return updateWordReview(word, pinyin, progress, completedAt, "again", options);
 }
 
 /**
  * Mark an exercise as completed
  */
 export function addExerciseToHistory(
-  exerciseIndex: number,
+  exerciseId: string,
   success: boolean,
   exercise: Exercise,
   wordChanges: WordIntervalChange[],
-  progress: StudentProgress
+  progress: StudentProgress,
+  completedAt: number = Date.now()
 ): StudentProgress {
   const newLastSeen = { ...progress.exerciseLastSeen };
-  const completedAt = Date.now();
-  newLastSeen[exerciseIndex] = completedAt;
+  newLastSeen[exerciseId] = completedAt;
 
   const chinese = exercise.segments.map((s) => s.chinese).join("");
   const pinyin = exercise.segments
@@ -363,7 +424,7 @@ export function addExerciseToHistory(
     history: [
       ...progress.history,
       {
-        exerciseIndex,
+        exerciseId,
         completedAt,
         success,
         chinese,
@@ -0,0 +1,155 @@
+import type { FsrsState, RecallGrade, WordProgress } from "./domain";
+import type { Scheduler } from "./scheduler";
+import { clampInterval, DEFAULT_CONFIG } from "./spaced-repetition";
+
+const DAY_SECONDS = 24 * 60 * 60;
+const DECAY = -0.5;
+const FACTOR = 19 / 81;
+const MIN_STABILITY = 0.01;
+
+/** FSRS ratings: 1 again, 2 hard, 3 good, 4 easy */
+export type FsrsRating = 1 | 2 | 3 | 4;
+
+const GRADE_RATINGS: Record<RecallGrade, FsrsRating> = { again: 1, hard: 2, good: 3, easy: 4 };
+
+export interface FsrsParams {
+  /** The 17 FSRS-4.5 model weights */
+  weights: number[];
+  /** Recall probability at which reviews are scheduled */
+  requestRetention: number;
+}
+
+export const DEFAULT_FSRS_PARAMS: FsrsParams = {
+  weights: [
+    0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474, 0.1367, 1.0461,
+    2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755,
+  ],
+  requestRetention: 0.9,
+};
+
+/**
+ * Probability of recalling a word `elapsedDays` after the last review
+ */
+export function getRetrievability(elapsedDays: number, stability: number): number {
+  return Math.pow(1 + (FACTOR * Math.max(0, elapsedDays)) / stability, DECAY);
+}
+
+function clampDifficulty(difficulty: number): number {
+  return Math.min(10, Math.max(1, difficulty));
+}
+
+function initialStability(w: number[], rating: FsrsRating): number {
+  return Math.max(MIN_STABILITY, w[rating - 1]);
+}
+
+function initialDifficulty(w: number[], rating: FsrsRating): number {
+  return clampDifficulty(w[4] - (rating - 3) * w[5]);
+}
+
+function nextDifficulty(w: number[], difficulty: number, rating: FsrsRating): number {
+  const updated = difficulty - w[6] * (rating - 3);
+  // Mean reversion towards the difficulty of a first "good" rating
+  return clampDifficulty(w[7] * initialDifficulty(w, 3) + (1 - w[7]) * updated);
+}
+
+function recallStability(
+  w: number[],
+  state: FsrsState,
+  retrievability: number,
+  rating: FsrsRating
+): number {
+  const hardPenalty = rating === 2 ? w[15] : 1;
+  const easyBonus = rating === 4 ? w[16] : 1;
+  return (
+    state.stability *
+    (1 +
+      Math.exp(w[8]) *
+        (11 - state.difficulty) *
+        Math.pow(state.stability, -w[9]) *
+        (Math.exp(w[10] * (1 - retrievability)) - 1) *
+        hardPenalty *
+        easyBonus)
+  );
+}
+
+function forgetStability(w: number[], state: FsrsState, retrievability: number): number {
+  const stability =
+    w[11] *
+    Math.pow(state.difficulty, -w[12]) *
+    (Math.pow(state.stability + 1, w[13]) - 1) *
+    Math.exp(w[14] * (1 - retrievability));
+  return Math.max(MIN_STABILITY, Math.min(stability, state.stability));
+}
+
+/**
+ * Compute the FSRS memory state after a review with the given rating
+ */
+export function getNextFsrsState(
+  existing: WordProgress | null,
+  rating: FsrsRating,
+  completedAt: number,
+  params: FsrsParams = DEFAULT_FSRS_PARAMS
+): FsrsState {
+  const w = params.weights;
+  if (!existing) {
+    return { stability: initialStability(w, rating), difficulty: initialDifficulty(w, rating) };
+  }
+
+  // Words scheduled by another algorithm start from their current interval
+  const state = existing.fsrs ?? {
+    stability: Math.max(existing.intervalSeconds / DAY_SECONDS, initialStability(w, 1)),
+    difficulty: initialDifficulty(w, 3),
+  };
+  const elapsedDays = (completedAt - existing.lastReviewed) / 1000 / DAY_SECONDS;
+  const retrievability = getRetrievability(elapsedDays, state.stability);
+
+  return {
+    stability:
+      rating === 1
+        ? forgetStability(w, state, retrievability)
+        : recallStability(w, state, retrievability, rating),
+    difficulty: nextDifficulty(w, state.difficulty, rating),
+  };
+}
+
+/**
+ * Interval in days at which recall probability falls to `requestRetention`
+ */
+export function getFsrsIntervalDays(stability: number, requestRetention: number): number {
+  return (stability / FACTOR) * (Math.pow(requestRetention, 1 / DECAY) - 1);
+}
+
+/**
+ * FSRS-style scheduler tracking stability and difficulty per word. Failed
+ * words come back after the minimum interval so they are relearned in the
+ * same session.
+ */
+export function createFsrsScheduler(params: FsrsParams = DEFAULT_FSRS_PARAMS): Scheduler {
+  return {
+    id: "fsrs",
+    name: "FSRS",
+    review(word, existing, grade, completedAt) {
+      const success = grade !== "again";
+      const fsrs = getNextFsrsState(existing, GRADE_RATINGS[grade], completedAt, params);
+      const intervalSeconds = success
+        ? clampInterval(
+            Math.round(getFsrsIntervalDays(fsrs.stability, params.requestRetention) * DAY_SECONDS),
+            DEFAULT_CONFIG
+          )
+        : DEFAULT_CONFIG.minIntervalSeconds;
+
+      return {
+        progress: {
+          ...existing,
+          word,
+          lastReviewed: completedAt,
+          nextReview: completedAt + intervalSeconds * 1000,
+          intervalSeconds,
+          consecutiveSuccesses: success ? (existing?.consecutiveSuccesses ?? 0) + 1 : 0,
+          fsrs,
+        },
+        wasEarlyReview: success && existing !== null && completedAt < existing.nextReview,
+      };
+    },
+  };
+}
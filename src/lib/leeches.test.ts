@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import {
+  completeRemediation,
+  DEFAULT_LEECH_CONFIG,
+  detectLeech,
+  getWordsNeedingRemediation,
+  isLeech,
+  needsRemediation,
+} from "./leeches";
+import { getExampleExercises, updateWordFailure, updateWordSuccess } from "./exercises";
+import { getExerciseId } from "./exercise-id";
+import { getEmptyProgress } from "./storage";
+import type { Exercise, StudentProgress, WordReview } from "./domain";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2026, 1, 1);
+
+function lapse(reviewedAt: number): WordReview {
+  return {
+    reviewedAt,
+    grade: "again",
+    elapsedSeconds: 86400,
+    oldIntervalSeconds: 86400,
+    newIntervalSeconds: 30,
+    exerciseId: null,
+  };
+}
+
+function makeExercise(words: string[]): Exercise {
+  return {
+    id: getExerciseId(words.join(""), words.join(" ")),
+    segments: words.map((word) => ({ chinese: word, pinyin: "x" })),
+    english: words.join(" "),
+  };
+}
+
+/** Learn the word, then forget it on each of the following days */
+function forgetRepeatedly(times: number): StudentProgress {
+  let progress = updateWordSuccess("难", "nán", getEmptyProgress(), START).progress;
+  for (let i = 1; i <= times; i++) {
+    progress = updateWordFailure("难", "nán", progress, START + i * DAY_MS).progress;
+    progress = updateWordSuccess("难", "nán", progress, START + i * DAY_MS + 60_000).progress;
+  }
+  return progress;
+}
+
+describe("detectLeech", () => {
+  const threshold = DEFAULT_LEECH_CONFIG.lapseThreshold;
+
+  it("flags a word once its lapses within the window reach the threshold", () => {
+    const reviews = Array.from({ length: threshold }, (_, i) => lapse(START + i * DAY_MS));
+    const now = START + (threshold - 1) * DAY_MS;
+
+    expect(detectLeech(undefined, reviews.slice(1), now)).toBeUndefined();
+    expect(detectLeech(undefined, reviews, now)).toEqual({ detectedAt: now, remediatedAt: null });
+  });
+
+  it("ignores lapses outside the window", () => {
+    const reviews = Array.from({ length: threshold }, (_, i) => lapse(START + i * DAY_MS));
+    const now = START + (DEFAULT_LEECH_CONFIG.windowDays + 1) * DAY_MS;
+
+    expect(detectLeech(undefined, reviews, now)).toBeUndefined();
+  });
+
+  it("only counts lapses after the last remediation", () => {
+    const reviews = Array.from({ length: threshold }, (_, i) => lapse(START + i * DAY_MS));
+    const remediated = { detectedAt: START, remediatedAt: START + (threshold - 1) * DAY_MS };
+    const now = START + threshold * DAY_MS;
+
+    expect(detectLeech(remediated, [...reviews, lapse(now)], now)).toBe(remediated);
+  });
+});
+
+describe("leech remediation", () => {
+  it("flags a repeatedly failed word through updateWordFailure", () => {
+    const threshold = DEFAULT_LEECH_CONFIG.lapseThreshold;
+
+    expect(isLeech(forgetRepeatedly(threshold - 1).words["难"])).toBe(false);
+
+    const progress = forgetRepeatedly(threshold);
+    expect(needsRemediation(progress.words["难"])).toBe(true);
+    expect(getWordsNeedingRemediation(progress)).toEqual(["难"]);
+  });
+
+  it("returns a remediated word to rotation but keeps the flag", () => {
+    const remediatedAt = START + 30 * DAY_MS;
+    const progress = completeRemediation(
+      forgetRepeatedly(DEFAULT_LEECH_CONFIG.lapseThreshold),
+      "难",
+      remediatedAt
+    );
+
+    expect(progress.words["难"].leech?.remediatedAt).toBe(remediatedAt);
+    expect(isLeech(progress.words["难"])).toBe(true);
+    expect(getWordsNeedingRemediation(progress)).toEqual([]);
+  });
+
+  it("picks distinct example sentences for the word", () => {
+    const exercises = [
+      makeExercise(["难"]),
+      makeExercise(["很", "难"]),
+      makeExercise(["很", "难"]),
+      makeExercise(["不", "难"]),
+      makeExercise(["好"]),
+    ];
+
+    const examples = getExampleExercises("难", exercises, getEmptyProgress(), [], START, 5);
+    expect(examples.map((e) => e.english)).toEqual(["难", "很 难", "不 难"]);
+  });
+});
@@ -0,0 +1,89 @@
+import type { LeechState, StudentProgress, WordProgress, WordReview } from "./domain";
+import { countLapses } from "./review-log";
+
+/**
+ * Leeches are words the learner keeps forgetting: every lapse sends them back
+ * to the minimum interval, so they eat review time without sticking. Once
+ * flagged, a word goes through remediation (studied on its own with several
+ * example sentences) before it returns to normal rotation.
+ */
+
+export interface LeechConfig {
+  /** Lapses within the window that mark a word as a leech */
+  lapseThreshold: number;
+  windowDays: number;
+  /** Example sentences shown during remediation */
+  remediationExamples: number;
+}
+
+export const DEFAULT_LEECH_CONFIG: LeechConfig = {
+  lapseThreshold: 4,
+  windowDays: 30,
+  remediationExamples: 3,
+};
+
+/**
+ * Update a word's leech state after a review. Lapses before the last
+ * remediation don't count again, so a remediated word gets a fresh start.
+ */
+export function detectLeech(
+  current: LeechState | undefined,
+  reviews: WordReview[],
+  now: number,
+  config: LeechConfig = DEFAULT_LEECH_CONFIG
+): LeechState | undefined {
+  if (current && current.remediatedAt === null) return current;
+
+  const windowStart = now - config.windowDays * 24 * 60 * 60 * 1000;
+  const recent = reviews.filter(
+    (review) =>
+      review.reviewedAt >= windowStart &&
+      (current?.remediatedAt == null || review.reviewedAt > current.remediatedAt)
+  );
+
+  if (countLapses(recent) >= config.lapseThreshold) {
+    return { detectedAt: now, remediatedAt: null };
+  }
+  return current;
+}
+
+export function isLeech(progress: WordProgress | null | undefined): boolean {
+  return progress?.leech !== undefined;
+}
+
+export function needsRemediation(progress: WordProgress | null | undefined): boolean {
+  return progress?.leech !== undefined && progress.leech.remediatedAt === null;
+}
+
+/**
+ * Leeches awaiting remediation, longest waiting first
+ */
+export function getWordsNeedingRemediation(progress: StudentProgress): string[] {
+  return Object.values(progress.words)
+    .filter(needsRemediation)
+    .sort((a, b) => a.leech!.detectedAt - b.leech!.detectedAt)
+    .map((wp) => wp.word);
+}
+
+/**
+ * Return a remediated leech to normal rotation. It stays flagged as a leech.
+ */
+export function completeRemediation(
+  progress: StudentProgress,
+  word: string,
+  remediatedAt: number
+): StudentProgress {
+  const wordProgress = progress.words[word];
+  if (!wordProgress?.leech) return progress;
+
+  return {
+    ...progress,
+    words: {
+      ...progress.words,
+      [word]: {
+        ...wordProgress,
+        leech: { ...wordProgress.leech, remediatedAt },
+      },
+    },
+  };
+}
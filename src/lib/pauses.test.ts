@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import {
+  excludePausedTime,
+  getPausedMs,
+  isPaused,
+  pauseStudy,
+  resumeStudy,
+} from "./pauses";
+import { updateWordSuccess } from "./exercises";
+import { getStartOfLocalDay } from "./progress-metrics";
+import { getEmptyProgress } from "./storage";
+import type { StudentProgress, WordProgress } from "./domain";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOON = new Date(2026, 1, 11, 12).getTime();
+
+function word(name: string, lastReviewed: number, nextReview: number): WordProgress {
+  return {
+    word: name,
+    lastReviewed,
+    nextReview,
+    intervalSeconds: (nextReview - lastReviewed) / 1000,
+    consecutiveSuccesses: 2,
+  };
+}
+
+function makeProgress(words: WordProgress[]): StudentProgress {
+  return { ...getEmptyProgress(), words: Object.fromEntries(words.map((w) => [w.word, w])) };
+}
+
+describe("getPausedMs", () => {
+  it("counts only the paused time within the range", () => {
+    const pauses = [
+      { start: 0, end: 10 },
+      { start: 20, end: 30 },
+      { start: 40, end: null },
+    ];
+
+    expect(getPausedMs(pauses, 5, 25)).toBe(10);
+    expect(getPausedMs(pauses, 0, 50)).toBe(30);
+    expect(getPausedMs(pauses, 10, 20)).toBe(0);
+  });
+});
+
+describe("pauseStudy", () => {
+  it("starts a single pause", () => {
+    const paused = pauseStudy(makeProgress([]), NOON);
+
+    expect(isPaused(paused)).toBe(true);
+    expect(pauseStudy(paused, NOON + DAY_MS)).toBe(paused);
+    expect(paused.pauses).toEqual([{ start: NOON, end: null }]);
+  });
+});
+
+describe("resumeStudy", () => {
+  it("moves due dates out by the time paused", () => {
+    const progress = pauseStudy(
+      makeProgress([word("你", NOON - DAY_MS, NOON + 3 * DAY_MS)]),
+      NOON
+    );
+    const resumed = resumeStudy(progress, NOON + 10 * DAY_MS);
+
+    expect(isPaused(resumed)).toBe(false);
+    expect(resumed.pauses).toEqual([{ start: NOON, end: NOON + 10 * DAY_MS }]);
+    expect(resumed.words["你"].nextReview).toBe(NOON + 13 * DAY_MS);
+  });
+
+  it("spreads the due backlog over the following days, most overdue first", () => {
+    const words = ["一", "二", "三", "四", "五"].map((name, i) =>
+      word(name, NOON - 10 * DAY_MS, NOON - (5 - i) * DAY_MS)
+    );
+    const progress = pauseStudy(makeProgress(words), NOON - DAY_MS / 2);
+    const resumed = resumeStudy(progress, NOON, 2);
+    const today = getStartOfLocalDay(NOON);
+
+    // Each due date first moves out by the half day paused
+    expect(resumed.words["一"].nextReview).toBe(NOON - 4.5 * DAY_MS);
+    expect(resumed.words["二"].nextReview).toBe(NOON - 3.5 * DAY_MS);
+    expect(resumed.words["三"].nextReview).toBe(getStartOfLocalDay(today + DAY_MS + DAY_MS / 2));
+    expect(resumed.words["四"].nextReview).toBe(resumed.words["三"].nextReview);
+    expect(resumed.words["五"].nextReview).toBe(
+      getStartOfLocalDay(today + 2 * DAY_MS + DAY_MS / 2)
+    );
+  });
+
+  it("moves tone drill due dates out too", () => {
+    const progress = pauseStudy(
+      { ...makeProgress([]), toneWords: { 你: word("你", NOON - DAY_MS, NOON + DAY_MS) } },
+      NOON
+    );
+    const resumed = resumeStudy(progress, NOON + 10 * DAY_MS);
+
+    expect(resumed.toneWords["你"].nextReview).toBe(NOON + 11 * DAY_MS);
+  });
+
+  it("does nothing when study isn't paused", () => {
+    const progress = makeProgress([word("你", NOON - DAY_MS, NOON)]);
+    expect(resumeStudy(progress, NOON)).toBe(progress);
+  });
+});
+
+describe("excludePausedTime", () => {
+  it("doesn't count paused time as elapsed when reviewing", () => {
+    const learned = updateWordSuccess("你", "nǐ", makeProgress([]), NOON).progress;
+    const first = learned.words["你"];
+    const progress = resumeStudy(pauseStudy(learned, NOON + DAY_MS), NOON + 31 * DAY_MS);
+
+    expect(excludePausedTime(first, progress.pauses, NOON + 40 * DAY_MS).lastReviewed).toBe(
+      NOON + 30 * DAY_MS
+    );
+
+    const reviewedAt = progress.words["你"].nextReview;
+    const withPause = updateWordSuccess("你", "nǐ", progress, reviewedAt).progress;
+    const withoutPause = updateWordSuccess(
+      "你",
+      "nǐ",
+      { ...learned, words: { 你: { ...first, lastReviewed: first.lastReviewed + 30 * DAY_MS } } },
+      reviewedAt
+    ).progress;
+
+    expect(withPause.words["你"].intervalSeconds).toBe(withoutPause.words["你"].intervalSeconds);
+  });
+});
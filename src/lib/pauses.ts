@@ -0,0 +1,115 @@
+import type { PauseWindow, StudentProgress, WordProgress } from "./domain";
+import { getStartOfLocalDay } from "./progress-metrics";
+
+/**
+ * Vacation mode. While study is paused every word's clock is frozen: on
+ * resume, due dates move out by the paused time, and paused time never counts
+ * as elapsed time when a word is next reviewed. Words that were already due
+ * when the learner resumes are spread over the following days.
+ */
+
+/** Backlog reviews left due on each day after a pause, without a daily review limit */
+export const DEFAULT_BACKLOG_REVIEWS_PER_DAY = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function getActivePause(progress: StudentProgress): PauseWindow | null {
+  const last = progress.pauses.at(-1);
+  return last && last.end === null ? last : null;
+}
+
+export function isPaused(progress: StudentProgress): boolean {
+  return getActivePause(progress) !== null;
+}
+
+/**
+ * Milliseconds between `from` and `to` that fall within a pause. Ongoing
+ * pauses extend to `to`.
+ */
+export function getPausedMs(pauses: PauseWindow[], from: number, to: number): number {
+  let paused = 0;
+  for (const pause of pauses) {
+    const start = Math.max(pause.start, from);
+    const end = Math.min(pause.end ?? to, to);
+    if (end > start) paused += end - start;
+  }
+  return paused;
+}
+
+/**
+ * The word as the scheduler should see it at `now`: last reviewed later by
+ * the time paused since, so paused time doesn't count as elapsed.
+ */
+export function excludePausedTime(
+  wordProgress: WordProgress,
+  pauses: PauseWindow[],
+  now: number
+): WordProgress {
+  const paused = getPausedMs(pauses, wordProgress.lastReviewed, now);
+  if (paused === 0) return wordProgress;
+  return { ...wordProgress, lastReviewed: wordProgress.lastReviewed + paused };
+}
+
+/**
+ * Start a pause now. Does nothing when study is already paused.
+ */
+export function pauseStudy(progress: StudentProgress, now: number): StudentProgress {
+  if (isPaused(progress)) return progress;
+  return { ...progress, pauses: [...progress.pauses, { start: now, end: null }] };
+}
+
+/**
+ * Push each due date out by the time since the word's last review that fell
+ * within the pause
+ */
+function shiftDueDates(
+  words: Record<string, WordProgress>,
+  pause: PauseWindow,
+  now: number
+): Record<string, WordProgress> {
+  const shifted: Record<string, WordProgress> = {};
+  for (const [word, wordProgress] of Object.entries(words)) {
+    const paused = getPausedMs([pause], wordProgress.lastReviewed, now);
+    shifted[word] =
+      paused === 0 ? wordProgress : { ...wordProgress, nextReview: wordProgress.nextReview + paused };
+  }
+  return shifted;
+}
+
+/**
+ * End the ongoing pause: push every word's due date out by the time it spent
+ * paused, tone drills included, then spread the words that are due over the
+ * following days, the most overdue first.
+ */
+export function resumeStudy(
+  progress: StudentProgress,
+  now: number,
+  backlogPerDay: number = DEFAULT_BACKLOG_REVIEWS_PER_DAY
+): StudentProgress {
+  const pause = getActivePause(progress);
+  if (!pause) return progress;
+
+  const ended: PauseWindow = { start: pause.start, end: now };
+  const words = shiftDueDates(progress.words, ended, now);
+
+  const backlog = Object.values(words)
+    .filter((wp) => wp.nextReview <= now)
+    .sort((a, b) => a.nextReview - b.nextReview);
+  const today = getStartOfLocalDay(now);
+  backlog.forEach((wordProgress, i) => {
+    const day = Math.floor(i / Math.max(1, backlogPerDay));
+    if (day === 0) return;
+    // Midday keeps the offset on the right date across daylight saving changes
+    words[wordProgress.word] = {
+      ...wordProgress,
+      nextReview: getStartOfLocalDay(today + day * DAY_MS + DAY_MS / 2),
+    };
+  });
+
+  return {
+    ...progress,
+    words,
+    toneWords: shiftDueDates(progress.toneWords, ended, now),
+    pauses: [...progress.pauses.slice(0, -1), ended],
+  };
+}
@@ -1,11 +1,29 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { decode } from "cbor-x";
+import { decompress } from "fzstd";
 import { describe, it, expect } from "vitest";
 import {
   applyToneToSyllable,
+  comparePinyin,
+  findInvalidSyllables,
   findToneVowelIndex,
   findFirstUntonedSyllable,
+  fromNumberedPinyin,
+  fromZhuyin,
+  getCitationPinyin,
+  getSpokenPinyin,
+  getSyllableTone,
+  isValidSyllable,
+  mapSyllables,
+  normalizePinyin,
   processPinyinInput,
   removeLastTone,
+  removeTones,
   simulateTyping,
+  splitSyllables,
+  toNumberedPinyin,
+  toZhuyin,
 } from "./pinyin";
 
 describe("applyToneToSyllable", () => {
@@ -176,3 +194,216 @@ describe("simulateTyping", () => {
     expect(simulateTyping("lve4")).toBe("lüè");
   });
 });
+
+describe("splitSyllables", () => {
+  it("splits words into syllables", () => {
+    expect(splitSyllables("nǚháir")).toEqual(["nǚ", "háir"]);
+    expect(splitSyllables("xuésheng")).toEqual(["xué", "sheng"]);
+    expect(splitSyllables("Nǐ hǎo!")).toEqual(["Nǐ", "hǎo"]);
+  });
+});
+
+describe("getSyllableTone", () => {
+  it("reads the tone mark, or 5 for the neutral tone", () => {
+    expect(getSyllableTone("mā")).toBe(1);
+    expect(getSyllableTone("Lǚ")).toBe(3);
+    expect(getSyllableTone("mei")).toBe(5);
+  });
+});
+
+describe("mapSyllables", () => {
+  it("rewrites syllables and keeps what separates them", () => {
+    expect(mapSyllables("Nǐ hǎo, xiǎojiě!", (syllable) => syllable.toUpperCase())).toBe(
+      "NǏ HǍO, XIǍOJIĚ!"
+    );
+  });
+});
+
+describe("getSpokenPinyin", () => {
+  const spoken = (...segments: [string, string][]) =>
+    getSpokenPinyin(segments.map(([chinese, pinyin]) => ({ chinese, pinyin })));
+
+  it("turns a third tone before another third tone into a second tone", () => {
+    expect(spoken(["你好", "nǐ hǎo"])).toEqual(["ní hǎo"]);
+    expect(spoken(["我", "wǒ"], ["很", "hěn"], ["好", "hǎo"])).toEqual(["wó", "hén", "hǎo"]);
+  });
+
+  it("doesn't apply sandhi across punctuation", () => {
+    expect(spoken(["好", "hǎo"], ["，", ","], ["我", "wǒ"], ["也", "yě"])).toEqual([
+      "hǎo",
+      ",",
+      "wó",
+      "yě",
+    ]);
+  });
+
+  it("changes 不 before a fourth tone", () => {
+    expect(spoken(["不是", "bùshì"])).toEqual(["búshì"]);
+    expect(spoken(["不", "bù"], ["好", "hǎo"])).toEqual(["bù", "hǎo"]);
+    expect(spoken(["对不起", "duìbuqǐ"])).toEqual(["duìbuqǐ"]);
+  });
+
+  it("changes 一 by the tone that follows", () => {
+    expect(spoken(["一个", "yīgè"])).toEqual(["yígè"]);
+    expect(spoken(["一起", "yīqǐ"])).toEqual(["yìqǐ"]);
+    expect(spoken(["一下", "yíxià"])).toEqual(["yíxià"]);
+    expect(spoken(["第一次", "dìyīcì"])).toEqual(["dìyīcì"]);
+    expect(spoken(["十一", "shíyī"])).toEqual(["shíyī"]);
+  });
+});
+
+describe("getCitationPinyin", () => {
+  it("gives 一 and 不 their dictionary tones", () => {
+    expect(getCitationPinyin([{ chinese: "一样", pinyin: "yíyàng" }])).toEqual(["yīyàng"]);
+    expect(getCitationPinyin([{ chinese: "不是", pinyin: "búshì" }])).toEqual(["bùshì"]);
+  });
+});
+
+describe("numbered pinyin", () => {
+  it("converts tone marks to numbers, 5 for the neutral tone", () => {
+    expect(toNumberedPinyin("xuésheng")).toBe("xue2sheng5");
+    expect(toNumberedPinyin("Nǐ hǎo!")).toBe("Ni3 hao3!");
+  });
+
+  it("converts numbers back to tone marks", () => {
+    expect(fromNumberedPinyin("xue2sheng5")).toBe("xuésheng");
+    expect(fromNumberedPinyin("lv4se4 nu:3er2")).toBe("lǜsè nǚér");
+    expect(fromNumberedPinyin("ma0")).toBe("ma");
+  });
+});
+
+describe("zhuyin", () => {
+  const pairs: [string, string][] = [
+    ["xuésheng", "ㄒㄩㄝˊ˙ㄕㄥ"],
+    ["zhīdào", "ㄓㄉㄠˋ"],
+    ["yǒngyuǎn", "ㄩㄥˇㄩㄢˇ"],
+    ["wēng", "ㄨㄥ"],
+    ["jiǒng", "ㄐㄩㄥˇ"],
+    ["duìbuqǐ", "ㄉㄨㄟˋ˙ㄅㄨㄑㄧˇ"],
+    ["nǚháir", "ㄋㄩˇㄏㄞˊㄦ"],
+    ["èr", "ㄦˋ"],
+    ["qù", "ㄑㄩˋ"],
+    ["jiǔ", "ㄐㄧㄡˇ"],
+    ["chūn", "ㄔㄨㄣ"],
+  ];
+
+  it("converts pinyin to zhuyin", () => {
+    for (const [pinyin, zhuyin] of pairs) expect(toZhuyin(pinyin)).toBe(zhuyin);
+  });
+
+  it("converts zhuyin back to pinyin", () => {
+    for (const [pinyin, zhuyin] of pairs) expect(fromZhuyin(zhuyin)).toBe(pinyin);
+  });
+
+  it("keeps text that isn't pinyin or zhuyin", () => {
+    expect(toZhuyin("nǐ, hǎo")).toBe("ㄋㄧˇ, ㄏㄠˇ");
+    expect(fromZhuyin("ㄋㄧˇ, ㄏㄠˇ")).toBe("nǐ, hǎo");
+  });
+});
+
+describe("isValidSyllable", () => {
+  it("accepts Mandarin syllables with or without tones", () => {
+    expect(isValidSyllable("xué")).toBe(true);
+    expect(isValidSyllable("lv")).toBe(true);
+    expect(isValidSyllable("huār")).toBe(true);
+    expect(isValidSyllable("xeu")).toBe(false);
+    expect(isValidSyllable("bü")).toBe(false);
+  });
+});
+
+describe("findInvalidSyllables", () => {
+  it("flags impossible syllables but not ones still being typed", () => {
+    expect(findInvalidSyllables("xeu")).toEqual(["xeu"]);
+    expect(findInvalidSyllables("nǐ zh")).toEqual([]);
+    expect(findInvalidSyllables("nǐhǎo")).toEqual([]);
+  });
+});
+
+describe("comparePinyin", () => {
+  it("classifies how an answer differs", () => {
+    expect(comparePinyin("nǐ hǎo", "nǐhǎo")).toBeNull();
+    expect(comparePinyin("nǐhào", "nǐhǎo")).toBe("tone");
+    expect(comparePinyin("nǐgǎo", "nǐhǎo")).toBe("initial");
+    expect(comparePinyin("nǐhǒu", "nǐhǎo")).toBe("final");
+    expect(comparePinyin("nǐmen", "nǐhǎo")).toBe("syllable");
+    expect(comparePinyin("nǐ", "nǐhǎo")).toBe("missing-syllable");
+    expect(comparePinyin("nǐhǎoma", "nǐhǎo")).toBe("extra-syllable");
+  });
+});
+
+describe("neutral tones and syllable separators", () => {
+  it("marks a syllable neutral with 5 so later tones skip it", () => {
+    expect(simulateTyping("dui4bu5qi3")).toBe("duì·buqǐ");
+    expect(simulateTyping("ma5")).toBe("·ma");
+    expect(simulateTyping("ma54")).toBe("mà");
+    expect(simulateTyping("ma45")).toBe("·ma");
+  });
+
+  it("keeps tone numbers working across apostrophes", () => {
+    expect(simulateTyping("xi1'an1")).toBe("xī'ān");
+    expect(simulateTyping("xi'an11")).toBe("xī'ān");
+  });
+
+  it("ignores neutral marks and apostrophes when comparing", () => {
+    expect(normalizePinyin("duì·buqǐ")).toBe("duìbuqǐ");
+    expect(normalizePinyin("Xī'ān")).toBe("xīān");
+  });
+
+  it("splits erhua after nasal finals and between two tone marks", () => {
+    expect(splitSyllables("yìdiǎnr")).toEqual(["yì", "diǎnr"]);
+    expect(splitSyllables("hǎowánr")).toEqual(["hǎo", "wánr"]);
+    expect(splitSyllables("nánrén")).toEqual(["nán", "rén"]);
+    expect(splitSyllables("dìèr")).toEqual(["dì", "èr"]);
+  });
+});
+
+describe("HSK 1 pinyin", () => {
+  const compressed = readFileSync(join(process.cwd(), "public/HSK-1.cbor.zstd"));
+  const exercises = decode(decompress(new Uint8Array(compressed))) as {
+    segments: { chinese: string; pinyin: string }[];
+  }[];
+  // Loanwords like "WiFi" are written in Latin letters, not pinyin
+  const pinyin = [
+    ...new Set(
+      exercises.flatMap((exercise) =>
+        exercise.segments
+          .filter((segment) => segment.pinyin && /\p{Script=Han}/u.test(segment.chinese))
+          .map((segment) => segment.pinyin)
+      )
+    ),
+  ];
+
+  // How a learner would type the pinyin: toneless syllables followed by
+  // their tone number, with an apostrophe before a vowel-initial syllable
+  function toTyped(text: string): string {
+    return splitSyllables(text)
+      .map((syllable, idx) => {
+        const base = removeTones(syllable).toLowerCase().replace(/ü/g, "v");
+        const separator = idx > 0 && /^[aeo]/.test(base) ? "'" : "";
+        return separator + base + getSyllableTone(syllable);
+      })
+      .join("");
+  }
+
+  it("splits into valid syllables", () => {
+    expect(pinyin.length).toBeGreaterThan(0);
+    const invalid = pinyin.filter((text) => findInvalidSyllables(text).length > 0);
+    expect(invalid).toEqual([]);
+  });
+
+  it("round-trips through typed tone numbers", () => {
+    const mismatched = pinyin.filter(
+      (text) => normalizePinyin(simulateTyping(toTyped(text))) !== normalizePinyin(text)
+    );
+    expect(mismatched).toEqual([]);
+  });
+
+  it("round-trips through numbered pinyin and zhuyin", () => {
+    const mismatched = pinyin.filter(
+      (text) =>
+        normalizePinyin(fromNumberedPinyin(toNumberedPinyin(text))) !== normalizePinyin(text) ||
+        normalizePinyin(fromZhuyin(toZhuyin(text))) !== normalizePinyin(text)
+    );
+    expect(mismatched).toEqual([]);
+  });
+});
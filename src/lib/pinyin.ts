@@ -163,6 +163,10 @@ function parseSyllableEnd(sequence: string, startPos: number): number {
   // Collect vowels
   const vowelStart = i;
   while (i < sequence.length && isVowel(sequence[i])) {
+    // A second tone mark starts a new syllable (dìèr is dì|èr)
+    if (i > vowelStart && isTonedVowel(sequence[i]) && syllableHasTone(sequence.slice(vowelStart, i))) {
+      break;
+    }
     // Special rule: after 'n' + 'ü', don't continue to 'e' (nü|e, not nüe)
     // But after 'l' + 'ü', DO continue to 'e' (lüe is valid)
     if (i > vowelStart) {
@@ -182,6 +186,7 @@ function parseSyllableEnd(sequence: string, startPos: number): number {
   }
 
   // Check for 'n' or 'ng' or 'r' as syllable finals
+  const vowelEnd = i;
   if (i < sequence.length) {
     if (sequence[i] === "n" || sequence[i] === "N") {
       if (
@@ -206,6 +211,16 @@ function parseSyllableEnd(sequence: string, startPos: number): number {
     }
   }
 
+  // Erhua after a nasal final: yìdiǎnr, kòngr (but nánrén is nán|rén)
+  if (
+    i > vowelEnd &&
+    i < sequence.length &&
+    (sequence[i] === "r" || sequence[i] === "R") &&
+    !isVowel(sequence[i + 1] ?? "")
+  ) {
+    i++;
+  }
+
   return i;
 }
 
@@ -219,6 +234,14 @@ function syllableHasTone(syllable: string): boolean {
   return false;
 }
 
+// Marks a syllable typed as neutral tone, so later tone numbers skip it
+export const NEUTRAL_TONE_MARK = "·";
+
+// Apostrophes split syllables (xī'ān) without ending the pinyin sequence
+function isSyllableSeparator(char: string): boolean {
+  return char === "'" || char === "’" || char === NEUTRAL_TONE_MARK;
+}
+
 // Find the first untoned vowel group in a pinyin sequence
 // Scans left to right to find the first vowel cluster without a tone mark
 // If all syllables have tones, returns the last syllable (for replacement)
@@ -228,18 +251,27 @@ export function findFirstUntonedSyllable(
 ): { start: number; end: number; syllable: string; replacing: boolean } {
   // First, find the start of the pinyin sequence (going backwards from cursor)
   let seqStart = cursorPos;
-  while (seqStart > 0 && isPinyinChar(text[seqStart - 1])) {
+  while (
+    seqStart > 0 &&
+    (isPinyinChar(text[seqStart - 1]) || isSyllableSeparator(text[seqStart - 1]))
+  ) {
     seqStart--;
   }
 
   const sequence = text.slice(seqStart, cursorPos);
 
-  // Collect all syllables
-  const syllables: { start: number; end: number; syllable: string }[] = [];
+  // Collect all syllables; a neutral syllable keeps its leading mark so a
+  // later tone number can replace it
+  const syllables: { start: number; end: number; syllable: string; neutral: boolean }[] = [];
 
   let i = 0;
   while (i < sequence.length) {
-    const syllableStart = i;
+    let neutral = false;
+    while (i < sequence.length && isSyllableSeparator(sequence[i])) {
+      neutral = sequence[i] === NEUTRAL_TONE_MARK;
+      i++;
+    }
+    const syllableStart = neutral ? i - 1 : i;
 
     // Skip leading consonants
     while (i < sequence.length && !isVowel(sequence[i])) {
@@ -250,7 +282,7 @@ export function findFirstUntonedSyllable(
       break;
     }
 
-    const syllableEnd = parseSyllableEnd(sequence, syllableStart);
+    const syllableEnd = parseSyllableEnd(sequence, neutral ? syllableStart + 1 : syllableStart);
     const syllable = sequence.slice(syllableStart, syllableEnd);
     i = syllableEnd;
 
@@ -258,12 +290,13 @@ export function findFirstUntonedSyllable(
       start: seqStart + syllableStart,
       end: seqStart + syllableEnd,
       syllable,
+      neutral,
     });
   }
 
   // First pass: find an untoned syllable
   for (const syl of syllables) {
-    if (!syllableHasTone(syl.syllable)) {
+    if (!syl.neutral && !syllableHasTone(syl.syllable)) {
       return { ...syl, replacing: false };
     }
   }
@@ -283,7 +316,8 @@ export function findFirstUntonedSyllable(
   };
 }
 
-// Process pinyin input - apply tone when a number 1-4 is typed
+// Process pinyin input - apply tone when a number 1-4 is typed, and mark the
+// syllable neutral for 5
 export function processPinyinInput(
   text: string,
   cursorPos: number,
@@ -306,8 +340,13 @@ export function processPinyinInput(
   }
 
   // If replacing an existing tone, first remove the old tone
-  const baseSyllable = replacing ? removeToneFromSyllable(syllable) : syllable;
-  const tonedSyllable = applyToneToSyllable(baseSyllable, toneNumber);
+  const baseSyllable = replacing
+    ? removeToneFromSyllable(syllable).replace(NEUTRAL_TONE_MARK, "")
+    : syllable;
+  const tonedSyllable =
+    toneNumber === 5
+      ? NEUTRAL_TONE_MARK + baseSyllable
+      : applyToneToSyllable(baseSyllable, toneNumber);
   const newText = text.slice(0, start) + tonedSyllable + text.slice(end);
 
   // Cursor position adjusts based on how much text changed
@@ -323,7 +362,7 @@ export function simulateTyping(input: string): string {
   let cursorPos = 0;
 
   for (const char of input) {
-    if (/^[0-4]$/.test(char)) {
+    if (/^[0-5]$/.test(char)) {
       // It's a tone number
       const result = processPinyinInput(text, cursorPos, parseInt(char, 10));
       text = result.newText;
@@ -365,7 +404,432 @@ export function simulateTyping(input: string): string {
   return text;
 }
 
-// Normalize pinyin for comparison (lowercase, remove spaces)
+// Rewrite each syllable of a pinyin string, keeping the spaces and
+// punctuation between them
+export function mapSyllables(pinyin: string, rewrite: (syllable: string) => string): string {
+  let result = "";
+  let i = 0;
+
+  while (i < pinyin.length) {
+    if (!isPinyinChar(pinyin[i])) {
+      result += pinyin[i++];
+      continue;
+    }
+    let wordEnd = i;
+    while (wordEnd < pinyin.length && isPinyinChar(pinyin[wordEnd])) wordEnd++;
+    const word = pinyin.slice(i, wordEnd);
+    let j = 0;
+    while (j < word.length) {
+      const end = parseSyllableEnd(word, j);
+      result += rewrite(word.slice(j, end));
+      j = end;
+    }
+    i = wordEnd;
+  }
+
+  return result;
+}
+
+// Split pinyin into syllables, e.g. "nǚháir" → ["nǚ", "háir"]. Anything that
+// isn't a pinyin letter (spaces, punctuation) separates syllables.
+export function splitSyllables(pinyin: string): string[] {
+  const syllables: string[] = [];
+  mapSyllables(pinyin, (syllable) => {
+    syllables.push(syllable);
+    return syllable;
+  });
+  return syllables;
+}
+
+// Tone of a syllable from its tone mark: 1-4, or 5 when unmarked (neutral tone)
+export function getSyllableTone(syllable: string): number {
+  for (const char of syllable) {
+    const info = tonedVowelMap[char] ?? tonedVowelMap[char.toLowerCase()];
+    if (info) return info.tone;
+  }
+  return 5;
+}
+
+// Remove all tone marks from a pinyin string
+export function removeTones(text: string): string {
+  return removeToneFromSyllable(text);
+}
+
+// Count the tone-marked vowels in a pinyin string
+export function countToneMarks(text: string): number {
+  return [...text].filter(isTonedVowel).length;
+}
+
+// Normalize pinyin for comparison (lowercase, remove spaces, syllable
+// apostrophes and neutral tone marks)
 export function normalizePinyin(pinyin: string): string {
-  return pinyin.toLowerCase().replace(/\s+/g, "");
+  return pinyin.toLowerCase().replace(/[\s'’·]+/g, "");
+}
+
+// Give a syllable a tone, 5 being the neutral tone (no mark)
+export function setSyllableTone(syllable: string, tone: number): string {
+  const toneless = removeTones(syllable);
+  return tone === 5 ? toneless : applyToneToSyllable(toneless, tone);
+}
+
+// A syllable of a sentence with the character it is read from, when the
+// segment's characters and syllables line up one to one
+interface SentenceSyllable {
+  character: string | null;
+  tone: number;
+  // Punctuation or the end of the sentence follows
+  isLastInPhrase: boolean;
+}
+
+const HAN_CHARACTER = /\p{Script=Han}/u;
+
+function getSentenceSyllables(segments: { chinese: string; pinyin: string }[]): SentenceSyllable[] {
+  const syllables: SentenceSyllable[] = [];
+
+  for (const segment of segments) {
+    const segmentSyllables = splitSyllables(segment.pinyin);
+    if (segmentSyllables.length === 0) {
+      const last = syllables.at(-1);
+      if (last) last.isLastInPhrase = true;
+      continue;
+    }
+    const characters = [...segment.chinese].filter((char) => HAN_CHARACTER.test(char));
+    const isAligned = characters.length === segmentSyllables.length;
+    segmentSyllables.forEach((syllable, i) => {
+      syllables.push({
+        character: isAligned ? characters[i] : null,
+        tone: getSyllableTone(syllable),
+        isLastInPhrase: false,
+      });
+    });
+  }
+
+  const last = syllables.at(-1);
+  if (last) last.isLastInPhrase = true;
+  return syllables;
+}
+
+// Rewrite the syllables of each segment with new tones, in sentence order
+function retoneSegments(segments: { pinyin: string }[], tones: number[]): string[] {
+  let index = 0;
+  return segments.map((segment) =>
+    mapSyllables(segment.pinyin, (syllable) => setSyllableTone(syllable, tones[index++]))
+  );
+}
+
+// Dictionary tones of 一 and 不, which are sometimes written as spoken
+function getCitationTones(syllables: SentenceSyllable[]): number[] {
+  return syllables.map(({ character, tone }) => {
+    if (character === "一" && (tone === 2 || tone === 4)) return 1;
+    if (character === "不" && tone === 2) return 4;
+    return tone;
+  });
+}
+
+// Pinyin of each segment of a sentence with 一 and 不 in their dictionary
+// tones, e.g. "yígè" → "yīgè"
+export function getCitationPinyin(segments: { chinese: string; pinyin: string }[]): string[] {
+  return retoneSegments(segments, getCitationTones(getSentenceSyllables(segments)));
+}
+
+// Pinyin of each segment of a sentence with the tones as spoken after tone
+// sandhi:
+//   - a third tone before another third tone becomes second (nǐ hǎo → ní hǎo)
+//   - 不 before a fourth tone becomes second (bù shì → bú shì)
+//   - 一 becomes second before a fourth tone and fourth before the others
+//     (yī gè → yí gè, yī qǐ → yì qǐ), except as an ordinal or on its own
+// Sandhi applies across segments but not across punctuation. 一 and 不 are only
+// recognised when the segment has one character per syllable.
+export function getSpokenPinyin(segments: { chinese: string; pinyin: string }[]): string[] {
+  const syllables = getSentenceSyllables(segments);
+  const citation = getCitationTones(syllables);
+
+  const spoken = syllables.map((syllable, i) => {
+    const tone = citation[i];
+    const next = syllable.isLastInPhrase ? null : citation[i + 1];
+    if (next === null || next === 5) return tone;
+
+    if (syllable.character === "一" && tone === 1) {
+      if (syllables[i - 1]?.character === "第") return tone;
+      return next === 4 ? 2 : 4;
+    }
+    if (syllable.character === "不" && tone === 4) return next === 4 ? 2 : tone;
+    if (tone === 3 && next === 3) return 2;
+    return tone;
+  });
+
+  return retoneSegments(segments, spoken);
+}
+
+// Answer formats: tone-marked pinyin (xuésheng), numbered pinyin (xue2sheng5)
+// and zhuyin, also called bopomofo (ㄒㄩㄝˊ˙ㄕㄥ)
+export type PinyinFormat = "tone-marks" | "numbered" | "zhuyin";
+
+// Numbered pinyin, 5 marking the neutral tone: "xuésheng" → "xue2sheng5"
+export function toNumberedPinyin(pinyin: string): string {
+  return mapSyllables(pinyin, (syllable) => `${removeTones(syllable)}${getSyllableTone(syllable)}`);
+}
+
+// Tone-marked pinyin from numbered pinyin. v or u: stand for ü, and 5 or 0
+// for the neutral tone: "lv3 xue2sheng5" → "lǚ xuésheng"
+export function fromNumberedPinyin(numbered: string): string {
+  return numbered
+    .replace(/u:/gi, (match) => (match[0] === "U" ? "Ü" : "ü"))
+    .replace(/([a-zü]+)([0-5])/gi, (_, letters: string, digit: string) => {
+      const syllable = letters.replace(/v/g, "ü").replace(/V/g, "Ü");
+      const tone = parseInt(digit, 10);
+      return tone === 0 || tone === 5 ? syllable : applyToneToSyllable(syllable, tone);
+    });
+}
+
+const ZHUYIN_INITIALS: Record<string, string> = {
+  b: "ㄅ", p: "ㄆ", m: "ㄇ", f: "ㄈ", d: "ㄉ", t: "ㄊ", n: "ㄋ", l: "ㄌ",
+  g: "ㄍ", k: "ㄎ", h: "ㄏ", j: "ㄐ", q: "ㄑ", x: "ㄒ",
+  zh: "ㄓ", ch: "ㄔ", sh: "ㄕ", r: "ㄖ", z: "ㄗ", c: "ㄘ", s: "ㄙ",
+};
+
+// Finals in their full form, as spelled after an initial but before the
+// iou → iu, uei → ui and uen → un contractions
+const ZHUYIN_FINALS: Record<string, string> = {
+  "": "",
+  a: "ㄚ", o: "ㄛ", e: "ㄜ", ê: "ㄝ", ai: "ㄞ", ei: "ㄟ", ao: "ㄠ", ou: "ㄡ",
+  an: "ㄢ", en: "ㄣ", ang: "ㄤ", eng: "ㄥ", ong: "ㄨㄥ", er: "ㄦ",
+  i: "ㄧ", ia: "ㄧㄚ", io: "ㄧㄛ", ie: "ㄧㄝ", iao: "ㄧㄠ", iou: "ㄧㄡ", ian: "ㄧㄢ",
+  in: "ㄧㄣ", iang: "ㄧㄤ", ing: "ㄧㄥ", iong: "ㄩㄥ",
+  u: "ㄨ", ua: "ㄨㄚ", uo: "ㄨㄛ", uai: "ㄨㄞ", uei: "ㄨㄟ", uan: "ㄨㄢ", uen: "ㄨㄣ",
+  uang: "ㄨㄤ", ueng: "ㄨㄥ",
+  ü: "ㄩ", üe: "ㄩㄝ", üan: "ㄩㄢ", ün: "ㄩㄣ",
+};
+
+// Tone marks written after the syllable; the neutral tone's ˙ goes before it
+const ZHUYIN_TONES = ["", "", "ˊ", "ˇ", "ˋ", "˙"];
+
+// Initials whose bare syllable (zhi, ci, ...) has no final in zhuyin
+const BARE_SYLLABLE_INITIALS = new Set(["zh", "ch", "sh", "r", "z", "c", "s"]);
+
+// Split a toneless, lowercase syllable into its initial and full final, or
+// null when it isn't standard pinyin
+function parsePinyinSyllable(syllable: string): { initial: string; final: string } | null {
+  let initial = "";
+  let final = syllable;
+
+  if (syllable.startsWith("y")) {
+    const rest = syllable.slice(1);
+    if (rest.startsWith("u")) final = `ü${rest.slice(1)}`;
+    else final = rest.startsWith("i") ? rest : `i${rest}`;
+  } else if (syllable.startsWith("w")) {
+    const rest = syllable.slice(1);
+    final = rest.startsWith("u") ? rest : `u${rest}`;
+  } else {
+    initial = ["zh", "ch", "sh"].find((prefix) => syllable.startsWith(prefix)) ?? "";
+    if (!initial && ZHUYIN_INITIALS[syllable[0]]) initial = syllable[0];
+    final = syllable.slice(initial.length);
+
+    if (initial && "jqx".includes(initial) && final.startsWith("u")) final = `ü${final.slice(1)}`;
+    if (BARE_SYLLABLE_INITIALS.has(initial) && final === "i") final = "";
+    else if (initial && final === "iu") final = "iou";
+    else if (initial && final === "ui") final = "uei";
+    else if (initial && final === "un") final = "uen";
+  }
+
+  final = final.replace(/v/g, "ü");
+  if (final === "" && !BARE_SYLLABLE_INITIALS.has(initial)) return null;
+  return final in ZHUYIN_FINALS ? { initial, final } : null;
+}
+
+// Zhuyin of one tone-marked pinyin syllable; erhua (háir) gets a trailing ㄦ
+function syllableToZhuyin(syllable: string): string {
+  const tone = getSyllableTone(syllable);
+  let toneless = removeTones(syllable).toLowerCase();
+  let erhua = "";
+  if (toneless.length > 2 && toneless.endsWith("r") && !parsePinyinSyllable(toneless)) {
+    toneless = toneless.slice(0, -1);
+    erhua = "ㄦ";
+  }
+
+  const parsed = parsePinyinSyllable(toneless);
+  if (!parsed) return syllable;
+  const zhuyin = `${ZHUYIN_INITIALS[parsed.initial] ?? ""}${ZHUYIN_FINALS[parsed.final]}`;
+  return tone === 5 ? `˙${zhuyin}${erhua}` : `${zhuyin}${ZHUYIN_TONES[tone]}${erhua}`;
+}
+
+// Zhuyin of tone-marked pinyin: "xuésheng" → "ㄒㄩㄝˊ˙ㄕㄥ". Syllables that
+// aren't standard pinyin are left as they are.
+export function toZhuyin(pinyin: string): string {
+  return mapSyllables(pinyin, syllableToZhuyin);
+}
+
+const PINYIN_INITIALS = Object.fromEntries(
+  Object.entries(ZHUYIN_INITIALS).map(([pinyin, zhuyin]) => [zhuyin, pinyin])
+);
+
+// Full finals by zhuyin; ㄨㄥ is read as ong after an initial and weng alone
+const PINYIN_FINALS: Record<string, string> = Object.fromEntries(
+  Object.entries(ZHUYIN_FINALS)
+    .filter(([pinyin]) => pinyin !== "ong")
+    .map(([pinyin, zhuyin]) => [zhuyin, pinyin])
+);
+
+// Pinyin spelling of a final without an initial
+const STANDALONE_FINALS: Record<string, string> = {
+  i: "yi", ia: "ya", io: "yo", ie: "ye", iao: "yao", iou: "you", ian: "yan",
+  in: "yin", iang: "yang", ing: "ying", iong: "yong",
+  u: "wu", ua: "wa", uo: "wo", uai: "wai", uei: "wei", uan: "wan", uen: "wen",
+  uang: "wang", ueng: "weng",
+  ü: "yu", üe: "yue", üan: "yuan", ün: "yun",
+};
+
+function zhuyinSyllableToPinyin(
+  initialSymbol: string,
+  finalSymbols: string,
+  tone: number,
+  erhua: boolean
+): string | null {
+  const initial = PINYIN_INITIALS[initialSymbol] ?? "";
+  let final = PINYIN_FINALS[finalSymbols];
+  if (final === undefined) return null;
+
+  if (!initial) {
+    final = STANDALONE_FINALS[final] ?? final;
+  } else if (final === "") {
+    if (!BARE_SYLLABLE_INITIALS.has(initial)) return null;
+    final = "i";
+  } else if (final === "ueng") {
+    final = "ong";
+  } else if (final === "iou" || final === "uei" || final === "uen") {
+    final = { iou: "iu", uei: "ui", uen: "un" }[final];
+  } else if ("jqx".includes(initial) && final.startsWith("ü")) {
+    final = `u${final.slice(1)}`;
+  }
+
+  const syllable = `${initial}${final}`;
+  return `${tone === 5 ? syllable : applyToneToSyllable(syllable, tone)}${erhua ? "r" : ""}`;
+}
+
+// An optional neutral tone dot, initial, medial, rhyme and tone mark, then ㄦ
+// for erhua unless it carries a tone of its own
+const ZHUYIN_SYLLABLE =
+  /(˙?)([ㄅㄆㄇㄈㄉㄊㄋㄌㄍㄎㄏㄐㄑㄒㄓㄔㄕㄖㄗㄘㄙ]?)([ㄧㄨㄩ]?[ㄚㄛㄜㄝㄞㄟㄠㄡㄢㄣㄤㄥㄦ]?)([ˊˇˋ]?)(ㄦ(?![ˊˇˋ]))?/gu;
+
+// Tone-marked pinyin of zhuyin: "ㄒㄩㄝˊ˙ㄕㄥ" → "xuésheng". Other text is kept.
+export function fromZhuyin(zhuyin: string): string {
+  return zhuyin.replace(
+    ZHUYIN_SYLLABLE,
+    (match, neutral: string, initial: string, final: string, toneMark: string, erhua?: string) => {
+      if (!initial && !final) return match;
+      const tone = neutral ? 5 : toneMark ? ZHUYIN_TONES.indexOf(toneMark) : 1;
+      return zhuyinSyllableToPinyin(initial, final, tone, Boolean(erhua)) ?? match;
+    }
+  );
+}
+
+// Convert tone-marked pinyin to an answer format
+export function formatPinyin(pinyin: string, format: PinyinFormat): string {
+  if (format === "numbered") return toNumberedPinyin(pinyin);
+  if (format === "zhuyin") return toZhuyin(pinyin);
+  return pinyin;
+}
+
+// Convert an answer in any format back to tone-marked pinyin
+export function parsePinyinAnswer(answer: string, format: PinyinFormat): string {
+  if (format === "numbered") return fromNumberedPinyin(answer);
+  if (format === "zhuyin") return fromZhuyin(answer);
+  return answer;
+}
+
+// Every toneless syllable of standard Mandarin, grouped by initial
+const SYLLABLE_TABLE = `
+a ai an ang ao e ei en eng er o ou
+ba bai ban bang bao bei ben beng bi bian biao bie bin bing bo bu
+pa pai pan pang pao pei pen peng pi pian piao pie pin ping po pou pu
+m ma mai man mang mao me mei men meng mi mian miao mie min ming miu mo mou mu
+fa fan fang fei fen feng fo fou fu
+da dai dan dang dao de dei den deng di dia dian diao die ding diu dong dou du duan dui dun duo
+ta tai tan tang tao te teng ti tian tiao tie ting tong tou tu tuan tui tun tuo
+n na nai nan nang nao ne nei nen neng ng ni nian niang niao nie nin ning niu nong nou nu nuan nuo nü nüe
+la lai lan lang lao le lei leng li lia lian liang liao lie lin ling liu lo long lou lu luan lun luo lü lüe
+ga gai gan gang gao ge gei gen geng gong gou gu gua guai guan guang gui gun guo
+ka kai kan kang kao ke kei ken keng kong kou ku kua kuai kuan kuang kui kun kuo
+ha hai han hang hao he hei hen heng hm hng hong hou hu hua huai huan huang hui hun huo
+ji jia jian jiang jiao jie jin jing jiong jiu ju juan jue jun
+qi qia qian qiang qiao qie qin qing qiong qiu qu quan que qun
+xi xia xian xiang xiao xie xin xing xiong xiu xu xuan xue xun
+zha zhai zhan zhang zhao zhe zhei zhen zheng zhi zhong zhou zhu zhua zhuai zhuan zhuang zhui zhun zhuo
+cha chai chan chang chao che chen cheng chi chong chou chu chua chuai chuan chuang chui chun chuo
+sha shai shan shang shao she shei shen sheng shi shou shu shua shuai shuan shuang shui shun shuo
+ran rang rao re ren reng ri rong rou ru rua ruan rui run ruo
+za zai zan zang zao ze zei zen zeng zi zong zou zu zuan zui zun zuo
+ca cai can cang cao ce cen ceng ci cong cou cu cuan cui cun cuo
+sa sai san sang sao se sen seng si song sou su suan sui sun suo
+ya yan yang yao ye yi yin ying yo yong you yu yuan yue yun
+wa wai wan wang wei wen weng wo wu
+`;
+
+export const PINYIN_SYLLABLES: ReadonlySet<string> = new Set(SYLLABLE_TABLE.split(/\s+/).filter(Boolean));
+
+// Every beginning of a legal syllable, for checking pinyin still being typed
+const SYLLABLE_PREFIXES = new Set(
+  [...PINYIN_SYLLABLES].flatMap((syllable) =>
+    Array.from({ length: syllable.length }, (_, i) => syllable.slice(0, i + 1))
+  )
+);
+
+// Toneless lowercase form of a syllable, with v for ü
+function toSyllableKey(syllable: string): string {
+  return removeTones(syllable).toLowerCase().replace(/v/g, "ü");
+}
+
+// Whether a syllable, with or without tone marks, exists in Mandarin. Erhua
+// forms (huār, nǎr) count when the syllable without the r does.
+export function isValidSyllable(syllable: string): boolean {
+  const key = toSyllableKey(syllable);
+  if (PINYIN_SYLLABLES.has(key)) return true;
+  return key.length > 2 && key.endsWith("r") && PINYIN_SYLLABLES.has(key.slice(0, -1));
+}
+
+// Syllables of typed pinyin that can't be Mandarin, e.g. "xeu". The last
+// syllable only counts when no legal syllable starts with it, since it may
+// still be being typed.
+export function findInvalidSyllables(pinyin: string): string[] {
+  const syllables = splitSyllables(pinyin);
+  return syllables.filter((syllable, i) => {
+    if (isValidSyllable(syllable)) return false;
+    return i < syllables.length - 1 || !SYLLABLE_PREFIXES.has(toSyllableKey(syllable));
+  });
+}
+
+// How an answer differs from the expected pinyin
+export type PinyinDifference =
+  | "tone"
+  | "initial"
+  | "final"
+  | "missing-syllable"
+  | "extra-syllable"
+  | "syllable";
+
+// Initial as spelled (y and w included) and the rest of a toneless syllable
+function splitInitial(syllable: string): [string, string] {
+  const initial = ["zh", "ch", "sh"].find((prefix) => syllable.startsWith(prefix)) ??
+    (syllable[0] && !isVowel(syllable[0]) ? syllable[0] : "");
+  return [initial, syllable.slice(initial.length)];
+}
+
+// Compare an answer to the expected pinyin syllable by syllable. Differing
+// syllable counts are reported first, then the first syllable that differs
+// other than in tone: by its initial, its final, or both ("syllable").
+export function comparePinyin(answer: string, expected: string): PinyinDifference | null {
+  const answered = splitSyllables(answer.toLowerCase());
+  const wanted = splitSyllables(expected.toLowerCase());
+  if (answered.join("") === wanted.join("")) return null;
+  if (answered.length < wanted.length) return "missing-syllable";
+  if (answered.length > wanted.length) return "extra-syllable";
+
+  const index = answered.findIndex((syllable, i) => toSyllableKey(syllable) !== toSyllableKey(wanted[i]));
+  if (index === -1) return "tone";
+
+  const [answeredInitial, answeredFinal] = splitInitial(toSyllableKey(answered[index]));
+  const [wantedInitial, wantedFinal] = splitInitial(toSyllableKey(wanted[index]));
+  if (answeredFinal === wantedFinal) return "initial";
+  if (answeredInitial === wantedInitial) return "final";
+  return "syllable";
 }
@@ -0,0 +1,233 @@
+import { describe, expect, it } from "vitest";
+import type { ExerciseHistory, StudentProgress, WordProgress } from "./domain";
+import { mergeProgress } from "./progress-merge";
+import { buildReviewLogFromHistory, MAX_REVIEWS_PER_WORD } from "./review-log";
+import { getEmptyProgress } from "./storage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const T0 = new Date(2026, 1, 10, 12, 0, 0).getTime();
+
+function makeWord(word: string, lastReviewed: number, intervalSeconds = 30): WordProgress {
+  return {
+    word,
+    lastReviewed,
+    nextReview: lastReviewed + intervalSeconds * 1000,
+    intervalSeconds,
+    consecutiveSuccesses: 1,
+  };
+}
+
+function makeEntry(
+  exerciseId: string,
+  completedAt: number,
+  word: string,
+  intervalSeconds: number,
+  wasFailure = false
+): ExerciseHistory {
+  return {
+    exerciseId,
+    completedAt,
+    success: !wasFailure,
+    chinese: word,
+    pinyin: "x",
+    english: exerciseId,
+    wordChanges: [
+      {
+        word,
+        pinyin: "x",
+        oldIntervalSeconds: null,
+        newIntervalSeconds: intervalSeconds,
+        nextReview: completedAt + intervalSeconds * 1000,
+        wasEarlyReview: false,
+        wasFailure,
+      },
+    ],
+  };
+}
+
+function makeProgress(
+  words: WordProgress[],
+  history: ExerciseHistory[],
+  dailyMetricsHistory: StudentProgress["dailyMetricsHistory"] = {}
+): StudentProgress {
+  return {
+    ...getEmptyProgress(),
+    words: Object.fromEntries(words.map((w) => [w.word, w])),
+    history,
+    exerciseLastSeen: Object.fromEntries(history.map((h) => [h.exerciseId, h.completedAt])),
+    dailyMetricsHistory,
+    reviewLog: buildReviewLogFromHistory(history),
+  };
+}
+
+// Device A studied 你 on day 0; device B (a copy of A) then studied 你 and 好 on day 1.
+const deviceA = makeProgress(
+  [makeWord("你", T0, 7 * 24 * 3600)],
+  [makeEntry("a", T0, "你", 7 * 24 * 3600)]
+);
+const deviceB = makeProgress(
+  [makeWord("你", T0 + DAY_MS, 30), makeWord("好", T0 + DAY_MS, 7 * 24 * 3600)],
+  [
+    makeEntry("a", T0, "你", 7 * 24 * 3600),
+    makeEntry("b", T0 + DAY_MS, "你", 30, true),
+    makeEntry("c", T0 + DAY_MS + 1000, "好", 7 * 24 * 3600),
+  ]
+);
+
+describe("mergeProgress", () => {
+  it("unions history by completion and orders it chronologically", () => {
+    const merged = mergeProgress(deviceA, deviceB);
+
+    expect(merged.history.map((h) => h.exerciseId)).toEqual(["a", "b", "c"]);
+  });
+
+  it("keeps the most recently reviewed state of each word", () => {
+    const merged = mergeProgress(deviceA, deviceB);
+
+    expect(merged.words["你"]).toEqual(deviceB.words["你"]);
+    expect(merged.words["好"]).toEqual(deviceB.words["好"]);
+  });
+
+  it("unions review logs per word", () => {
+    const merged = mergeProgress(deviceA, deviceB);
+
+    expect(merged.reviewLog["你"].map((r) => [r.exerciseId, r.grade])).toEqual([
+      ["a", "good"],
+      ["b", "again"],
+    ]);
+    expect(merged.reviewLog["好"]).toHaveLength(1);
+  });
+
+  it("keeps only the latest reviews of each word in a merged log", () => {
+    const review = (reviewedAt: number) => ({
+      reviewedAt,
+      grade: "good" as const,
+      elapsedSeconds: 60,
+      oldIntervalSeconds: 60,
+      newIntervalSeconds: 120,
+      exerciseId: null,
+    });
+    const even = Array.from({ length: MAX_REVIEWS_PER_WORD }, (_, i) => review(T0 + i * 2000));
+    const odd = Array.from({ length: MAX_REVIEWS_PER_WORD }, (_, i) => review(T0 + i * 2000 + 1000));
+    const merged = mergeProgress(
+      { ...deviceA, reviewLog: { 你: even } },
+      { ...deviceB, reviewLog: { 你: odd } }
+    );
+
+    expect(merged.reviewLog["你"].map((r) => r.reviewedAt)).toEqual(
+      [...even, ...odd]
+        .map((r) => r.reviewedAt)
+        .sort((x, y) => x - y)
+        .slice(-MAX_REVIEWS_PER_WORD)
+    );
+  });
+
+  it("takes the latest last-seen time per exercise", () => {
+    const older = { ...deviceA, exerciseLastSeen: { a: 1, z: 50 } };
+    const newer = { ...deviceB, exerciseLastSeen: { a: 100 } };
+
+    expect(mergeProgress(older, newer).exerciseLastSeen).toEqual({ a: 100, z: 50 });
+  });
+
+  it("unions pauses, preferring the ended copy of a pause", () => {
+    const ongoing = { ...deviceA, pauses: [{ start: T0, end: null }] };
+    const ended = {
+      ...deviceB,
+      pauses: [
+        { start: T0, end: T0 + DAY_MS },
+        { start: T0 + 3 * DAY_MS, end: null },
+      ],
+    };
+
+    expect(mergeProgress(ongoing, ended).pauses).toEqual(ended.pauses);
+    expect(mergeProgress(ended, ongoing).pauses).toEqual(ended.pauses);
+  });
+
+  it("keeps the later end of a pause ended on both devices", () => {
+    const early = { ...deviceA, pauses: [{ start: T0, end: T0 + DAY_MS }] };
+    const late = { ...deviceB, pauses: [{ start: T0, end: T0 + 2 * DAY_MS }] };
+
+    expect(mergeProgress(early, late).pauses).toEqual(late.pauses);
+    expect(mergeProgress(late, early).pauses).toEqual(late.pauses);
+  });
+
+  it("keeps the latest tone drill state and unions tone logs", () => {
+    const first = { reviewedAt: T0, expected: [3], answered: [2] };
+    const second = { reviewedAt: T0 + DAY_MS, expected: [3], answered: [3] };
+    const older = { ...deviceA, toneWords: { 你: makeWord("你", T0) }, toneLog: { 你: [first] } };
+    const newer = {
+      ...deviceB,
+      toneWords: { 你: makeWord("你", T0 + DAY_MS, 600) },
+      toneLog: { 你: [first, second] },
+    };
+
+    const merged = mergeProgress(older, newer);
+    expect(merged.toneWords).toEqual(newer.toneWords);
+    expect(merged.toneLog).toEqual({ 你: [first, second] });
+    expect(mergeProgress(newer, older).toneLog).toEqual(merged.toneLog);
+  });
+
+  it("is commutative, even when word states tie on review time", () => {
+    const left = makeProgress([makeWord("你", T0, 60)], []);
+    const right = makeProgress([makeWord("你", T0, 90)], []);
+
+    expect(mergeProgress(left, right)).toEqual(mergeProgress(right, left));
+    expect(mergeProgress(deviceA, deviceB)).toEqual(mergeProgress(deviceB, deviceA));
+  });
+
+  it("is idempotent", () => {
+    const merged = mergeProgress(deviceA, deviceB);
+
+    expect(mergeProgress(merged, merged)).toEqual(merged);
+    expect(mergeProgress(merged, deviceA)).toEqual(merged);
+    expect(mergeProgress(merged, deviceB)).toEqual(merged);
+  });
+
+  it("recomputes diverged words from the merged history with the replay strategy", () => {
+    // Device C reviewed 你 independently of B, later on day 1
+    const deviceC = makeProgress(
+      [makeWord("你", T0 + DAY_MS + 5000, 9 * 24 * 3600)],
+      [
+        makeEntry("a", T0, "你", 7 * 24 * 3600),
+        makeEntry("d", T0 + DAY_MS + 5000, "你", 9 * 24 * 3600),
+      ]
+    );
+
+    const merged = mergeProgress(deviceB, deviceC, { wordStrategy: "replay" });
+
+    // Replayed: success on day 0, failure on day 1, then success 5 seconds later
+    expect(merged.words["你"].lastReviewed).toBe(T0 + DAY_MS + 5000);
+    expect(merged.words["你"].consecutiveSuccesses).toBe(1);
+    expect(merged.words["你"].intervalSeconds).toBe(30);
+    expect(mergeProgress(merged, deviceC, { wordStrategy: "replay" })).toEqual(merged);
+  });
+
+  it("rebuilds daily metrics from the merged history", () => {
+    const day0 = "2026-02-10";
+    const day1 = "2026-02-11";
+    const week = 7 * 24 * 3600;
+    const a = {
+      ...deviceA,
+      dailyMetricsHistory: { [day0]: { dateKey: day0, knownWords: 1, memoryStrength: week } },
+    };
+    const b = {
+      ...deviceB,
+      dailyMetricsHistory: { [day1]: { dateKey: day1, knownWords: 0, memoryStrength: 0 } },
+    };
+
+    const merged = mergeProgress(a, b);
+
+    expect(Object.keys(merged.dailyMetricsHistory).sort()).toEqual([day0, day1]);
+    expect(merged.dailyMetricsHistory[day0]).toEqual({
+      dateKey: day0,
+      knownWords: 1,
+      memoryStrength: week,
+    });
+    // 你 failed on day 1 (due again within 30s), 好 was learned
+    expect(merged.dailyMetricsHistory[day1]).toEqual({
+      dateKey: day1,
+      knownWords: 1,
+      memoryStrength: week,
+    });
+  });
+});
@@ -0,0 +1,336 @@
+import type {
+  DailyMetricsPoint,
+  ExerciseHistory,
+  PauseWindow,
+  SchedulerSelection,
+  StudentProgress,
+  ToneReview,
+  WordProgress,
+  WordReview,
+} from "./domain/progress";
+import { updateWordReview } from "./exercises";
+import { rebuildDailyMetricsFromHistory } from "./progress-metrics";
+import { pruneWordReviews } from "./review-log";
+
+/**
+ * How to resolve a word whose state differs between the two snapshots.
+ * - "latest": keep the state with the most recent `lastReviewed`
+ * - "replay": recompute the state by replaying the merged history
+ */
+export type WordMergeStrategy = "latest" | "replay";
+
+export interface MergeOptions {
+  wordStrategy?: WordMergeStrategy;
+}
+
+/**
+ * Key identifying one exercise completion across progress snapshots.
+ */
+export function getHistoryEntryKey(entry: ExerciseHistory): string {
+  return `${entry.completedAt}:${entry.exerciseId}`;
+}
+
+/**
+ * Total order on serialized values, used to break ties deterministically.
+ */
+function compareSerialized(a: unknown, b: unknown): number {
+  const left = JSON.stringify(a);
+  const right = JSON.stringify(b);
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+/**
+ * Order word states so that the preferred (most recent) state sorts last.
+ */
+function compareWordProgress(a: WordProgress, b: WordProgress): number {
+  return (
+    a.lastReviewed - b.lastReviewed ||
+    a.nextReview - b.nextReview ||
+    a.intervalSeconds - b.intervalSeconds ||
+    a.consecutiveSuccesses - b.consecutiveSuccesses ||
+    compareSerialized(a, b)
+  );
+}
+
+function mergeHistory(a: ExerciseHistory[], b: ExerciseHistory[]): ExerciseHistory[] {
+  const historyByKey = new Map<string, ExerciseHistory>();
+  for (const entry of [...a, ...b]) {
+    const key = getHistoryEntryKey(entry);
+    const existing = historyByKey.get(key);
+    // The same completion recorded differently on two devices: keep one deterministically
+    if (!existing || compareSerialized(entry, existing) < 0) {
+      historyByKey.set(key, entry);
+    }
+  }
+
+  return [...historyByKey.values()].sort(
+    (x, y) =>
+      x.completedAt - y.completedAt ||
+      (x.exerciseId < y.exerciseId ? -1 : x.exerciseId > y.exerciseId ? 1 : 0)
+  );
+}
+
+/**
+ * Recompute the state of the given words by replaying their recorded outcomes.
+ */
+function replayWords(
+  history: ExerciseHistory[],
+  words: Set<string>,
+  scheduler: SchedulerSelection | undefined,
+  pauses: PauseWindow[]
+): Record<string, WordProgress> {
+  let replayed: StudentProgress = {
+    words: {},
+    history: [],
+    exerciseLastSeen: {},
+    dailyMetricsHistory: {},
+    reviewLog: {},
+    pauses,
+    toneWords: {},
+    toneLog: {},
+    scheduler,
+  };
+
+  for (const entry of history) {
+    for (const change of entry.wordChanges) {
+      if (!words.has(change.word)) continue;
+      const grade = change.grade ?? (change.wasFailure ? "again" : "good");
+      replayed = updateWordReview(
+        change.word,
+        change.pinyin,
+        replayed,
+        entry.completedAt,
+        grade
+      ).progress;
+    }
+  }
+
+  return replayed.words;
+}
+
+function mergeWords(
+  a: Record<string, WordProgress>,
+  b: Record<string, WordProgress>,
+  history: ExerciseHistory[],
+  strategy: WordMergeStrategy,
+  scheduler: SchedulerSelection | undefined,
+  pauses: PauseWindow[]
+): Record<string, WordProgress> {
+  const words: Record<string, WordProgress> = {};
+  const diverged = new Set<string>();
+
+  for (const word of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    const left = a[word];
+    const right = b[word];
+    if (!left || !right) {
+      words[word] = left ?? right;
+      continue;
+    }
+
+    const order = compareWordProgress(left, right);
+    words[word] = order >= 0 ? left : right;
+    if (order !== 0) diverged.add(word);
+  }
+
+  if (strategy === "replay" && diverged.size > 0) {
+    const replayed = replayWords(history, diverged, scheduler, pauses);
+    for (const word of diverged) {
+      // Without any recorded review the latest state is the best we have
+      if (replayed[word]) words[word] = replayed[word];
+    }
+  }
+
+  return words;
+}
+
+/**
+ * Keep the most recent tone drill state of each word. Tone answers aren't in
+ * the exercise history, so there is nothing to replay.
+ */
+function mergeToneWords(
+  a: Record<string, WordProgress>,
+  b: Record<string, WordProgress>
+): Record<string, WordProgress> {
+  const toneWords: Record<string, WordProgress> = { ...a };
+  for (const [word, right] of Object.entries(b)) {
+    const left = toneWords[word];
+    toneWords[word] = left && compareWordProgress(left, right) >= 0 ? left : right;
+  }
+  return toneWords;
+}
+
+/**
+ * Union each word's tone answers, identified by time
+ */
+function mergeToneLog(
+  a: Record<string, ToneReview[]>,
+  b: Record<string, ToneReview[]>
+): Record<string, ToneReview[]> {
+  const toneLog: Record<string, ToneReview[]> = {};
+  for (const word of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    const byTime = new Map<number, ToneReview>();
+    for (const review of [...(a[word] ?? []), ...(b[word] ?? [])]) {
+      const existing = byTime.get(review.reviewedAt);
+      if (!existing || compareSerialized(review, existing) < 0) {
+        byTime.set(review.reviewedAt, review);
+      }
+    }
+    toneLog[word] = [...byTime.values()].sort((x, y) => x.reviewedAt - y.reviewedAt);
+  }
+  return toneLog;
+}
+
+function mergeLastSeen(a: Record<string, number>, b: Record<string, number>): Record<string, number> {
+  const exerciseLastSeen: Record<string, number> = { ...a };
+  for (const [exerciseId, timestamp] of Object.entries(b)) {
+    exerciseLastSeen[exerciseId] = Math.max(exerciseLastSeen[exerciseId] ?? 0, timestamp);
+  }
+  return exerciseLastSeen;
+}
+
+function compareReviews(x: WordReview, y: WordReview): number {
+  const xId = x.exerciseId ?? "";
+  const yId = y.exerciseId ?? "";
+  return x.reviewedAt - y.reviewedAt || (xId < yId ? -1 : xId > yId ? 1 : 0);
+}
+
+/**
+ * Union each word's review log, keeping its latest reviews up to the cap.
+ * Reviews are identified by time and exercise; a word reviewed twice in one
+ * exercise keeps as many entries as the side that recorded the most.
+ */
+function mergeReviewLog(
+  a: Record<string, WordReview[]>,
+  b: Record<string, WordReview[]>
+): Record<string, WordReview[]> {
+  const groupReviews = (reviews: WordReview[] = []) => {
+    const groups = new Map<string, WordReview[]>();
+    for (const review of reviews) {
+      const key = `${review.reviewedAt}:${review.exerciseId ?? ""}`;
+      groups.set(key, [...(groups.get(key) ?? []), review]);
+    }
+    return groups;
+  };
+
+  const reviewLog: Record<string, WordReview[]> = {};
+  for (const word of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    const left = groupReviews(a[word]);
+    const right = groupReviews(b[word]);
+    const merged: WordReview[] = [];
+    for (const key of new Set([...left.keys(), ...right.keys()])) {
+      const x = left.get(key) ?? [];
+      const y = right.get(key) ?? [];
+      const order = x.length - y.length || compareSerialized(y, x);
+      merged.push(...(order >= 0 ? x : y));
+    }
+    reviewLog[word] = pruneWordReviews(merged.sort(compareReviews));
+  }
+  return reviewLog;
+}
+
+/**
+ * Union the pauses of both snapshots. The same pause ended on one device and
+ * still ongoing on the other counts as ended, and ended at different times it
+ * keeps the later end; pauses overlapping after that are combined.
+ */
+function mergePauses(a: PauseWindow[], b: PauseWindow[]): PauseWindow[] {
+  const sorted = [...a, ...b].sort(
+    (x, y) => x.start - y.start || (x.end ?? Infinity) - (y.end ?? Infinity)
+  );
+  const merged: PauseWindow[] = [];
+  for (const pause of sorted) {
+    const last = merged.at(-1);
+    if (last && last.start === pause.start) {
+      // Prefer the ended version of the same pause, with its latest end
+      if (last.end === null || (pause.end !== null && pause.end > last.end)) {
+        merged[merged.length - 1] = pause;
+      }
+    } else if (last && (last.end === null || last.end >= pause.start)) {
+      merged[merged.length - 1] = {
+        start: last.start,
+        end: last.end === null || pause.end === null ? null : Math.max(last.end, pause.end),
+      };
+    } else {
+      merged.push(pause);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Keep the most recently chosen scheduler.
+ */
+function mergeScheduler(
+  a: SchedulerSelection | undefined,
+  b: SchedulerSelection | undefined
+): SchedulerSelection | undefined {
+  if (!a || !b) return a ?? b;
+  const order = a.selectedAt - b.selectedAt || compareSerialized(a, b);
+  return order >= 0 ? a : b;
+}
+
+function mergeDailyMetrics(
+  a: Record<string, DailyMetricsPoint>,
+  b: Record<string, DailyMetricsPoint>,
+  history: ExerciseHistory[]
+): Record<string, DailyMetricsPoint> {
+  const dateKeys = [...new Set([...Object.keys(a), ...Object.keys(b)])];
+
+  if (history.length > 0) {
+    return rebuildDailyMetricsFromHistory(history, dateKeys);
+  }
+
+  // No history to rebuild from: keep the stronger snapshot of each day
+  const merged: Record<string, DailyMetricsPoint> = {};
+  for (const dateKey of dateKeys) {
+    const candidates = [a[dateKey], b[dateKey]].filter(Boolean);
+    candidates.sort(
+      (x, y) =>
+        y.knownWords - x.knownWords ||
+        y.memoryStrength - x.memoryStrength ||
+        compareSerialized(x, y)
+    );
+    merged[dateKey] = candidates[0];
+  }
+  return merged;
+}
+
+/**
+ * Combine two progress snapshots, e.g. from two devices.
+ *
+ * History is unioned by completion, each word keeps its most recent state (or
+ * is recomputed from the merged history), last-seen times take the maximum,
+ * daily metrics are rebuilt from the merged history, review logs, tone answers
+ * and pauses are unioned and the latest scheduler choice wins. Tone drill
+ * states keep the most recent one. The merge is pure, deterministic,
+ * commutative and idempotent: merging a snapshot into a result it was already
+ * merged into changes nothing.
+ */
+export function mergeProgress(
+  a: StudentProgress,
+  b: StudentProgress,
+  options: MergeOptions = {}
+): StudentProgress {
+  const history = mergeHistory(a.history, b.history);
+  const scheduler = mergeScheduler(a.scheduler, b.scheduler);
+  const pauses = mergePauses(a.pauses, b.pauses);
+
+  return {
+    words: mergeWords(
+      a.words,
+      b.words,
+      history,
+      options.wordStrategy ?? "latest",
+      scheduler,
+      pauses
+    ),
+    history,
+    exerciseLastSeen: mergeLastSeen(a.exerciseLastSeen, b.exerciseLastSeen),
+    dailyMetricsHistory: mergeDailyMetrics(a.dailyMetricsHistory, b.dailyMetricsHistory, history),
+    reviewLog: mergeReviewLog(a.reviewLog, b.reviewLog),
+    pauses,
+    toneWords: mergeToneWords(a.toneWords, b.toneWords),
+    toneLog: mergeToneLog(a.toneLog, b.toneLog),
+    ...(scheduler && { scheduler }),
+  };
+}
@@ -7,17 +7,13 @@ import {
   sliceMetricsByRange,
   upsertTodayAndFillMissingDays,
 } from "./progress-metrics";
+import { getEmptyProgress } from "./storage";
 
 function createProgress(
   words: Record<string, WordProgress>,
   dailyMetricsHistory: StudentProgress["dailyMetricsHistory"] = {}
 ): StudentProgress {
-  return {
-    words,
-    history: [],
-    exerciseLastSeen: {},
-    dailyMetricsHistory,
-  };
+  return { ...getEmptyProgress(), words, dailyMetricsHistory };
 }
 
 describe("progress metrics", () => {
@@ -1,8 +1,9 @@
 import type {
   DailyMetricsPoint,
+  ExerciseHistory,
   StudentProgress,
   WordProgress,
-} from "@/lib/domain";
+} from "./domain";
 
 export type MetricsRange = "1w" | "1m" | "6m" | "1y";
 
@@ -24,6 +25,15 @@ export function getLocalDateKey(timestampMs: number): string {
   return `${year}-${month}-${day}`;
 }
 
+/**
+ * Timestamp of the local midnight starting the day that contains `timestampMs`.
+ */
+export function getStartOfLocalDay(timestampMs: number): number {
+  const date = new Date(timestampMs);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
 /**
  * Convert a local date key (YYYY-MM-DD) to local end-of-day timestamp.
  */
@@ -125,6 +135,47 @@ export function upsertTodayAndFillMissingDays(
   };
 }
 
+/**
+ * Rebuild daily snapshots for the given days by replaying the word interval
+ * changes recorded in history, rather than estimating from current word states.
+ */
+export function rebuildDailyMetricsFromHistory(
+  history: ExerciseHistory[],
+  dateKeys: string[]
+): Record<string, DailyMetricsPoint> {
+  const entries = [...history].sort((a, b) => a.completedAt - b.completedAt);
+  const words: Record<string, WordProgress> = {};
+  const rebuilt: Record<string, DailyMetricsPoint> = {};
+  let entryIndex = 0;
+
+  for (const dateKey of [...dateKeys].sort()) {
+    const dayEnd = getEndOfLocalDayTimestamp(dateKey);
+
+    while (entryIndex < entries.length && entries[entryIndex].completedAt <= dayEnd) {
+      const entry = entries[entryIndex];
+      for (const change of entry.wordChanges) {
+        words[change.word] = {
+          word: change.word,
+          lastReviewed: entry.completedAt,
+          nextReview: change.nextReview,
+          intervalSeconds: change.newIntervalSeconds,
+          consecutiveSuccesses: change.wasFailure
+            ? 0
+            : (words[change.word]?.consecutiveSuccesses ?? 0) + 1,
+        };
+      }
+      entryIndex += 1;
+    }
+
+    rebuilt[dateKey] = {
+      dateKey,
+      ...computeDailyMetricsAtDayEnd(words, dayEnd),
+    };
+  }
+
+  return rebuilt;
+}
+
 /**
  * Return metric snapshots in a fixed date range ending today.
  */
@@ -0,0 +1,282 @@
+import { describe, expect, it } from "vitest";
+import { getExerciseId } from "./exercise-id";
+import { DEFAULT_CONFIG } from "./spaced-repetition";
+import {
+  addMissingCollections,
+  addPauses,
+  addReviewLog,
+  addToneDrill,
+  CURRENT_SCHEMA_VERSION,
+  migrateIndexKeyedProgress,
+  migrateProgressData,
+  parseStoredProgress,
+  validateProgress,
+} from "./progress-migrations";
+import { getEmptyProgress } from "./storage";
+
+function makeLegacyEntry(exerciseIndex: number, chinese: string, english: string, completedAt: number) {
+  return {
+    exerciseIndex,
+    completedAt,
+    success: true,
+    chinese,
+    pinyin: "",
+    english,
+    wordChanges: [],
+  };
+}
+
+const WORD = {
+  word: "你",
+  lastReviewed: 1000,
+  nextReview: 31000,
+  intervalSeconds: 30,
+  consecutiveSuccesses: 0,
+};
+
+describe("addMissingCollections", () => {
+  it("defaults missing top-level collections", () => {
+    expect(addMissingCollections({ words: { 你: WORD } })).toEqual({
+      words: { 你: WORD },
+      history: [],
+      exerciseLastSeen: {},
+      dailyMetricsHistory: {},
+    });
+  });
+});
+
+describe("migrateIndexKeyedProgress", () => {
+  it("remaps index-keyed history and last-seen times to exercise IDs", () => {
+    const studentId = getExerciseId("我是学生。", "I am a student.");
+    const helloId = getExerciseId("你好", "Hello");
+
+    const migrated = migrateIndexKeyedProgress({
+      history: [
+        makeLegacyEntry(3, "我是学生。", "I am a student.", 1000),
+        makeLegacyEntry(7, "你好", "Hello", 2000),
+      ],
+      exerciseLastSeen: { "3": 1000, "7": 2000, "9": 3000 },
+    });
+    const history = migrated.history as { exerciseId: string }[];
+
+    expect(history.map((entry) => entry.exerciseId)).toEqual([studentId, helloId]);
+    expect(history[0]).not.toHaveProperty("exerciseIndex");
+    // Index 9 has no history entry to resolve it, so it is dropped
+    expect(migrated.exerciseLastSeen).toEqual({ [studentId]: 1000, [helloId]: 2000 });
+  });
+
+  it("maps legacy seenExercises through the history", () => {
+    const helloId = getExerciseId("你好", "Hello");
+
+    const migrated = migrateIndexKeyedProgress({
+      history: [makeLegacyEntry(7, "你好", "Hello", 2000)],
+      exerciseLastSeen: {},
+      seenExercises: [7, 8],
+    });
+
+    // Seen without a recorded last-seen time, as the old loader did
+    expect(migrated.exerciseLastSeen).toEqual({ [helloId]: 1 });
+    expect(migrated).not.toHaveProperty("seenExercises");
+  });
+
+  it("leaves ID-keyed progress untouched", () => {
+    const history = [
+      {
+        exerciseId: "abc",
+        completedAt: 1000,
+        success: true,
+        chinese: "你好",
+        pinyin: "nǐ hǎo",
+        english: "Hello",
+        wordChanges: [],
+      },
+    ];
+    const exerciseLastSeen = { abc: 1000 };
+
+    const migrated = migrateIndexKeyedProgress({ history, exerciseLastSeen });
+
+    expect(migrated.history).toBe(history);
+    expect(migrated.exerciseLastSeen).toBe(exerciseLastSeen);
+  });
+});
+
+describe("migrateProgressData", () => {
+  it("runs every migration for unversioned data and stamps the version", () => {
+    const migrated = migrateProgressData({
+      history: [makeLegacyEntry(0, "你好", "Hello", 2000)],
+      exerciseLastSeen: { "0": 2000 },
+    });
+
+    expect(migrated.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(migrated.words).toEqual({});
+    expect(migrated.exerciseLastSeen).toEqual({ [getExerciseId("你好", "Hello")]: 2000 });
+  });
+
+  it("leaves current-version data alone", () => {
+    const data = {
+      ...getEmptyProgress(),
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      exerciseLastSeen: { "0": 5 },
+    };
+
+    expect(migrateProgressData(data)).toBe(data);
+  });
+
+  it("rejects data from a newer schema version", () => {
+    expect(() => migrateProgressData({ schemaVersion: CURRENT_SCHEMA_VERSION + 1 })).toThrow(
+      /newer than supported/
+    );
+  });
+
+  it("rejects malformed schema versions", () => {
+    expect(() => migrateProgressData({ schemaVersion: "2" })).toThrow(/schema version/);
+  });
+});
+
+describe("addReviewLog", () => {
+  it("backfills the review log from history word changes", () => {
+    const change = (word: string, newIntervalSeconds: number, wasFailure: boolean) => ({
+      word,
+      pinyin: "",
+      oldIntervalSeconds: null,
+      newIntervalSeconds,
+      nextReview: 0,
+      wasEarlyReview: false,
+      wasFailure,
+    });
+    const history = [
+      { ...makeLegacyEntry(0, "你", "you", 61000), exerciseId: "b", wordChanges: [change("你", 30, true)] },
+      { ...makeLegacyEntry(0, "你", "you", 1000), exerciseId: "a", wordChanges: [change("你", 600, false)] },
+    ];
+
+    expect(addReviewLog({ history }).reviewLog).toEqual({
+      你: [
+        {
+          reviewedAt: 1000,
+          grade: "good",
+          elapsedSeconds: null,
+          oldIntervalSeconds: null,
+          newIntervalSeconds: 600,
+          exerciseId: "a",
+        },
+        {
+          reviewedAt: 61000,
+          grade: "again",
+          elapsedSeconds: 60,
+          oldIntervalSeconds: 600,
+          newIntervalSeconds: 30,
+          exerciseId: "b",
+        },
+      ],
+    });
+  });
+
+  it("keeps an existing review log", () => {
+    const data = { history: [], reviewLog: { 你: [] } };
+    expect(addReviewLog(data)).toBe(data);
+  });
+});
+
+describe("addPauses", () => {
+  it("starts without pauses and keeps existing ones", () => {
+    expect(addPauses({ words: {} })).toEqual({ words: {}, pauses: [] });
+
+    const pauses = [{ start: 1000, end: null }];
+    expect(addPauses({ pauses }).pauses).toBe(pauses);
+  });
+});
+
+describe("addToneDrill", () => {
+  it("starts with an empty tone schedule and log", () => {
+    expect(addToneDrill({ words: {} })).toEqual({ words: {}, toneWords: {}, toneLog: {} });
+  });
+});
+
+describe("validateProgress", () => {
+  it("returns only the StudentProgress fields", () => {
+    const progress = validateProgress({
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      words: { 你: WORD },
+      history: [],
+      exerciseLastSeen: {},
+      dailyMetricsHistory: {
+        "2026-02-10": { dateKey: "2026-02-10", knownWords: 1, memoryStrength: 30 },
+      },
+      reviewLog: {},
+      pauses: [],
+      toneWords: {},
+      toneLog: {},
+    });
+
+    expect(progress).toEqual({
+      words: { 你: WORD },
+      history: [],
+      exerciseLastSeen: {},
+      dailyMetricsHistory: {
+        "2026-02-10": { dateKey: "2026-02-10", knownWords: 1, memoryStrength: 30 },
+      },
+      reviewLog: {},
+      pauses: [],
+      toneWords: {},
+      toneLog: {},
+    });
+  });
+
+  it("reports the path of the first invalid field", () => {
+    expect(() =>
+      validateProgress({
+        words: { 你: { ...WORD, nextReview: "soon" } },
+        history: [],
+        exerciseLastSeen: {},
+        dailyMetricsHistory: {},
+      })
+    ).toThrow("words.你.nextReview");
+  });
+
+  it("keeps leech flags and rejects malformed ones", () => {
+    const leech = { detectedAt: 1, remediatedAt: null };
+    const data = { ...getEmptyProgress(), words: { 你: { ...WORD, leech } } };
+
+    expect(validateProgress(data).words.你.leech).toEqual(leech);
+    expect(() =>
+      validateProgress({ ...data, words: { 你: { ...WORD, leech: { detectedAt: 1 } } } })
+    ).toThrow("words.你.leech.remediatedAt");
+  });
+
+  it("validates the tone log", () => {
+    const data = {
+      ...getEmptyProgress(),
+      toneWords: { 你好: { ...WORD, word: "你好" } },
+      toneLog: { 你好: [{ reviewedAt: 1, expected: [3, 3], answered: [2, 3] }] },
+    };
+
+    expect(validateProgress(data).toneLog).toEqual(data.toneLog);
+    expect(() =>
+      validateProgress({ ...data, toneLog: { 你好: [{ reviewedAt: 1, expected: [3, 3], answered: [2, 7] }] } })
+    ).toThrow("toneLog.你好[0].answered");
+  });
+
+  it("fills scheduler config settings missing from older configs", () => {
+    const olderConfig: Partial<typeof DEFAULT_CONFIG> = { ...DEFAULT_CONFIG, goodReviewMultiplier: 3 };
+    delete olderConfig.firstTimeSuccessIntervalSeconds;
+    const data = {
+      ...getEmptyProgress(),
+      scheduler: { id: "sm2", selectedAt: 1, config: olderConfig },
+    };
+
+    expect(validateProgress(data).scheduler?.config).toEqual({
+      ...DEFAULT_CONFIG,
+      goodReviewMultiplier: 3,
+    });
+    expect(() =>
+      validateProgress({ ...data, scheduler: { ...data.scheduler, config: { goodReviewMultiplier: "3" } } })
+    ).toThrow("scheduler.config.goodReviewMultiplier");
+  });
+});
+
+describe("parseStoredProgress", () => {
+  it("rejects values that are not objects", () => {
+    expect(() => parseStoredProgress([])).toThrow(/not an object/);
+    expect(() => parseStoredProgress(null)).toThrow(/not an object/);
+  });
+});
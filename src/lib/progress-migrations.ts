@@ -0,0 +1,478 @@
+import type {
+  DailyMetricsPoint,
+  ExerciseHistory,
+  FsrsState,
+  LeechState,
+  PauseWindow,
+  RecallGrade,
+  SchedulerSelection,
+  Sm2State,
+  StudentProgress,
+  ToneReview,
+  WordIntervalChange,
+  WordProgress,
+  WordReview,
+} from "./domain/progress";
+import { getExerciseId } from "./exercise-id";
+import { buildReviewLogFromHistory, pruneWordReviews } from "./review-log";
+import { DEFAULT_CONFIG, type SpacedRepetitionConfig } from "./spaced-repetition";
+import { isSchedulerId } from "./scheduler";
+
+/**
+ * Progress as read from storage, before it has been migrated and validated.
+ */
+export type StoredProgressData = Record<string, unknown>;
+
+/**
+ * A pure function upgrading stored progress by exactly one schema version.
+ * MIGRATIONS[n] upgrades version n to version n + 1.
+ */
+export type ProgressMigration = (data: StoredProgressData) => StoredProgressData;
+
+/**
+ * History entry as stored before exercises had stable IDs
+ */
+type StoredExerciseHistory = Omit<ExerciseHistory, "exerciseId"> & {
+  exerciseId?: string;
+  exerciseIndex?: number;
+};
+
+/**
+ * v0 → v1: unversioned progress may lack any of the top-level collections.
+ */
+export function addMissingCollections(data: StoredProgressData): StoredProgressData {
+  return {
+    ...data,
+    words: data.words ?? {},
+    history: data.history ?? [],
+    exerciseLastSeen: data.exerciseLastSeen ?? {},
+    dailyMetricsHistory: data.dailyMetricsHistory ?? {},
+  };
+}
+
+/**
+ * v1 → v2: remap progress keyed by exercise array position to stable exercise IDs.
+ * History entries carry their sentence text, so each legacy index is resolved
+ * through the history; indices that never made it into history are dropped.
+ */
+export function migrateIndexKeyedProgress(data: StoredProgressData): StoredProgressData {
+  const { seenExercises, ...rest } = data;
+  const history = (data.history ?? []) as StoredExerciseHistory[];
+  const exerciseLastSeen = (data.exerciseLastSeen ?? {}) as Record<string, number>;
+  const isIndexKeyed =
+    Array.isArray(seenExercises) ||
+    history.some((entry) => typeof entry.exerciseIndex === "number");
+
+  if (!isIndexKeyed) {
+    return rest;
+  }
+
+  const indexToId = new Map<number, string>();
+  const migratedHistory = history.map((entry) => {
+    const { exerciseIndex, ...entryRest } = entry;
+    const exerciseId = entry.exerciseId ?? getExerciseId(entry.chinese, entry.english);
+    if (typeof exerciseIndex === "number") {
+      indexToId.set(exerciseIndex, exerciseId);
+    }
+    return { ...entryRest, exerciseId };
+  });
+
+  const migratedLastSeen: Record<string, number> = {};
+  for (const [key, timestamp] of Object.entries(exerciseLastSeen)) {
+    const exerciseId = indexToId.get(Number(key));
+    if (exerciseId) {
+      migratedLastSeen[exerciseId] = Math.max(migratedLastSeen[exerciseId] ?? 0, timestamp);
+    }
+  }
+
+  for (const index of Array.isArray(seenExercises) ? (seenExercises as number[]) : []) {
+    const exerciseId = indexToId.get(index);
+    if (exerciseId && !migratedLastSeen[exerciseId]) {
+      migratedLastSeen[exerciseId] = 1;
+    }
+  }
+
+  return { ...rest, history: migratedHistory, exerciseLastSeen: migratedLastSeen };
+}
+
+/**
+ * v2 → v3: add the per-word review log, backfilled from exercise history.
+ */
+export function addReviewLog(data: StoredProgressData): StoredProgressData {
+  if (data.reviewLog !== undefined) return data;
+  // Malformed entries are left for validation to report
+  const history = Array.isArray(data.history)
+    ? (data.history as ExerciseHistory[]).filter(
+        (entry) => isRecord(entry) && Array.isArray(entry.wordChanges)
+      )
+    : [];
+  return { ...data, reviewLog: buildReviewLogFromHistory(history) };
+}
+
+/**
+ * v3 → v4: add the list of study pauses.
+ */
+export function addPauses(data: StoredProgressData): StoredProgressData {
+  return { ...data, pauses: data.pauses ?? [] };
+}
+
+/**
+ * v4 → v5: add the tone drill schedule and answers.
+ */
+export function addToneDrill(data: StoredProgressData): StoredProgressData {
+  return { ...data, toneWords: data.toneWords ?? {}, toneLog: data.toneLog ?? {} };
+}
+
+/**
+ * Ordered migration pipeline. Append new migrations; never reorder or edit
+ * released ones, as stored progress may be at any earlier version.
+ */
+export const MIGRATIONS: ProgressMigration[] = [
+  addMissingCollections,
+  migrateIndexKeyedProgress,
+  addReviewLog,
+  addPauses,
+  addToneDrill,
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS.length;
+
+/**
+ * Read the schema version of stored progress. Unversioned data is version 0.
+ */
+export function getSchemaVersion(data: StoredProgressData): number {
+  const version = data.schemaVersion;
+  if (version === undefined) return 0;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 0) {
+    throw new Error(`Invalid progress schema version: ${String(version)}`);
+  }
+  return version;
+}
+
+/**
+ * Run every migration between the stored version and the current version.
+ */
+export function migrateProgressData(data: StoredProgressData): StoredProgressData {
+  const version = getSchemaVersion(data);
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new Error(
+      `Progress schema version ${version} is newer than supported version ${CURRENT_SCHEMA_VERSION}`
+    );
+  }
+
+  let migrated = data;
+  for (let v = version; v < CURRENT_SCHEMA_VERSION; v++) {
+    migrated = { ...MIGRATIONS[v](migrated), schemaVersion: v + 1 };
+  }
+  return migrated;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function expectRecord(value: unknown, path: string): Record<string, unknown> {
+  if (!isRecord(value)) {
+    throw new Error(`Invalid progress: ${path} is not an object`);
+  }
+  return value;
+}
+
+function expectNumber(record: Record<string, unknown>, key: string, path: string): number {
+  const value = record[key];
+  if (!isFiniteNumber(value)) {
+    throw new Error(`Invalid progress: ${path}.${key} is not a number`);
+  }
+  return value;
+}
+
+function expectString(record: Record<string, unknown>, key: string, path: string): string {
+  const value = record[key];
+  if (typeof value !== "string") {
+    throw new Error(`Invalid progress: ${path}.${key} is not a string`);
+  }
+  return value;
+}
+
+function expectBoolean(record: Record<string, unknown>, key: string, path: string): boolean {
+  const value = record[key];
+  if (typeof value !== "boolean") {
+    throw new Error(`Invalid progress: ${path}.${key} is not a boolean`);
+  }
+  return value;
+}
+
+function validateSm2State(value: unknown, path: string): Sm2State {
+  const record = expectRecord(value, path);
+  return {
+    easeFactor: expectNumber(record, "easeFactor", path),
+    repetitions: expectNumber(record, "repetitions", path),
+  };
+}
+
+function validateFsrsState(value: unknown, path: string): FsrsState {
+  const record = expectRecord(value, path);
+  return {
+    stability: expectNumber(record, "stability", path),
+    difficulty: expectNumber(record, "difficulty", path),
+  };
+}
+
+function validateLeechState(value: unknown, path: string): LeechState {
+  const record = expectRecord(value, path);
+  if (record.remediatedAt !== null && !isFiniteNumber(record.remediatedAt)) {
+    throw new Error(`Invalid progress: ${path}.remediatedAt is not a number or null`);
+  }
+  return {
+    detectedAt: expectNumber(record, "detectedAt", path),
+    remediatedAt: record.remediatedAt,
+  };
+}
+
+function validateWordProgress(value: unknown, path: string): WordProgress {
+  const record = expectRecord(value, path);
+  const word: WordProgress = {
+    word: expectString(record, "word", path),
+    lastReviewed: expectNumber(record, "lastReviewed", path),
+    nextReview: expectNumber(record, "nextReview", path),
+    intervalSeconds: expectNumber(record, "intervalSeconds", path),
+    consecutiveSuccesses: expectNumber(record, "consecutiveSuccesses", path),
+  };
+  if (record.sm2 !== undefined) word.sm2 = validateSm2State(record.sm2, `${path}.sm2`);
+  if (record.fsrs !== undefined) word.fsrs = validateFsrsState(record.fsrs, `${path}.fsrs`);
+  if (record.leech !== undefined) word.leech = validateLeechState(record.leech, `${path}.leech`);
+  return word;
+}
+
+function validateSchedulerSelection(value: unknown, path: string): SchedulerSelection {
+  const record = expectRecord(value, path);
+  if (!isSchedulerId(record.id)) {
+    throw new Error(`Invalid progress: ${path}.id is not a known scheduler`);
+  }
+  const selection: SchedulerSelection = {
+    id: record.id,
+    selectedAt: expectNumber(record, "selectedAt", path),
+  };
+  if (record.config !== undefined) {
+    const config = expectRecord(record.config, `${path}.config`);
+    // Settings added to the config after it was optimised take their defaults
+    selection.config = { ...DEFAULT_CONFIG };
+    for (const key of Object.keys(DEFAULT_CONFIG) as (keyof SpacedRepetitionConfig)[]) {
+      if (config[key] !== undefined) {
+        selection.config[key] = expectNumber(config, key, `${path}.config`);
+      }
+    }
+  }
+  return selection;
+}
+
+const RECALL_GRADES: RecallGrade[] = ["again", "hard", "good", "easy"];
+
+function validateWordChange(value: unknown, path: string): WordIntervalChange {
+  const record = expectRecord(value, path);
+  const oldInterval = record.oldIntervalSeconds;
+  if (oldInterval !== null && !isFiniteNumber(oldInterval)) {
+    throw new Error(`Invalid progress: ${path}.oldIntervalSeconds is not a number or null`);
+  }
+  const change: WordIntervalChange = {
+    word: expectString(record, "word", path),
+    pinyin: expectString(record, "pinyin", path),
+    oldIntervalSeconds: oldInterval,
+    newIntervalSeconds: expectNumber(record, "newIntervalSeconds", path),
+    nextReview: expectNumber(record, "nextReview", path),
+    wasEarlyReview: expectBoolean(record, "wasEarlyReview", path),
+    wasFailure: expectBoolean(record, "wasFailure", path),
+  };
+  if (record.grade !== undefined) {
+    if (!RECALL_GRADES.includes(record.grade as RecallGrade)) {
+      throw new Error(`Invalid progress: ${path}.grade is not a recall grade`);
+    }
+    change.grade = record.grade as RecallGrade;
+  }
+  return change;
+}
+
+function validateHistoryEntry(value: unknown, path: string): ExerciseHistory {
+  const record = expectRecord(value, path);
+  if (!Array.isArray(record.wordChanges)) {
+    throw new Error(`Invalid progress: ${path}.wordChanges is not an array`);
+  }
+  return {
+    exerciseId: expectString(record, "exerciseId", path),
+    completedAt: expectNumber(record, "completedAt", path),
+    success: expectBoolean(record, "success", path),
+    chinese: expectString(record, "chinese", path),
+    pinyin: expectString(record, "pinyin", path),
+    english: expectString(record, "english", path),
+    wordChanges: record.wordChanges.map((change, i) =>
+      validateWordChange(change, `${path}.wordChanges[${i}]`)
+    ),
+  };
+}
+
+function validateWordReview(value: unknown, path: string): WordReview {
+  const record = expectRecord(value, path);
+  if (!RECALL_GRADES.includes(record.grade as RecallGrade)) {
+    throw new Error(`Invalid progress: ${path}.grade is not a recall grade`);
+  }
+  for (const key of ["elapsedSeconds", "oldIntervalSeconds"]) {
+    if (record[key] !== null && !isFiniteNumber(record[key])) {
+      throw new Error(`Invalid progress: ${path}.${key} is not a number or null`);
+    }
+  }
+  if (record.exerciseId !== null && typeof record.exerciseId !== "string") {
+    throw new Error(`Invalid progress: ${path}.exerciseId is not a string or null`);
+  }
+  return {
+    reviewedAt: expectNumber(record, "reviewedAt", path),
+    grade: record.grade as RecallGrade,
+    elapsedSeconds: record.elapsedSeconds as number | null,
+    oldIntervalSeconds: record.oldIntervalSeconds as number | null,
+    newIntervalSeconds: expectNumber(record, "newIntervalSeconds", path),
+    exerciseId: record.exerciseId,
+  };
+}
+
+function validatePauseWindow(value: unknown, path: string): PauseWindow {
+  const record = expectRecord(value, path);
+  if (record.end !== null && !isFiniteNumber(record.end)) {
+    throw new Error(`Invalid progress: ${path}.end is not a number or null`);
+  }
+  return {
+    start: expectNumber(record, "start", path),
+    end: record.end,
+  };
+}
+
+function expectTones(record: Record<string, unknown>, key: string, path: string): number[] {
+  const tones = record[key];
+  if (!Array.isArray(tones) || !tones.every((tone) => [1, 2, 3, 4, 5].includes(tone))) {
+    throw new Error(`Invalid progress: ${path}.${key} is not a list of tones`);
+  }
+  return tones;
+}
+
+function validateToneReview(value: unknown, path: string): ToneReview {
+  const record = expectRecord(value, path);
+  return {
+    reviewedAt: expectNumber(record, "reviewedAt", path),
+    expected: expectTones(record, "expected", path),
+    answered: expectTones(record, "answered", path),
+  };
+}
+
+function validateMetricsPoint(value: unknown, path: string): DailyMetricsPoint {
+  const record = expectRecord(value, path);
+  return {
+    dateKey: expectString(record, "dateKey", path),
+    knownWords: expectNumber(record, "knownWords", path),
+    memoryStrength: expectNumber(record, "memoryStrength", path),
+  };
+}
+
+/**
+ * Check that migrated data has the current StudentProgress shape.
+ * Throws with the path of the first invalid field; unknown fields are dropped.
+ */
+export function validateProgress(data: StoredProgressData): StudentProgress {
+  const words: Record<string, WordProgress> = {};
+  for (const [word, value] of Object.entries(expectRecord(data.words, "words"))) {
+    words[word] = validateWordProgress(value, `words.${word}`);
+  }
+
+  if (!Array.isArray(data.history)) {
+    throw new Error("Invalid progress: history is not an array");
+  }
+  const history = data.history.map((entry, i) =>
+    validateHistoryEntry(entry, `history[${i}]`)
+  );
+
+  const exerciseLastSeen: Record<string, number> = {};
+  const lastSeen = expectRecord(data.exerciseLastSeen, "exerciseLastSeen");
+  for (const exerciseId of Object.keys(lastSeen)) {
+    exerciseLastSeen[exerciseId] = expectNumber(lastSeen, exerciseId, "exerciseLastSeen");
+  }
+
+  const dailyMetricsHistory: Record<string, DailyMetricsPoint> = {};
+  for (const [dateKey, value] of Object.entries(
+    expectRecord(data.dailyMetricsHistory, "dailyMetricsHistory")
+  )) {
+    dailyMetricsHistory[dateKey] = validateMetricsPoint(value, `dailyMetricsHistory.${dateKey}`);
+  }
+
+  const reviewLog: Record<string, WordReview[]> = {};
+  for (const [word, value] of Object.entries(expectRecord(data.reviewLog, "reviewLog"))) {
+    if (!Array.isArray(value)) {
+      throw new Error(`Invalid progress: reviewLog.${word} is not an array`);
+    }
+    reviewLog[word] = pruneWordReviews(
+      value.map((review, i) => validateWordReview(review, `reviewLog.${word}[${i}]`))
+    );
+  }
+
+  if (!Array.isArray(data.pauses)) {
+    throw new Error("Invalid progress: pauses is not an array");
+  }
+  const pauses = data.pauses.map((pause, i) => validatePauseWindow(pause, `pauses[${i}]`));
+
+  const toneWords: Record<string, WordProgress> = {};
+  for (const [word, value] of Object.entries(expectRecord(data.toneWords, "toneWords"))) {
+    toneWords[word] = validateWordProgress(value, `toneWords.${word}`);
+  }
+
+  const toneLog: Record<string, ToneReview[]> = {};
+  for (const [word, value] of Object.entries(expectRecord(data.toneLog, "toneLog"))) {
+    if (!Array.isArray(value)) {
+      throw new Error(`Invalid progress: toneLog.${word} is not an array`);
+    }
+    toneLog[word] = value.map((review, i) => validateToneReview(review, `toneLog.${word}[${i}]`));
+  }
+
+  const progress: StudentProgress = {
+    words,
+    history,
+    exerciseLastSeen,
+    dailyMetricsHistory,
+    reviewLog,
+    pauses,
+    toneWords,
+    toneLog,
+  };
+  if (data.scheduler !== undefined) {
+    progress.scheduler = validateSchedulerSelection(data.scheduler, "scheduler");
+  }
+  return progress;
+}
+
+/**
+ * Convert progress to the versioned shape used for storage, export and sync.
+ */
+export function toStoredProgress(progress: StudentProgress): StoredProgressData {
+  return {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    words: progress.words,
+    history: progress.history,
+    exerciseLastSeen: progress.exerciseLastSeen,
+    dailyMetricsHistory: progress.dailyMetricsHistory,
+    reviewLog: progress.reviewLog,
+    pauses: progress.pauses,
+    toneWords: progress.toneWords,
+    toneLog: progress.toneLog,
+    ...(progress.scheduler && { scheduler: progress.scheduler }),
+  };
+}
+
+/**
+ * Migrate stored progress of any known version to the current shape.
+ * Throws if the data is unreadable, from a newer app version, or invalid.
+ */
+export function parseStoredProgress(data: unknown): StudentProgress {
+  if (!isRecord(data)) {
+    throw new Error("Invalid progress: stored value is not an object");
+  }
+  return validateProgress(migrateProgressData(data));
+}
@@ -0,0 +1,98 @@
+/**
+ * Server-side storage for synced progress.
+ *
+ * Each sync user has one record whose revision increases on every write.
+ * Writes carry the revision they were based on and only succeed if nobody
+ * else wrote in between (optimistic concurrency).
+ */
+
+export interface StoredProgressRecord {
+  revision: number;
+  /** Serialized progress in the versioned storage format */
+  data: string;
+  updatedAt: number;
+}
+
+export interface ProgressStore {
+  get(userId: string): Promise<StoredProgressRecord | null>;
+  /**
+   * Store new data if the current revision equals `baseRevision` (0 when no
+   * record exists yet). Returns the new record, or null on a conflict.
+   */
+  put(
+    userId: string,
+    baseRevision: number,
+    data: string,
+    updatedAt: number
+  ): Promise<StoredProgressRecord | null>;
+}
+
+/**
+ * The subset of the Cloudflare D1 binding API the store uses.
+ */
+export interface D1DatabaseLike {
+  prepare(query: string): {
+    bind(...values: unknown[]): {
+      first<T = Record<string, unknown>>(): Promise<T | null>;
+      run(): Promise<{ meta: { changes: number } }>;
+    };
+  };
+}
+
+/**
+ * Progress store backed by a D1 database (see migrations/0001_create_progress.sql).
+ * Runs against the local D1 simulation under `wrangler dev`.
+ */
+export function createD1ProgressStore(db: D1DatabaseLike): ProgressStore {
+  return {
+    async get(userId) {
+      const row = await db
+        .prepare("SELECT revision, data, updated_at FROM progress WHERE user_id = ?")
+        .bind(userId)
+        .first<{ revision: number; data: string; updated_at: number }>();
+      return row ? { revision: row.revision, data: row.data, updatedAt: row.updated_at } : null;
+    },
+
+    async put(userId, baseRevision, data, updatedAt) {
+      const result =
+        baseRevision === 0
+          ? await db
+              .prepare(
+                "INSERT INTO progress (user_id, revision, data, updated_at) VALUES (?, 1, ?, ?) ON CONFLICT(user_id) DO NOTHING"
+              )
+              .bind(userId, data, updatedAt)
+              .run()
+          : await db
+              .prepare(
+                "UPDATE progress SET revision = revision + 1, data = ?, updated_at = ? WHERE user_id = ? AND revision = ?"
+              )
+              .bind(data, updatedAt, userId, baseRevision)
+              .run();
+
+      if (result.meta.changes !== 1) return null;
+      return { revision: baseRevision + 1, data, updatedAt };
+    },
+  };
+}
+
+/**
+ * In-memory progress store, the stand-in for `next dev` without bindings and for tests.
+ */
+export function createMemoryProgressStore(): ProgressStore {
+  const records = new Map<string, StoredProgressRecord>();
+
+  return {
+    async get(userId) {
+      return records.get(userId) ?? null;
+    },
+
+    async put(userId, baseRevision, data, updatedAt) {
+      const currentRevision = records.get(userId)?.revision ?? 0;
+      if (currentRevision !== baseRevision) return null;
+
+      const record = { revision: baseRevision + 1, data, updatedAt };
+      records.set(userId, record);
+      return record;
+    },
+  };
+}
@@ -0,0 +1,96 @@
+import { MAX_SYNCED_PROGRESS_BYTES } from "./config";
+import { parseStoredProgress, toStoredProgress } from "./progress-migrations";
+import type { ProgressStore } from "./progress-store";
+
+/**
+ * Framework-independent handlers behind the /api/progress route.
+ */
+export interface SyncResponse {
+  status: number;
+  body: unknown;
+}
+
+/** Sync keys are random client-generated secrets, e.g. UUIDs */
+const SYNC_KEY_PATTERN = /^[A-Za-z0-9-]{16,128}$/;
+
+/**
+ * Derive the storage user ID from the `Authorization: Bearer <sync key>` header.
+ * Only a SHA-256 digest of the key is stored, never the key itself.
+ */
+export async function getSyncUserId(authorization: string | null): Promise<string | null> {
+  const match = authorization?.match(/^Bearer (\S+)$/);
+  if (!match || !SYNC_KEY_PATTERN.test(match[1])) return null;
+
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(match[1]));
+  return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function unauthorized(): SyncResponse {
+  return { status: 401, body: { error: "Missing or invalid sync key." } };
+}
+
+/**
+ * Return the stored progress and its revision (revision 0 when nothing is stored).
+ */
+export async function handleGetProgress(
+  store: ProgressStore,
+  authorization: string | null
+): Promise<SyncResponse> {
+  const userId = await getSyncUserId(authorization);
+  if (!userId) return unauthorized();
+
+  const record = await store.get(userId);
+  return {
+    status: 200,
+    body: record
+      ? { revision: record.revision, progress: JSON.parse(record.data) }
+      : { revision: 0, progress: null },
+  };
+}
+
+/**
+ * Store progress based on `baseRevision`. Responds 409 with the current
+ * record when another device wrote first, so the client can merge and retry.
+ */
+export async function handlePutProgress(
+  store: ProgressStore,
+  authorization: string | null,
+  body: unknown,
+  now: number
+): Promise<SyncResponse> {
+  const userId = await getSyncUserId(authorization);
+  if (!userId) return unauthorized();
+
+  const request = body as { baseRevision?: unknown; progress?: unknown } | null;
+  const baseRevision = request?.baseRevision;
+  if (typeof baseRevision !== "number" || !Number.isInteger(baseRevision) || baseRevision < 0) {
+    return { status: 400, body: { error: "baseRevision must be a non-negative integer." } };
+  }
+
+  let data: string;
+  try {
+    data = JSON.stringify(toStoredProgress(parseStoredProgress(request?.progress)));
+  } catch (error) {
+    return {
+      status: 400,
+      body: { error: error instanceof Error ? error.message : "Invalid progress." },
+    };
+  }
+
+  if (new TextEncoder().encode(data).length > MAX_SYNCED_PROGRESS_BYTES) {
+    return { status: 413, body: { error: "Progress is too large to sync." } };
+  }
+
+  const record = await store.put(userId, baseRevision, data, now);
+  if (record) {
+    return { status: 200, body: { revision: record.revision } };
+  }
+
+  const current = await store.get(userId);
+  return {
+    status: 409,
+    body: current
+      ? { revision: current.revision, progress: JSON.parse(current.data) }
+      : { revision: 0, progress: null },
+  };
+}
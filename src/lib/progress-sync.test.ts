@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { ExerciseHistory, StudentProgress, WordProgress } from "./domain";
+import { createMemoryProgressStore, type ProgressStore } from "./progress-store";
+import { getSyncUserId, handleGetProgress, handlePutProgress } from "./progress-sync-server";
+import { pullAndSyncProgress, pullProgress, syncProgress } from "./progress-sync";
+import { getEmptyProgress } from "./storage";
+
+const SYNC_KEY = "0b9e5f0e-7c1d-4d4a-9a4e-3f2b8c6d1e0a";
+const AUTH = `Bearer ${SYNC_KEY}`;
+
+function makeWord(word: string, lastReviewed: number): WordProgress {
+  return {
+    word,
+    lastReviewed,
+    nextReview: lastReviewed + 30000,
+    intervalSeconds: 30,
+    consecutiveSuccesses: 1,
+  };
+}
+
+function makeEntry(exerciseId: string, completedAt: number): ExerciseHistory {
+  return {
+    exerciseId,
+    completedAt,
+    success: true,
+    chinese: "你好",
+    pinyin: "nǐ hǎo",
+    english: "Hello",
+    wordChanges: [],
+  };
+}
+
+function makeProgress(words: WordProgress[], history: ExerciseHistory[] = []): StudentProgress {
+  return {
+    ...getEmptyProgress(),
+    words: Object.fromEntries(words.map((w) => [w.word, w])),
+    history,
+    exerciseLastSeen: Object.fromEntries(history.map((h) => [h.exerciseId, h.completedAt])),
+  };
+}
+
+describe("progress sync server", () => {
+  let store: ProgressStore;
+
+  beforeEach(() => {
+    store = createMemoryProgressStore();
+  });
+
+  it("rejects missing or malformed sync keys", async () => {
+    expect(await getSyncUserId(null)).toBeNull();
+    expect(await getSyncUserId("Bearer short")).toBeNull();
+    expect((await handleGetProgress(store, null)).status).toBe(401);
+    expect((await handlePutProgress(store, "Basic abc", {}, 0)).status).toBe(401);
+  });
+
+  it("never stores the sync key itself", async () => {
+    const userId = await getSyncUserId(AUTH);
+    expect(userId).toMatch(/^[0-9a-f]{64}$/);
+    expect(userId).not.toContain(SYNC_KEY);
+  });
+
+  it("returns revision 0 before anything is stored", async () => {
+    const response = await handleGetProgress(store, AUTH);
+    expect(response).toEqual({ status: 200, body: { revision: 0, progress: null } });
+  });
+
+  it("rejects invalid payloads", async () => {
+    const progress = makeProgress([makeWord("你", 1000)]);
+    expect((await handlePutProgress(store, AUTH, { progress }, 0)).status).toBe(400);
+    expect(
+      (await handlePutProgress(store, AUTH, { baseRevision: 0, progress: { words: 1 } }, 0)).status
+    ).toBe(400);
+  });
+
+  it("increments the revision and reports conflicts on stale writes", async () => {
+    const first = makeProgress([makeWord("你", 1000)]);
+    const second = makeProgress([makeWord("好", 2000)]);
+
+    const created = await handlePutProgress(store, AUTH, { baseRevision: 0, progress: first }, 1);
+    expect(created).toEqual({ status: 200, body: { revision: 1 } });
+
+    const updated = await handlePutProgress(store, AUTH, { baseRevision: 1, progress: second }, 2);
+    expect(updated).toEqual({ status: 200, body: { revision: 2 } });
+
+    const stale = await handlePutProgress(store, AUTH, { baseRevision: 1, progress: first }, 3);
+    expect(stale.status).toBe(409);
+    expect(stale.body).toMatchObject({ revision: 2, progress: { words: { 好: second.words["好"] } } });
+  });
+});
+
+describe("progress sync client", () => {
+  let store: ProgressStore;
+
+  beforeEach(() => {
+    store = createMemoryProgressStore();
+    // Route client requests straight to the server handlers
+    vi.stubGlobal("fetch", async (_url: string, init?: RequestInit) => {
+      const authorization = new Headers(init?.headers).get("Authorization");
+      const result =
+        init?.method === "PUT"
+          ? await handlePutProgress(store, authorization, JSON.parse(String(init.body)), 0)
+          : await handleGetProgress(store, authorization);
+      return new Response(JSON.stringify(result.body), { status: result.status });
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("pushes local progress to an empty server", async () => {
+    const local = makeProgress([makeWord("你", 1000)], [makeEntry("a", 1000)]);
+
+    const result = await syncProgress(SYNC_KEY, 0, local);
+
+    expect(result.revision).toBe(1);
+    const remote = await pullProgress(SYNC_KEY);
+    expect(remote.revision).toBe(1);
+    expect(remote.progress?.words).toEqual(local.words);
+    expect(remote.progress?.history).toEqual(local.history);
+  });
+
+  it("merges another device's progress after a conflict", async () => {
+    const deviceA = makeProgress([makeWord("你", 1000)], [makeEntry("a", 1000)]);
+    const deviceB = makeProgress([makeWord("好", 2000)], [makeEntry("b", 2000)]);
+
+    await syncProgress(SYNC_KEY, 0, deviceA);
+    const result = await syncProgress(SYNC_KEY, 0, deviceB);
+
+    expect(result.revision).toBe(2);
+    expect(Object.keys(result.progress.words).sort()).toEqual(["你", "好"]);
+    expect(result.progress.history.map((h) => h.exerciseId)).toEqual(["a", "b"]);
+
+    const remote = await pullProgress(SYNC_KEY);
+    expect(Object.keys(remote.progress?.words ?? {}).sort()).toEqual(["你", "好"]);
+  });
+
+  it("does not push when the local progress adds nothing new", async () => {
+    const progress = makeProgress([makeWord("你", 1000)], [makeEntry("a", 1000)]);
+    await syncProgress(SYNC_KEY, 0, progress);
+
+    const result = await pullAndSyncProgress(SYNC_KEY, makeProgress([]));
+
+    expect(result.revision).toBe(1);
+    expect(result.progress.words).toEqual(progress.words);
+  });
+
+  it("surfaces server errors", async () => {
+    await expect(syncProgress("short", 0, makeProgress([]))).rejects.toThrow(
+      "Progress sync failed: Missing or invalid sync key."
+    );
+  });
+});
@@ -0,0 +1,134 @@
+import { SYNC_API_PATH } from "./config";
+import type { StudentProgress } from "./domain/progress";
+import { mergeProgress } from "./progress-merge";
+import { parseStoredProgress, toStoredProgress } from "./progress-migrations";
+
+/**
+ * Client side of progress sync against the /api/progress route.
+ */
+
+/** How many times to merge and retry when another device keeps writing first */
+const MAX_SYNC_ATTEMPTS = 3;
+
+export interface RemoteProgress {
+  revision: number;
+  progress: StudentProgress | null;
+}
+
+export type PushResult =
+  | { ok: true; revision: number }
+  | { ok: false; conflict: RemoteProgress };
+
+/**
+ * Generate a new random sync key. The same key links several devices.
+ */
+export function generateSyncKey(): string {
+  return crypto.randomUUID();
+}
+
+function authHeaders(syncKey: string): HeadersInit {
+  return { Authorization: `Bearer ${syncKey}` };
+}
+
+async function readError(response: Response): Promise<Error> {
+  const body = (await response.json().catch(() => null)) as { error?: unknown } | null;
+  const message = typeof body?.error === "string" ? body.error : response.statusText;
+  return new Error(`Progress sync failed: ${message}`);
+}
+
+function toRemoteProgress(body: { revision: number; progress: unknown }): RemoteProgress {
+  return {
+    revision: body.revision,
+    progress: body.progress === null ? null : parseStoredProgress(body.progress),
+  };
+}
+
+/**
+ * Fetch the synced progress for a sync key.
+ */
+export async function pullProgress(syncKey: string): Promise<RemoteProgress> {
+  const response = await fetch(SYNC_API_PATH, {
+    headers: authHeaders(syncKey),
+    cache: "no-store",
+  });
+  if (!response.ok) {
+    throw await readError(response);
+  }
+  return toRemoteProgress(await response.json());
+}
+
+/**
+ * Upload progress based on the last known revision.
+ */
+export async function pushProgress(
+  syncKey: string,
+  baseRevision: number,
+  progress: StudentProgress
+): Promise<PushResult> {
+  const response = await fetch(SYNC_API_PATH, {
+    method: "PUT",
+    headers: { ...authHeaders(syncKey), "Content-Type": "application/json" },
+    body: JSON.stringify({ baseRevision, progress: toStoredProgress(progress) }),
+  });
+
+  if (response.status === 409) {
+    return { ok: false, conflict: toRemoteProgress(await response.json()) };
+  }
+  if (!response.ok) {
+    throw await readError(response);
+  }
+
+  const body = (await response.json()) as { revision: number };
+  return { ok: true, revision: body.revision };
+}
+
+function isSameProgress(a: StudentProgress, b: StudentProgress): boolean {
+  return JSON.stringify(toStoredProgress(a)) === JSON.stringify(toStoredProgress(b));
+}
+
+/**
+ * Push local progress, merging in remote changes whenever another device
+ * wrote since `baseRevision`. Returns the progress that is now stored remotely.
+ */
+export async function syncProgress(
+  syncKey: string,
+  baseRevision: number,
+  local: StudentProgress
+): Promise<{ progress: StudentProgress; revision: number }> {
+  let progress = local;
+  let revision = baseRevision;
+
+  for (let attempt = 0; attempt < MAX_SYNC_ATTEMPTS; attempt++) {
+    const result = await pushProgress(syncKey, revision, progress);
+    if (result.ok) {
+      return { progress, revision: result.revision };
+    }
+
+    revision = result.conflict.revision;
+    if (result.conflict.progress) {
+      progress = mergeProgress(progress, result.conflict.progress);
+    }
+  }
+
+  throw new Error("Progress sync failed: too many concurrent updates.");
+}
+
+/**
+ * Reconcile local progress with the remote copy when a device connects or
+ * reloads: pull, merge, and only push when the local device has something new.
+ */
+export async function pullAndSyncProgress(
+  syncKey: string,
+  local: StudentProgress
+): Promise<{ progress: StudentProgress; revision: number }> {
+  const remote = await pullProgress(syncKey);
+  if (!remote.progress) {
+    return syncProgress(syncKey, remote.revision, local);
+  }
+
+  const merged = mergeProgress(local, remote.progress);
+  if (isSameProgress(merged, remote.progress)) {
+    return { progress: merged, revision: remote.revision };
+  }
+  return syncProgress(syncKey, remote.revision, merged);
+}
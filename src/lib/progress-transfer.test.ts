@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import type { ExerciseHistory, StudentProgress, WordProgress } from "./domain";
+import { CURRENT_SCHEMA_VERSION } from "./progress-migrations";
+import {
+  applyImport,
+  getExportFileName,
+  parseProgressExport,
+  previewImport,
+  serializeProgressExport,
+} from "./progress-transfer";
+import { getEmptyProgress } from "./storage";
+
+function makeWord(word: string, lastReviewed: number): WordProgress {
+  return {
+    word,
+    lastReviewed,
+    nextReview: lastReviewed + 30000,
+    intervalSeconds: 30,
+    consecutiveSuccesses: 1,
+  };
+}
+
+function makeEntry(exerciseId: string, completedAt: number): ExerciseHistory {
+  return {
+    exerciseId,
+    completedAt,
+    success: true,
+    chinese: "你好",
+    pinyin: "nǐ hǎo",
+    english: "Hello",
+    wordChanges: [],
+  };
+}
+
+function makeProgress(
+  words: WordProgress[],
+  history: ExerciseHistory[] = []
+): StudentProgress {
+  return {
+    ...getEmptyProgress(),
+    words: Object.fromEntries(words.map((w) => [w.word, w])),
+    history,
+    exerciseLastSeen: Object.fromEntries(history.map((h) => [h.exerciseId, h.completedAt])),
+  };
+}
+
+describe("progress export", () => {
+  it("round-trips progress through the export format", () => {
+    const progress = makeProgress([makeWord("你", 1000)], [makeEntry("a", 1000)]);
+
+    const imported = parseProgressExport(serializeProgressExport(progress, 5000));
+
+    expect(imported.progress).toEqual(progress);
+    expect(imported.exportedAt).toBe(5000);
+  });
+
+  it("rejects files that are not progress exports", () => {
+    expect(() => parseProgressExport("not json")).toThrow(/not valid JSON/);
+    expect(() => parseProgressExport(JSON.stringify({ words: {} }))).toThrow(
+      /not an Erudify progress export/
+    );
+  });
+
+  it("rejects exports with invalid progress", () => {
+    const text = JSON.stringify({
+      format: "erudify-progress",
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      words: [],
+    });
+
+    expect(() => parseProgressExport(text)).toThrow(/Invalid progress/);
+  });
+
+  it("names the file after the local export date", () => {
+    const timestamp = new Date(2026, 1, 11, 9, 30).getTime();
+
+    expect(getExportFileName(timestamp)).toBe("erudify-progress-2026-02-11.json");
+  });
+});
+
+describe("progress import", () => {
+  const current = makeProgress(
+    [makeWord("你", 1000), makeWord("好", 1000)],
+    [makeEntry("a", 1000)]
+  );
+  const imported = {
+    progress: makeProgress(
+      [makeWord("你", 2000), makeWord("好", 500), makeWord("我", 2000)],
+      [makeEntry("a", 1000), makeEntry("b", 2000)]
+    ),
+    exportedAt: 3000,
+  };
+
+  it("previews what merging and replacing would change", () => {
+    expect(previewImport(current, imported)).toEqual({
+      exportedAt: 3000,
+      incomingWords: 3,
+      incomingHistory: 2,
+      newWords: 1,
+      updatedWords: 1,
+      newHistory: 1,
+      wordsOnlyInCurrent: 0,
+      historyOnlyInCurrent: 0,
+    });
+  });
+
+  it("replaces progress with the imported snapshot", () => {
+    expect(applyImport(current, imported, "replace")).toBe(imported.progress);
+  });
+
+  it("merges imported progress with the current progress", () => {
+    const merged = applyImport(current, imported, "merge");
+
+    expect(merged.words["你"].lastReviewed).toBe(2000);
+    expect(merged.words["好"].lastReviewed).toBe(1000);
+    expect(merged.words["我"]).toBeDefined();
+    expect(merged.history.map((h) => h.exerciseId)).toEqual(["a", "b"]);
+  });
+});
@@ -0,0 +1,128 @@
+import type { StudentProgress } from "./domain/progress";
+import { getHistoryEntryKey, mergeProgress } from "./progress-merge";
+import { getLocalDateKey } from "./progress-metrics";
+import { parseStoredProgress, toStoredProgress } from "./progress-migrations";
+
+/**
+ * Marker identifying an Erudify progress export file.
+ */
+export const EXPORT_FORMAT = "erudify-progress";
+
+export type ImportMode = "replace" | "merge";
+
+export interface ProgressImport {
+  progress: StudentProgress;
+  /** When the file was exported, if the file records it */
+  exportedAt: number | null;
+}
+
+/**
+ * What an import would change compared to the current progress.
+ */
+export interface ImportPreview {
+  exportedAt: number | null;
+  incomingWords: number;
+  incomingHistory: number;
+  /** Words in the file that are not in the current progress */
+  newWords: number;
+  /** Words in both, reviewed more recently in the file */
+  updatedWords: number;
+  /** Completed exercises in the file that are not in the current history */
+  newHistory: number;
+  /** Words that only exist in the current progress (lost when replacing) */
+  wordsOnlyInCurrent: number;
+  /** Completed exercises that only exist in the current history (lost when replacing) */
+  historyOnlyInCurrent: number;
+}
+
+/**
+ * Serialize progress to the portable export format. The export uses the same
+ * versioned shape as localStorage, so older files go through the migrations.
+ */
+export function serializeProgressExport(progress: StudentProgress, exportedAt: number): string {
+  return JSON.stringify(
+    {
+      format: EXPORT_FORMAT,
+      exportedAt,
+      ...toStoredProgress(progress),
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Parse and validate the contents of an export file.
+ */
+export function parseProgressExport(text: string): ProgressImport {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+
+  if (!data || typeof data !== "object" || (data as { format?: unknown }).format !== EXPORT_FORMAT) {
+    throw new Error("The file is not an Erudify progress export.");
+  }
+
+  const exportedAt = (data as { exportedAt?: unknown }).exportedAt;
+
+  return {
+    progress: parseStoredProgress(data),
+    exportedAt: typeof exportedAt === "number" ? exportedAt : null,
+  };
+}
+
+/**
+ * File name for an export made at the given time, e.g. "erudify-progress-2026-02-11.json".
+ */
+export function getExportFileName(nowMs: number): string {
+  return `${EXPORT_FORMAT}-${getLocalDateKey(nowMs)}.json`;
+}
+
+/**
+ * Compare imported progress against the current progress.
+ */
+export function previewImport(current: StudentProgress, imported: ProgressImport): ImportPreview {
+  const incoming = imported.progress;
+  let newWords = 0;
+  let updatedWords = 0;
+
+  for (const [word, wordProgress] of Object.entries(incoming.words)) {
+    const existing = current.words[word];
+    if (!existing) {
+      newWords += 1;
+    } else if (wordProgress.lastReviewed > existing.lastReviewed) {
+      updatedWords += 1;
+    }
+  }
+
+  const currentKeys = new Set(current.history.map(getHistoryEntryKey));
+  const incomingKeys = new Set(incoming.history.map(getHistoryEntryKey));
+
+  return {
+    exportedAt: imported.exportedAt,
+    incomingWords: Object.keys(incoming.words).length,
+    incomingHistory: incoming.history.length,
+    newWords,
+    updatedWords,
+    newHistory: [...incomingKeys].filter((key) => !currentKeys.has(key)).length,
+    wordsOnlyInCurrent: Object.keys(current.words).filter((word) => !incoming.words[word]).length,
+    historyOnlyInCurrent: [...currentKeys].filter((key) => !incomingKeys.has(key)).length,
+  };
+}
+
+/**
+ * Apply imported progress by replacing or merging with the current progress.
+ */
+export function applyImport(
+  current: StudentProgress,
+  imported: ProgressImport,
+  mode: ImportMode
+): StudentProgress {
+  if (mode === "replace") {
+    return imported.progress;
+  }
+  return mergeProgress(current, imported.progress);
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { forecastReviews } from "./review-forecast";
+import { getEmptyProgress } from "./storage";
+import type { StudentProgress, WordProgress } from "./domain";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOON = new Date(2026, 1, 11, 12).getTime();
+
+function word(name: string, nextReview: number, intervalSeconds: number): WordProgress {
+  return {
+    word: name,
+    lastReviewed: nextReview - intervalSeconds * 1000,
+    nextReview,
+    intervalSeconds,
+    consecutiveSuccesses: 2,
+  };
+}
+
+function makeProgress(words: WordProgress[]): StudentProgress {
+  return { ...getEmptyProgress(), words: Object.fromEntries(words.map((w) => [w.word, w])) };
+}
+
+describe("forecastReviews", () => {
+  it("returns one entry per local day", () => {
+    const forecast = forecastReviews(makeProgress([]), NOON, { days: 30 });
+
+    expect(forecast).toHaveLength(30);
+    expect(forecast[0].dateKey).toBe("2026-02-11");
+    expect(forecast[29].dateKey).toBe("2026-03-12");
+  });
+
+  it("counts overdue words today and follows interval growth", () => {
+    const progress = makeProgress([
+      word("你", NOON - DAY_MS, DAY_MS / 1000),
+      word("好", NOON + 2 * DAY_MS, 7 * DAY_MS / 1000),
+    ]);
+    const forecast = forecastReviews(progress, NOON, { days: 60 });
+    const dueDays = forecast.flatMap((day, index) => (day.dueWords > 0 ? [[index, day.dueWords]] : []));
+
+    // 你: today, 2 days after its last review, then ×5 → 10 days later;
+    // 好: in 2 days, then 35 days later
+    expect(dueDays).toEqual([
+      [0, 1],
+      [2, 1],
+      [10, 1],
+      [37, 1],
+    ]);
+  });
+
+  it("adds the reviews of planned new words until the deck runs out", () => {
+    const forecast = forecastReviews(makeProgress([]), NOON, {
+      days: 10,
+      newWordsPerDay: 3,
+      unseenWords: 5,
+    });
+
+    expect(forecast.map((day) => day.newWords)).toEqual([3, 2, 0, 0, 0, 0, 0, 0, 0, 0]);
+    // First reviews come 7 days after the words are learned
+    expect(forecast[7].dueWords).toBe(3);
+    expect(forecast[8].dueWords).toBe(2);
+  });
+});
@@ -0,0 +1,111 @@
+import type { StudentProgress, WordProgress } from "./domain";
+import { getLocalDateKey, getStartOfLocalDay } from "./progress-metrics";
+import { getProgressScheduler, type Scheduler } from "./scheduler";
+
+/**
+ * Forecast of the review load over the coming days. Each word is reviewed on
+ * the day it falls due and rescheduled by the learner's scheduler as if the
+ * review succeeded, so the forecast follows the expected interval growth.
+ * Overdue words all count on the first day.
+ */
+
+export interface ForecastDay {
+  dateKey: string;
+  /** Words falling due that day (each counted once per day) */
+  dueWords: number;
+  /** Planned new words introduced that day */
+  newWords: number;
+}
+
+export interface ForecastOptions {
+  days: number;
+  /** New words introduced each day, which add to the later review load */
+  newWordsPerDay?: number;
+  /** Words left to introduce; new words stop once they run out */
+  unseenWords?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Stop following a word that keeps getting rescheduled within the day */
+const MAX_REVIEWS_PER_WORD = 1000;
+
+/**
+ * Index of the local day containing `timestamp`, counting from `firstDayStart`
+ */
+function getDayIndex(timestamp: number, firstDayStart: number): number {
+  // Rounding absorbs daylight saving shifts
+  return Math.round((getStartOfLocalDay(timestamp) - firstDayStart) / DAY_MS);
+}
+
+/**
+ * Days, from `firstDayStart`, on which a word starting from `state` falls due
+ * within the forecast
+ */
+function projectDueDays(
+  word: string,
+  state: WordProgress,
+  scheduler: Scheduler,
+  now: number,
+  firstDayStart: number,
+  days: number
+): number[] {
+  const dueDays: number[] = [];
+  let current = state;
+
+  for (let i = 0; i < MAX_REVIEWS_PER_WORD; i++) {
+    const reviewAt = Math.max(current.nextReview, now);
+    const day = getDayIndex(reviewAt, firstDayStart);
+    if (day >= days) break;
+    if (dueDays.at(-1) !== day) dueDays.push(day);
+    current = scheduler.review(word, current, "good", reviewAt).progress;
+  }
+
+  return dueDays;
+}
+
+export function forecastReviews(
+  progress: StudentProgress,
+  now: number,
+  options: ForecastOptions
+): ForecastDay[] {
+  const scheduler = getProgressScheduler(progress);
+  const firstDayStart = getStartOfLocalDay(now);
+  const forecast: ForecastDay[] = [];
+
+  // Midday of each day stays on the right date across daylight saving changes
+  const getMidday = (day: number) => firstDayStart + day * DAY_MS + DAY_MS / 2;
+
+  for (let day = 0; day < options.days; day++) {
+    forecast.push({ dateKey: getLocalDateKey(getMidday(day)), dueWords: 0, newWords: 0 });
+  }
+
+  for (const wordProgress of Object.values(progress.words)) {
+    for (const day of projectDueDays(
+      wordProgress.word,
+      wordProgress,
+      scheduler,
+      now,
+      firstDayStart,
+      options.days
+    )) {
+      forecast[day].dueWords += 1;
+    }
+  }
+
+  let unseenWords = options.unseenWords ?? Infinity;
+  for (let day = 0; day < options.days && unseenWords > 0; day++) {
+    const count = Math.min(options.newWordsPerDay ?? 0, unseenWords);
+    if (count === 0) break;
+    unseenWords -= count;
+    forecast[day].newWords = count;
+
+    // Every word introduced the same day follows the same schedule
+    const introducedAt = Math.max(now, getMidday(day));
+    const { progress: learned } = scheduler.review("", null, "good", introducedAt);
+    for (const dueDay of projectDueDays("", learned, scheduler, now, firstDayStart, options.days)) {
+      forecast[dueDay].dueWords += count;
+    }
+  }
+
+  return forecast;
+}
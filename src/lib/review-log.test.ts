@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { updateWordFailure, updateWordReview, updateWordSuccess } from "./exercises";
+import {
+  countLapses,
+  getRecallRate,
+  getReviewsBetween,
+  getWordReviews,
+  MAX_REVIEWS_PER_WORD,
+} from "./review-log";
+import { getEmptyProgress } from "./storage";
+
+describe("review log", () => {
+  it("is maintained by the word update functions", () => {
+    let progress = updateWordSuccess("你", "nǐ", getEmptyProgress(), 1000, { exerciseId: "a" }).progress;
+    progress = updateWordReview("你", "nǐ", progress, 61000, "hard", { exerciseId: "b" }).progress;
+
+    expect(getWordReviews(progress, "你")).toEqual([
+      {
+        reviewedAt: 1000,
+        grade: "good",
+        elapsedSeconds: null,
+        oldIntervalSeconds: null,
+        newIntervalSeconds: 7 * 24 * 60 * 60,
+        exerciseId: "a",
+      },
+      {
+        reviewedAt: 61000,
+        grade: "hard",
+        elapsedSeconds: 60,
+        oldIntervalSeconds: 7 * 24 * 60 * 60,
+        newIntervalSeconds: 7 * 24 * 60 * 60,
+        exerciseId: "b",
+      },
+    ]);
+    expect(getWordReviews(progress, "好")).toEqual([]);
+  });
+
+  it("keeps only the latest reviews of each word", () => {
+    const count = MAX_REVIEWS_PER_WORD + 5;
+    let progress = getEmptyProgress();
+    for (let i = 1; i <= count; i++) {
+      progress = updateWordSuccess("你", "nǐ", progress, i * 1000).progress;
+    }
+    progress = updateWordSuccess("好", "hǎo", progress, (count + 1) * 1000).progress;
+
+    const reviews = getWordReviews(progress, "你");
+    expect(reviews).toHaveLength(MAX_REVIEWS_PER_WORD);
+    expect(reviews[0].reviewedAt).toBe(6000);
+    expect(reviews.at(-1)!.reviewedAt).toBe(count * 1000);
+    expect(getWordReviews(progress, "好")).toHaveLength(1);
+  });
+
+  it("lists reviews of all words within a time range", () => {
+    let progress = updateWordSuccess("你", "nǐ", getEmptyProgress(), 1000).progress;
+    progress = updateWordSuccess("好", "hǎo", progress, 2000).progress;
+    progress = updateWordFailure("你", "nǐ", progress, 3000).progress;
+
+    expect(getReviewsBetween(progress).map((r) => [r.word, r.reviewedAt])).toEqual([
+      ["你", 1000],
+      ["好", 2000],
+      ["你", 3000],
+    ]);
+    expect(getReviewsBetween(progress, 2000, 3000).map((r) => r.word)).toEqual(["好"]);
+  });
+
+  it("counts lapses and the recall rate of repeat reviews", () => {
+    let progress = updateWordFailure("你", "nǐ", getEmptyProgress(), 1000).progress;
+    progress = updateWordSuccess("你", "nǐ", progress, 2000).progress;
+    progress = updateWordFailure("你", "nǐ", progress, 3000).progress;
+    progress = updateWordSuccess("你", "nǐ", progress, 4000).progress;
+    const reviews = getWordReviews(progress, "你");
+
+    // The first review was new-word learning, not a lapse
+    expect(countLapses(reviews)).toBe(1);
+    expect(getRecallRate(reviews)).toBeCloseTo(2 / 3);
+    expect(getRecallRate([])).toBeNull();
+  });
+});
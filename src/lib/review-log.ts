@@ -0,0 +1,128 @@
+import type { RecallGrade, StudentProgress, WordProgress, WordReview } from "./domain";
+
+/**
+ * Reviews kept per word. The log is saved and synced with the rest of the
+ * progress, so older reviews are dropped instead of growing it without limit;
+ * the latest ones cover leech detection, recall rates and the optimizer.
+ */
+export const MAX_REVIEWS_PER_WORD = 20;
+
+/**
+ * A review together with the word it belongs to
+ */
+export interface LoggedReview extends WordReview {
+  word: string;
+}
+
+/**
+ * Build the log entry for a review that moved a word from `existing` to `updated`.
+ */
+export function createWordReview(
+  existing: WordProgress | null,
+  updated: WordProgress,
+  grade: RecallGrade,
+  exerciseId: string | null
+): WordReview {
+  return {
+    reviewedAt: updated.lastReviewed,
+    grade,
+    elapsedSeconds: existing ? (updated.lastReviewed - existing.lastReviewed) / 1000 : null,
+    oldIntervalSeconds: existing?.intervalSeconds ?? null,
+    newIntervalSeconds: updated.intervalSeconds,
+    exerciseId,
+  };
+}
+
+/**
+ * Keep the latest MAX_REVIEWS_PER_WORD reviews of a word, oldest first
+ */
+export function pruneWordReviews(reviews: WordReview[]): WordReview[] {
+  return reviews.length > MAX_REVIEWS_PER_WORD ? reviews.slice(-MAX_REVIEWS_PER_WORD) : reviews;
+}
+
+/**
+ * Append a review to a word's log, dropping its oldest reviews past the cap
+ */
+export function appendWordReview(
+  reviewLog: Record<string, WordReview[]>,
+  word: string,
+  review: WordReview
+): Record<string, WordReview[]> {
+  return { ...reviewLog, [word]: pruneWordReviews([...(reviewLog[word] ?? []), review]) };
+}
+
+/**
+ * Get all reviews of a word, oldest first
+ */
+export function getWordReviews(progress: StudentProgress, word: string): WordReview[] {
+  return progress.reviewLog[word] ?? [];
+}
+
+/**
+ * Get the reviews of every word within [from, to), oldest first
+ */
+export function getReviewsBetween(
+  progress: StudentProgress,
+  from: number = -Infinity,
+  to: number = Infinity
+): LoggedReview[] {
+  const reviews: LoggedReview[] = [];
+  for (const [word, wordReviews] of Object.entries(progress.reviewLog)) {
+    for (const review of wordReviews) {
+      if (review.reviewedAt >= from && review.reviewedAt < to) {
+        reviews.push({ ...review, word });
+      }
+    }
+  }
+  return reviews.sort(
+    (a, b) => a.reviewedAt - b.reviewedAt || (a.word < b.word ? -1 : a.word > b.word ? 1 : 0)
+  );
+}
+
+/**
+ * Count lapses: reviews graded "again" after the word had been reviewed before
+ */
+export function countLapses(reviews: WordReview[]): number {
+  return reviews.filter((review) => review.grade === "again" && review.elapsedSeconds !== null)
+    .length;
+}
+
+/**
+ * Share of repeat reviews that were recalled (not graded "again"), or null
+ * when the word has never been reviewed twice
+ */
+export function getRecallRate(reviews: WordReview[]): number | null {
+  const repeats = reviews.filter((review) => review.elapsedSeconds !== null);
+  if (repeats.length === 0) return null;
+  return repeats.filter((review) => review.grade !== "again").length / repeats.length;
+}
+
+/**
+ * Rebuild review logs from the word changes recorded in exercise history.
+ */
+export function buildReviewLogFromHistory(
+  history: StudentProgress["history"]
+): Record<string, WordReview[]> {
+  const reviewLog: Record<string, WordReview[]> = {};
+  const sorted = [...history].sort((a, b) => a.completedAt - b.completedAt);
+
+  for (const entry of sorted) {
+    for (const change of entry.wordChanges) {
+      const previous = reviewLog[change.word]?.at(-1);
+      const review: WordReview = {
+        reviewedAt: entry.completedAt,
+        grade: change.grade ?? (change.wasFailure ? "again" : "good"),
+        elapsedSeconds: previous ? (entry.completedAt - previous.reviewedAt) / 1000 : null,
+        oldIntervalSeconds: previous?.newIntervalSeconds ?? null,
+        newIntervalSeconds: change.newIntervalSeconds,
+        exerciseId: entry.exerciseId,
+      };
+      (reviewLog[change.word] ??= []).push(review);
+    }
+  }
+
+  for (const [word, reviews] of Object.entries(reviewLog)) {
+    reviewLog[word] = pruneWordReviews(reviews);
+  }
+  return reviewLog;
+}
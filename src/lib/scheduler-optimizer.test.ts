@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import type { WordReview } from "./domain";
+import {
+  evaluateConfig,
+  MIN_REVIEWS_TO_OPTIMIZE,
+  optimizeConfig,
+  scaleConfigToRetention,
+} from "./scheduler-optimizer";
+import {
+  calculateFailureInterval,
+  calculateNewInterval,
+  DEFAULT_CONFIG,
+  type SpacedRepetitionConfig,
+  type WordState,
+} from "./spaced-repetition";
+
+/** Deterministic pseudo-random numbers in [0, 1) */
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+    return state / 2 ** 32;
+  };
+}
+
+/**
+ * Simulate a learner whose memory follows `truth`: reviews happen at random
+ * points around the true interval and are recalled with probability
+ * 0.9^(elapsed / interval).
+ */
+function simulateReviewLog(
+  truth: SpacedRepetitionConfig,
+  words: number,
+  reviewsPerWord: number
+): Record<string, WordReview[]> {
+  const random = createRandom(42);
+  const reviewLog: Record<string, WordReview[]> = {};
+
+  for (let w = 0; w < words; w++) {
+    const reviews: WordReview[] = [];
+    let state: WordState | null = null;
+    let now = 0;
+
+    for (let r = 0; r < reviewsPerWord; r++) {
+      let recalled = true;
+      if (state) {
+        const elapsedSeconds: number = state.intervalSeconds * (0.5 + random() * 1.5);
+        now += elapsedSeconds * 1000;
+        recalled = random() < Math.pow(0.9, elapsedSeconds / state.intervalSeconds);
+      }
+
+      const next: { newInterval: number; consecutiveSuccesses: number } = recalled
+        ? calculateNewInterval(state, now, truth)
+        : calculateFailureInterval(truth);
+      reviews.push({
+        reviewedAt: now,
+        grade: recalled ? "good" : "again",
+        elapsedSeconds: state ? (now - state.lastReviewed) / 1000 : null,
+        oldIntervalSeconds: state?.intervalSeconds ?? null,
+        newIntervalSeconds: next.newInterval,
+        exerciseId: null,
+      });
+      state = {
+        intervalSeconds: next.newInterval,
+        lastReviewed: now,
+        consecutiveSuccesses: next.consecutiveSuccesses,
+      };
+    }
+    reviewLog[`w${w}`] = reviews;
+  }
+
+  return reviewLog;
+}
+
+const TRUTH: SpacedRepetitionConfig = {
+  ...DEFAULT_CONFIG,
+  firstTimeSuccessIntervalSeconds: 2 * 24 * 60 * 60,
+  goodReviewMultiplier: 2.5,
+};
+
+describe("scheduler optimizer", () => {
+  it("only scores repeat reviews", () => {
+    const reviewLog = simulateReviewLog(TRUTH, 3, 4);
+    expect(evaluateConfig(reviewLog, DEFAULT_CONFIG).reviewCount).toBe(9);
+    expect(evaluateConfig({}, DEFAULT_CONFIG).reviewCount).toBe(0);
+  });
+
+  it("doesn't count paused time between reviews as elapsed", () => {
+    const reviewLog = simulateReviewLog(TRUTH, 3, 4);
+    const pause = { start: 1, end: 1 + 30 * 24 * 60 * 60 * 1000 };
+    const length = pause.end - pause.start;
+    const paused = Object.fromEntries(
+      Object.entries(reviewLog).map(([word, reviews]) => [
+        word,
+        reviews.map((review) =>
+          review.reviewedAt >= pause.start
+            ? { ...review, reviewedAt: review.reviewedAt + length }
+            : review
+        ),
+      ])
+    );
+
+    const expected = evaluateConfig(reviewLog, DEFAULT_CONFIG).logLoss;
+    expect(evaluateConfig(paused, DEFAULT_CONFIG, [pause]).logLoss).toBeCloseTo(expected, 9);
+    expect(evaluateConfig(paused, DEFAULT_CONFIG).logLoss).not.toBeCloseTo(expected);
+  });
+
+  it("predicts the learner's recall better than the defaults", () => {
+    const reviewLog = simulateReviewLog(TRUTH, 60, 6);
+    const result = optimizeConfig(reviewLog, 0.9);
+
+    expect(result.fitted.logLoss).toBeLessThan(result.baseline.logLoss);
+    expect(result.fittedConfig.firstTimeSuccessIntervalSeconds).toBeLessThan(
+      DEFAULT_CONFIG.firstTimeSuccessIntervalSeconds
+    );
+    expect(result.fittedConfig.goodReviewMultiplier).toBeLessThan(
+      DEFAULT_CONFIG.goodReviewMultiplier
+    );
+    expect(Math.abs(result.fitted.predictedRecallRate - result.fitted.actualRecallRate)).toBeLessThan(
+      0.05
+    );
+  });
+
+  it("is deterministic", () => {
+    const reviewLog = simulateReviewLog(TRUTH, 20, 5);
+    expect(optimizeConfig(reviewLog, 0.85)).toEqual(optimizeConfig(reviewLog, 0.85));
+  });
+
+  it("schedules longer intervals for lower target retention", () => {
+    expect(scaleConfigToRetention(DEFAULT_CONFIG, 0.9)).toEqual(DEFAULT_CONFIG);
+
+    const relaxed = scaleConfigToRetention(DEFAULT_CONFIG, 0.8);
+    expect(relaxed.firstTimeSuccessIntervalSeconds).toBeGreaterThan(
+      DEFAULT_CONFIG.firstTimeSuccessIntervalSeconds
+    );
+    expect(relaxed.goodReviewMultiplier).toBeGreaterThan(DEFAULT_CONFIG.goodReviewMultiplier);
+
+    const strict = scaleConfigToRetention(DEFAULT_CONFIG, 0.97);
+    expect(strict.hardReviewMultiplier).toBeGreaterThanOrEqual(1);
+  });
+
+  it("rejects short logs and out-of-range targets", () => {
+    const reviewLog = simulateReviewLog(TRUTH, 60, 6);
+    expect(() => optimizeConfig(simulateReviewLog(TRUTH, 2, 3), 0.9)).toThrow(
+      `At least ${MIN_REVIEWS_TO_OPTIMIZE} repeat reviews`
+    );
+    expect(() => optimizeConfig(reviewLog, 0.5)).toThrow("Target retention");
+  });
+});
@@ -0,0 +1,239 @@
+import type { PauseWindow, WordReview } from "./domain";
+import { getPausedMs } from "./pauses";
+import {
+  calculateFailureInterval,
+  calculateNewInterval,
+  DEFAULT_CONFIG,
+  type SpacedRepetitionConfig,
+  type WordState,
+} from "./spaced-repetition";
+
+/**
+ * Offline optimizer for the Erudify scheduler. It replays a learner's review
+ * log under candidate configs, reading each scheduled interval as the time at
+ * which recall falls to MODEL_RETENTION, and keeps the config whose predictions
+ * best match what the learner actually recalled. Pure, so it runs in the
+ * browser and in scripts/optimize-scheduler.ts alike.
+ */
+
+/** Recall probability the model assumes at the end of a scheduled interval */
+const MODEL_RETENTION = 0.9;
+/** Keep predictions away from 0 and 1 so one surprise can't dominate the loss */
+const MIN_PREDICTION = 0.001;
+/** Multiplicative search steps, coarse to fine */
+const STEP_SIZES = [2, 1.4, 1.15, 1.05];
+const MAX_PASSES_PER_STEP = 10;
+
+export const MIN_TARGET_RETENTION = 0.7;
+export const MAX_TARGET_RETENTION = 0.97;
+/** Fewer repeat reviews than this say more about luck than about memory */
+export const MIN_REVIEWS_TO_OPTIMIZE = 50;
+
+type TunableKey =
+  | "firstTimeSuccessIntervalSeconds"
+  | "goodReviewMultiplier"
+  | "hardReviewMultiplier"
+  | "easyReviewMultiplier"
+  | "earlyReviewMultiplier";
+
+const BOUNDS: Record<TunableKey, [number, number]> = {
+  firstTimeSuccessIntervalSeconds: [60 * 60, 60 * 24 * 60 * 60],
+  goodReviewMultiplier: [1.2, 10],
+  hardReviewMultiplier: [1, 10],
+  easyReviewMultiplier: [1.2, 20],
+  earlyReviewMultiplier: [1, 2],
+};
+
+const TUNABLE_KEYS = Object.keys(BOUNDS) as TunableKey[];
+
+export interface FitMetrics {
+  /** Mean negative log-likelihood of the actual outcomes (lower is better) */
+  logLoss: number;
+  /** Mean predicted recall probability */
+  predictedRecallRate: number;
+  /** Share of reviews that were actually recalled */
+  actualRecallRate: number;
+  /** Repeat reviews the metrics are based on */
+  reviewCount: number;
+}
+
+export interface OptimizationResult {
+  /** Config proposed for the target retention */
+  config: SpacedRepetitionConfig;
+  /** Best-fitting config before scaling to the target retention */
+  fittedConfig: SpacedRepetitionConfig;
+  targetRetention: number;
+  /** How well the starting config predicts the learner's recall */
+  baseline: FitMetrics;
+  /** How well the fitted model predicts it */
+  fitted: FitMetrics;
+}
+
+function clamp(value: number, [min, max]: [number, number]): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Keep the config within bounds and hard ≤ good ≤ easy.
+ */
+function constrain(config: SpacedRepetitionConfig): SpacedRepetitionConfig {
+  const constrained = { ...config };
+  for (const key of TUNABLE_KEYS) {
+    constrained[key] = clamp(constrained[key], BOUNDS[key]);
+  }
+  constrained.hardReviewMultiplier = Math.min(
+    constrained.hardReviewMultiplier,
+    constrained.goodReviewMultiplier
+  );
+  constrained.easyReviewMultiplier = Math.max(
+    constrained.easyReviewMultiplier,
+    constrained.goodReviewMultiplier
+  );
+  return constrained;
+}
+
+/**
+ * Replay every word's reviews under `config` and score its recall predictions.
+ * Time within `pauses` doesn't count as elapsed, as in live scheduling.
+ */
+export function evaluateConfig(
+  reviewLog: Record<string, WordReview[]>,
+  config: SpacedRepetitionConfig,
+  pauses: PauseWindow[] = []
+): FitMetrics {
+  let loss = 0;
+  let predictedSum = 0;
+  let recalledCount = 0;
+  let reviewCount = 0;
+
+  for (const reviews of Object.values(reviewLog)) {
+    let state: WordState | null = null;
+
+    for (const review of reviews) {
+      const recalled = review.grade !== "again";
+
+      if (state) {
+        const paused = getPausedMs(pauses, state.lastReviewed, review.reviewedAt);
+        state = { ...state, lastReviewed: state.lastReviewed + paused };
+        const elapsedSeconds = Math.max(0, (review.reviewedAt - state.lastReviewed) / 1000);
+        const predicted = clamp(Math.pow(MODEL_RETENTION, elapsedSeconds / state.intervalSeconds), [
+          MIN_PREDICTION,
+          1 - MIN_PREDICTION,
+        ]);
+        loss -= Math.log(recalled ? predicted : 1 - predicted);
+        predictedSum += predicted;
+        recalledCount += recalled ? 1 : 0;
+        reviewCount++;
+      }
+
+      const next: { newInterval: number; consecutiveSuccesses: number } =
+        review.grade === "again"
+          ? calculateFailureInterval(config)
+          : calculateNewInterval(state, review.reviewedAt, config, review.grade);
+      state = {
+        intervalSeconds: next.newInterval,
+        lastReviewed: review.reviewedAt,
+        consecutiveSuccesses: next.consecutiveSuccesses,
+      };
+    }
+  }
+
+  if (reviewCount === 0) {
+    return { logLoss: 0, predictedRecallRate: 0, actualRecallRate: 0, reviewCount: 0 };
+  }
+  return {
+    logLoss: loss / reviewCount,
+    predictedRecallRate: predictedSum / reviewCount,
+    actualRecallRate: recalledCount / reviewCount,
+    reviewCount,
+  };
+}
+
+/**
+ * Fit the config that best predicts the logged recall (pattern search:
+ * move one parameter at a time, shrinking the step once nothing improves).
+ */
+export function fitConfig(
+  reviewLog: Record<string, WordReview[]>,
+  initial: SpacedRepetitionConfig = DEFAULT_CONFIG,
+  pauses: PauseWindow[] = []
+): SpacedRepetitionConfig {
+  let best = constrain(initial);
+  let bestLoss = evaluateConfig(reviewLog, best, pauses).logLoss;
+
+  for (const step of STEP_SIZES) {
+    for (let pass = 0; pass < MAX_PASSES_PER_STEP; pass++) {
+      let improved = false;
+      for (const key of TUNABLE_KEYS) {
+        for (const factor of [step, 1 / step]) {
+          const candidate = constrain({ ...best, [key]: best[key] * factor });
+          const loss = evaluateConfig(reviewLog, candidate, pauses).logLoss;
+          if (loss < bestLoss - 1e-9) {
+            best = candidate;
+            bestLoss = loss;
+            improved = true;
+          }
+        }
+      }
+      if (!improved) break;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Scale a fitted config so reviews fall due when predicted recall reaches
+ * `targetRetention` instead of MODEL_RETENTION.
+ */
+export function scaleConfigToRetention(
+  config: SpacedRepetitionConfig,
+  targetRetention: number
+): SpacedRepetitionConfig {
+  const scale = Math.log(targetRetention) / Math.log(MODEL_RETENTION);
+  return {
+    ...config,
+    firstTimeSuccessIntervalSeconds: Math.round(config.firstTimeSuccessIntervalSeconds * scale),
+    // Never shrink an interval after a successful recall
+    hardReviewMultiplier: Math.max(1, config.hardReviewMultiplier * scale),
+    goodReviewMultiplier: Math.max(1, config.goodReviewMultiplier * scale),
+    easyReviewMultiplier: Math.max(1, config.easyReviewMultiplier * scale),
+  };
+}
+
+/**
+ * Propose a personalised config for the learner's review log.
+ * Throws when the log is too short to fit or the target is out of range.
+ */
+export function optimizeConfig(
+  reviewLog: Record<string, WordReview[]>,
+  targetRetention: number,
+  current: SpacedRepetitionConfig = DEFAULT_CONFIG,
+  pauses: PauseWindow[] = []
+): OptimizationResult {
+  if (
+    !Number.isFinite(targetRetention) ||
+    targetRetention < MIN_TARGET_RETENTION ||
+    targetRetention > MAX_TARGET_RETENTION
+  ) {
+    throw new Error(
+      `Target retention must be between ${MIN_TARGET_RETENTION} and ${MAX_TARGET_RETENTION}.`
+    );
+  }
+
+  const baseline = evaluateConfig(reviewLog, current, pauses);
+  if (baseline.reviewCount < MIN_REVIEWS_TO_OPTIMIZE) {
+    throw new Error(
+      `At least ${MIN_REVIEWS_TO_OPTIMIZE} repeat reviews are needed to optimize; found ${baseline.reviewCount}.`
+    );
+  }
+
+  const fittedConfig = fitConfig(reviewLog, current, pauses);
+  return {
+    config: scaleConfigToRetention(fittedConfig, targetRetention),
+    fittedConfig,
+    targetRetention,
+    baseline,
+    fitted: evaluateConfig(reviewLog, fittedConfig, pauses),
+  };
+}
@@ -0,0 +1,183 @@
+import { describe, expect, it } from "vitest";
+import type { RecallGrade, SchedulerId, WordProgress } from "./domain";
+import { updateWordFailure, updateWordReview, updateWordSuccess } from "./exercises";
+import { DEFAULT_FSRS_PARAMS, getFsrsIntervalDays } from "./fsrs";
+import { mergeProgress } from "./progress-merge";
+import { parseStoredProgress, toStoredProgress } from "./progress-migrations";
+import {
+  getProgressScheduler,
+  getScheduler,
+  SCHEDULER_IDS,
+  selectScheduler,
+} from "./scheduler";
+import { getEmptyProgress } from "./storage";
+
+const DAY_SECONDS = 24 * 60 * 60;
+const DAY_MS = DAY_SECONDS * 1000;
+
+/** Review a word on the day it becomes due */
+function reviewOnTime(word: WordProgress | null, grade: RecallGrade, id: SchedulerId = "sm2") {
+  const completedAt = word ? word.nextReview : 0;
+  return getScheduler(id).review("你", word, grade, completedAt);
+}
+
+describe("scheduler", () => {
+  it("uses the original algorithm unless the learner chose another one", () => {
+    expect(getProgressScheduler(getEmptyProgress()).id).toBe("erudify");
+
+    const { progress } = updateWordSuccess("你", "nǐ", getEmptyProgress(), 0);
+    expect(progress.words["你"].intervalSeconds).toBe(7 * DAY_SECONDS);
+    expect(progress.words["你"].sm2).toBeUndefined();
+    expect(progress.words["你"].fsrs).toBeUndefined();
+  });
+
+  it("routes word updates through the selected scheduler", () => {
+    const progress = selectScheduler(getEmptyProgress(), "sm2", 0);
+    const { progress: updated, change } = updateWordSuccess("你", "nǐ", progress, 0);
+
+    expect(updated.words["你"].intervalSeconds).toBe(DAY_SECONDS);
+    expect(updated.words["你"].sm2).toEqual({ easeFactor: 2.5, repetitions: 1 });
+    expect(change.newIntervalSeconds).toBe(DAY_SECONDS);
+  });
+
+  it("keeps other algorithms' state when switching", () => {
+    let progress = selectScheduler(getEmptyProgress(), "sm2", 0);
+    progress = updateWordSuccess("你", "nǐ", progress, 0).progress;
+    progress = selectScheduler(progress, "fsrs", 1);
+    progress = updateWordSuccess("你", "nǐ", progress, DAY_MS).progress;
+
+    expect(progress.words["你"].sm2).toEqual({ easeFactor: 2.5, repetitions: 1 });
+    expect(progress.words["你"].fsrs).toBeDefined();
+  });
+
+  it("round-trips scheduler state through storage", () => {
+    let progress = selectScheduler(getEmptyProgress(), "fsrs", 5);
+    progress = updateWordFailure("你", "nǐ", progress, 0).progress;
+
+    expect(parseStoredProgress(JSON.parse(JSON.stringify(toStoredProgress(progress))))).toEqual(
+      progress
+    );
+    expect(() =>
+      parseStoredProgress({ ...toStoredProgress(progress), scheduler: { id: "x", selectedAt: 0 } })
+    ).toThrow("scheduler.id is not a known scheduler");
+  });
+
+  it("keeps the most recent scheduler choice when merging", () => {
+    const a = selectScheduler(getEmptyProgress(), "sm2", 10);
+    const b = selectScheduler(getEmptyProgress(), "fsrs", 20);
+
+    expect(mergeProgress(a, b).scheduler).toEqual({ id: "fsrs", selectedAt: 20 });
+    expect(mergeProgress(b, a).scheduler).toEqual({ id: "fsrs", selectedAt: 20 });
+    expect(mergeProgress(getEmptyProgress(), getEmptyProgress())).not.toHaveProperty("scheduler");
+  });
+
+  it("schedules failures for relearning in the same session", () => {
+    for (const id of SCHEDULER_IDS) {
+      const first = reviewOnTime(null, "good", id).progress;
+      const failed = getScheduler(id).review("你", first, "again", first.nextReview);
+      expect(failed.progress.intervalSeconds).toBe(30);
+      expect(failed.progress.consecutiveSuccesses).toBe(0);
+    }
+  });
+});
+
+describe("graded reviews", () => {
+  it("gives longer intervals for easier recalls", () => {
+    for (const id of ["erudify", "fsrs"] as const) {
+      const first = reviewOnTime(null, "good", id).progress;
+      const [hard, good, easy] = (["hard", "good", "easy"] as const).map(
+        (grade) => reviewOnTime(first, grade, id).progress.intervalSeconds
+      );
+      expect(hard).toBeLessThan(good);
+      expect(good).toBeLessThan(easy);
+    }
+  });
+
+  it("lets SM-2 grades adjust the ease factor for later reviews", () => {
+    const first = reviewOnTime(null, "good").progress;
+    const [hard, good, easy] = (["hard", "good", "easy"] as const).map(
+      (grade) => reviewOnTime(first, grade).progress.sm2!.easeFactor
+    );
+
+    expect(hard).toBeCloseTo(2.36);
+    expect(good).toBe(2.5);
+    expect(easy).toBeCloseTo(2.6);
+  });
+
+  it("records the grade on the interval change", () => {
+    const { change } = updateWordReview("你", "nǐ", getEmptyProgress(), 0, "hard");
+
+    expect(change.grade).toBe("hard");
+    expect(change.wasFailure).toBe(false);
+  });
+});
+
+describe("SM-2 scheduler", () => {
+  it("grows intervals 1 day, 6 days, then by the ease factor", () => {
+    const first = reviewOnTime(null, "good").progress;
+    const second = reviewOnTime(first, "good").progress;
+    const third = reviewOnTime(second, "good").progress;
+
+    expect(first.intervalSeconds).toBe(DAY_SECONDS);
+    expect(second.intervalSeconds).toBe(6 * DAY_SECONDS);
+    expect(third.intervalSeconds).toBe(15 * DAY_SECONDS);
+    expect(third.sm2).toEqual({ easeFactor: 2.5, repetitions: 3 });
+  });
+
+  it("lowers the ease factor and restarts repetitions on failure", () => {
+    const first = reviewOnTime(null, "good").progress;
+    const failed = reviewOnTime(first, "again").progress;
+    const relearned = getScheduler("sm2").review("你", failed, "good", failed.nextReview).progress;
+
+    expect(failed.sm2?.easeFactor).toBeCloseTo(2.18);
+    expect(failed.sm2?.repetitions).toBe(0);
+    expect(relearned.intervalSeconds).toBe(DAY_SECONDS);
+  });
+
+  it("does not count early reviews as repetitions", () => {
+    const first = reviewOnTime(null, "good").progress;
+    const early = getScheduler("sm2").review("你", first, "good", first.lastReviewed + 1000);
+
+    expect(early.wasEarlyReview).toBe(true);
+    expect(early.progress.intervalSeconds).toBe(first.intervalSeconds);
+    expect(early.progress.sm2).toEqual(first.sm2);
+  });
+});
+
+describe("FSRS scheduler", () => {
+  it("starts new words at the initial stability for a good rating", () => {
+    const first = reviewOnTime(null, "good", "fsrs").progress;
+
+    expect(first.fsrs?.stability).toBeCloseTo(DEFAULT_FSRS_PARAMS.weights[2]);
+    expect(first.intervalSeconds / DAY_SECONDS).toBeCloseTo(
+      getFsrsIntervalDays(first.fsrs!.stability, DEFAULT_FSRS_PARAMS.requestRetention),
+      3
+    );
+  });
+
+  it("increases stability on on-time successes and reduces it on failure", () => {
+    const first = reviewOnTime(null, "good", "fsrs").progress;
+    const second = reviewOnTime(first, "good", "fsrs").progress;
+    const failed = reviewOnTime(second, "again", "fsrs").progress;
+
+    expect(second.fsrs!.stability).toBeGreaterThan(first.fsrs!.stability);
+    expect(second.intervalSeconds).toBeGreaterThan(first.intervalSeconds);
+    expect(failed.fsrs!.stability).toBeLessThan(second.fsrs!.stability);
+    expect(failed.fsrs!.difficulty).toBeGreaterThan(second.fsrs!.difficulty);
+  });
+
+  it("gains little stability from a review right after the last one", () => {
+    const first = reviewOnTime(null, "good", "fsrs").progress;
+    const early = getScheduler("fsrs").review("你", first, "good", first.lastReviewed + 60_000);
+
+    expect(early.wasEarlyReview).toBe(true);
+    expect(early.progress.fsrs!.stability).toBeCloseTo(first.fsrs!.stability, 1);
+  });
+
+  it("seeds state for words scheduled by another algorithm", () => {
+    const word = updateWordSuccess("你", "nǐ", getEmptyProgress(), 0).progress.words["你"];
+    const reviewed = reviewOnTime(word, "good", "fsrs").progress;
+
+    expect(reviewed.fsrs!.stability).toBeGreaterThan(7);
+  });
+});
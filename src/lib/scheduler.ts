@@ -0,0 +1,118 @@
+import type { RecallGrade, SchedulerId, StudentProgress, WordProgress } from "./domain";
+import {
+  calculateFailureInterval,
+  calculateNewInterval,
+  DEFAULT_CONFIG,
+  type SpacedRepetitionConfig,
+} from "./spaced-repetition";
+import { createSm2Scheduler } from "./sm2";
+import { createFsrsScheduler } from "./fsrs";
+
+/**
+ * Result of scheduling one word review
+ */
+export interface ScheduledReview {
+  progress: WordProgress;
+  wasEarlyReview: boolean;
+}
+
+/**
+ * A spaced repetition algorithm. Implementations keep any extra per-word
+ * state on WordProgress and leave other algorithms' state untouched, so a
+ * learner can switch back and forth.
+ */
+export interface Scheduler {
+  id: SchedulerId;
+  name: string;
+  review(
+    word: string,
+    existing: WordProgress | null,
+    grade: RecallGrade,
+    completedAt: number
+  ): ScheduledReview;
+}
+
+export const DEFAULT_SCHEDULER_ID: SchedulerId = "erudify";
+
+/**
+ * The original Erudify scheme: 7 days after a first success, ×5 on on-time
+ * reviews (×2 when hard, ×8 when easy), ×1.05 on early ones, back to 30
+ * seconds on failure.
+ */
+export function createErudifyScheduler(
+  config: SpacedRepetitionConfig = DEFAULT_CONFIG
+): Scheduler {
+  return {
+    id: "erudify",
+    name: "Erudify",
+    review(word, existing, grade, completedAt) {
+      const { newInterval, consecutiveSuccesses, wasEarlyReview } =
+        grade === "again"
+          ? { ...calculateFailureInterval(config), wasEarlyReview: false }
+          : calculateNewInterval(existing, completedAt, config, grade);
+
+      return {
+        progress: {
+          ...existing,
+          word,
+          lastReviewed: completedAt,
+          nextReview: completedAt + newInterval * 1000,
+          intervalSeconds: newInterval,
+          consecutiveSuccesses,
+        },
+        wasEarlyReview,
+      };
+    },
+  };
+}
+
+const SCHEDULERS: Record<SchedulerId, Scheduler> = {
+  erudify: createErudifyScheduler(),
+  sm2: createSm2Scheduler(),
+  fsrs: createFsrsScheduler(),
+};
+
+/** Schedulers in the order they are offered to learners */
+export const SCHEDULER_IDS = Object.keys(SCHEDULERS) as SchedulerId[];
+
+export function isSchedulerId(value: unknown): value is SchedulerId {
+  return typeof value === "string" && Object.hasOwn(SCHEDULERS, value);
+}
+
+export function getScheduler(id: SchedulerId = DEFAULT_SCHEDULER_ID): Scheduler {
+  return SCHEDULERS[id];
+}
+
+/**
+ * Get the scheduler the learner has chosen
+ */
+export function getProgressScheduler(progress: StudentProgress): Scheduler {
+  const selection = progress.scheduler;
+  if (selection?.id === "erudify" && selection.config) {
+    return createErudifyScheduler(selection.config);
+  }
+  return getScheduler(selection?.id);
+}
+
+/**
+ * Choose the scheduler for all future reviews. A personalised Erudify config
+ * is kept for when the learner switches back.
+ */
+export function selectScheduler(
+  progress: StudentProgress,
+  id: SchedulerId,
+  selectedAt: number
+): StudentProgress {
+  return { ...progress, scheduler: { ...progress.scheduler, id, selectedAt } };
+}
+
+/**
+ * Switch to the Erudify scheduler with personalised parameters
+ */
+export function applySchedulerConfig(
+  progress: StudentProgress,
+  config: SpacedRepetitionConfig,
+  selectedAt: number
+): StudentProgress {
+  return { ...progress, scheduler: { id: "erudify", selectedAt, config } };
+}
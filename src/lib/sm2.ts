@@ -0,0 +1,94 @@
+import type { RecallGrade, Sm2State, WordProgress } from "./domain";
+import type { Scheduler } from "./scheduler";
+import { clampInterval, DEFAULT_CONFIG } from "./spaced-repetition";
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+export interface Sm2Params {
+  initialEaseFactor: number;
+  minEaseFactor: number;
+  firstIntervalDays: number;
+  secondIntervalDays: number;
+  /** SM-2 response quality (0-5) recorded for each grade */
+  qualities: Record<RecallGrade, number>;
+}
+
+export const DEFAULT_SM2_PARAMS: Sm2Params = {
+  initialEaseFactor: 2.5,
+  minEaseFactor: 1.3,
+  firstIntervalDays: 1,
+  secondIntervalDays: 6,
+  qualities: { again: 2, hard: 3, good: 4, easy: 5 },
+};
+
+function nextEaseFactor(easeFactor: number, quality: number, params: Sm2Params): number {
+  const delta = 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02);
+  return Math.max(params.minEaseFactor, easeFactor + delta);
+}
+
+function getSm2State(existing: WordProgress | null, params: Sm2Params): Sm2State {
+  if (existing?.sm2) return existing.sm2;
+  // Words scheduled by another algorithm start with their success streak
+  return {
+    easeFactor: params.initialEaseFactor,
+    repetitions: existing?.consecutiveSuccesses ?? 0,
+  };
+}
+
+/**
+ * SM-2 (SuperMemo 2). Failed words come back after the minimum interval so
+ * they are relearned in the same session. Early reviews keep the current
+ * interval instead of counting as a repetition.
+ */
+export function createSm2Scheduler(params: Sm2Params = DEFAULT_SM2_PARAMS): Scheduler {
+  return {
+    id: "sm2",
+    name: "SM-2",
+    review(word, existing, grade, completedAt) {
+      const state = getSm2State(existing, params);
+      const success = grade !== "again";
+      const quality = params.qualities[grade];
+      const wasEarlyReview = success && existing !== null && completedAt < existing.nextReview;
+
+      let sm2: Sm2State;
+      let intervalSeconds: number;
+      if (!success) {
+        sm2 = {
+          easeFactor: nextEaseFactor(state.easeFactor, quality, params),
+          repetitions: 0,
+        };
+        intervalSeconds = DEFAULT_CONFIG.minIntervalSeconds;
+      } else if (wasEarlyReview) {
+        sm2 = state;
+        intervalSeconds = existing.intervalSeconds;
+      } else {
+        const repetitions = state.repetitions + 1;
+        sm2 = {
+          easeFactor: nextEaseFactor(state.easeFactor, quality, params),
+          repetitions,
+        };
+        if (repetitions === 1) {
+          intervalSeconds = params.firstIntervalDays * DAY_SECONDS;
+        } else if (repetitions === 2) {
+          intervalSeconds = params.secondIntervalDays * DAY_SECONDS;
+        } else {
+          intervalSeconds = (existing?.intervalSeconds ?? 0) * state.easeFactor;
+        }
+        intervalSeconds = clampInterval(Math.round(intervalSeconds), DEFAULT_CONFIG);
+      }
+
+      return {
+        progress: {
+          ...existing,
+          word,
+          lastReviewed: completedAt,
+          nextReview: completedAt + intervalSeconds * 1000,
+          intervalSeconds,
+          consecutiveSuccesses: success ? (existing?.consecutiveSuccesses ?? 0) + 1 : 0,
+          sm2,
+        },
+        wasEarlyReview,
+      };
+    },
+  };
+}
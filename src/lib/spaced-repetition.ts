@@ -1,9 +1,11 @@
-import type { WordIntervalChange } from "./domain";
+import type { RecallGrade, WordIntervalChange } from "./domain";
 
 const MIN_INTERVAL_SECONDS = 30;
 const MAX_INTERVAL_SECONDS = 365 * 24 * 60 * 60;
 const EARLY_REVIEW_MULTIPLIER = 1.05;
 const GOOD_REVIEW_MULTIPLIER = 5;
+const HARD_REVIEW_MULTIPLIER = 2;
+const EASY_REVIEW_MULTIPLIER = 8;
 const FIRST_TIME_SUCCESS_INTERVAL_SECONDS = 7 * 24 * 60 * 60;
 
 export interface SpacedRepetitionConfig {
@@ -11,6 +13,8 @@ export interface SpacedRepetitionConfig {
   maxIntervalSeconds: number;
   earlyReviewMultiplier: number;
   goodReviewMultiplier: number;
+  hardReviewMultiplier: number;
+  easyReviewMultiplier: number;
   firstTimeSuccessIntervalSeconds: number;
 }
 
@@ -19,6 +23,8 @@ export const DEFAULT_CONFIG: SpacedRepetitionConfig = {
   maxIntervalSeconds: MAX_INTERVAL_SECONDS,
   earlyReviewMultiplier: EARLY_REVIEW_MULTIPLIER,
   goodReviewMultiplier: GOOD_REVIEW_MULTIPLIER,
+  hardReviewMultiplier: HARD_REVIEW_MULTIPLIER,
+  easyReviewMultiplier: EASY_REVIEW_MULTIPLIER,
   firstTimeSuccessIntervalSeconds: FIRST_TIME_SUCCESS_INTERVAL_SECONDS,
 };
 
@@ -38,18 +44,37 @@ export function clampInterval(
   );
 }
 
+/**
+ * Multiplier for an on-time review with the given (successful) grade
+ */
+function getReviewMultiplier(
+  grade: Exclude<RecallGrade, "again">,
+  config: SpacedRepetitionConfig
+): number {
+  if (grade === "hard") return config.hardReviewMultiplier;
+  if (grade === "easy") return config.easyReviewMultiplier;
+  return config.goodReviewMultiplier;
+}
+
 export function calculateNewInterval(
   state: WordState | null,
   completedAt: number,
-  config: SpacedRepetitionConfig = DEFAULT_CONFIG
+  config: SpacedRepetitionConfig = DEFAULT_CONFIG,
+  grade: Exclude<RecallGrade, "again"> = "good"
 ): {
   newInterval: number;
   consecutiveSuccesses: number;
   wasEarlyReview: boolean;
 } {
+  const multiplier = getReviewMultiplier(grade, config);
+
   if (!state) {
+    // Hard and easy first recalls scale the first interval like on-time reviews
     return {
-      newInterval: config.firstTimeSuccessIntervalSeconds,
+      newInterval: clampInterval(
+        (config.firstTimeSuccessIntervalSeconds * multiplier) / config.goodReviewMultiplier,
+        config
+      ),
       consecutiveSuccesses: 1,
       wasEarlyReview: false,
     };
@@ -69,7 +94,7 @@ export function calculateNewInterval(
     );
   } else {
     newInterval = clampInterval(
-      actualElapsedSeconds * config.goodReviewMultiplier,
+      actualElapsedSeconds * multiplier,
       config
     );
   }
@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { QUARANTINE_KEY_PREFIX, STORAGE_KEY, STUDY_LIMITS_KEY } from "./config";
+import { CURRENT_SCHEMA_VERSION } from "./progress-migrations";
+import {
+  getEmptyProgress,
+  loadProgress,
+  loadStudyLimits,
+  saveProgress,
+  saveStudyLimits,
+} from "./storage";
+import { DEFAULT_STUDY_LIMITS } from "./study-plan";
+
+function createMemoryStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (index) => [...items.keys()][index] ?? null,
+    removeItem: (key) => {
+      items.delete(key);
+    },
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+  };
+}
+
+describe("progress storage", () => {
+  beforeEach(() => {
+    vi.stubGlobal("window", {});
+    vi.stubGlobal("localStorage", createMemoryStorage());
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("saves progress with the current schema version", () => {
+    saveProgress(getEmptyProgress());
+
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY)!);
+    expect(stored.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+  });
+
+  it("round-trips saved progress", () => {
+    const progress = {
+      ...getEmptyProgress(),
+      words: {
+        你: {
+          word: "你",
+          lastReviewed: 1000,
+          nextReview: 31000,
+          intervalSeconds: 30,
+          consecutiveSuccesses: 0,
+        },
+      },
+      exerciseLastSeen: { abc: 1000 },
+    };
+
+    saveProgress(progress);
+
+    expect(loadProgress()).toEqual(progress);
+  });
+
+  it("quarantines unreadable progress instead of discarding it", () => {
+    localStorage.setItem(STORAGE_KEY, "{not json");
+
+    const progress = loadProgress();
+
+    expect(progress.words).toEqual({});
+    const quarantineKey = localStorage.key(1)!;
+    expect(quarantineKey.startsWith(QUARANTINE_KEY_PREFIX)).toBe(true);
+    expect(localStorage.getItem(quarantineKey)).toBe("{not json");
+  });
+
+  it("quarantines progress that fails validation", () => {
+    const invalid = JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION, words: [] });
+    localStorage.setItem(STORAGE_KEY, invalid);
+
+    loadProgress();
+
+    const keys = [...Array(localStorage.length).keys()].map((i) => localStorage.key(i)!);
+    const quarantineKey = keys.find((key) => key.startsWith(QUARANTINE_KEY_PREFIX))!;
+    expect(localStorage.getItem(quarantineKey)).toBe(invalid);
+  });
+});
+
+describe("study limits storage", () => {
+  beforeEach(() => {
+    vi.stubGlobal("window", {});
+    vi.stubGlobal("localStorage", createMemoryStorage());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("round-trips saved limits", () => {
+    saveStudyLimits({ newWordsPerDay: 5, reviewsPerDay: 0 });
+    expect(loadStudyLimits()).toEqual({ newWordsPerDay: 5, reviewsPerDay: 0 });
+  });
+
+  it("falls back to the defaults for missing or invalid limits", () => {
+    expect(loadStudyLimits()).toEqual(DEFAULT_STUDY_LIMITS);
+    localStorage.setItem(STUDY_LIMITS_KEY, JSON.stringify({ newWordsPerDay: -1, reviewsPerDay: 10 }));
+    expect(loadStudyLimits()).toEqual(DEFAULT_STUDY_LIMITS);
+  });
+});
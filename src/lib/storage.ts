@@ -1,48 +1,60 @@
-import { STORAGE_KEY } from "./config";
+import {
+  CHINESE_SCRIPT_KEY,
+  DECK_SELECTION_KEY,
+  DEFAULT_DECK_IDS,
+  EXERCISE_MODES_KEY,
+  PINYIN_ANSWER_SETTINGS_KEY,
+  QUARANTINE_KEY_PREFIX,
+  STORAGE_KEY,
+  STUDY_LIMITS_KEY,
+  SYNC_SETTINGS_KEY,
+} from "./config";
+import type { ChineseScript, ExerciseMode } from "./domain/exercise";
+import {
+  ANSWER_FORMATS,
+  DEFAULT_PINYIN_ANSWER_SETTINGS,
+  type PinyinAnswerSettings,
+} from "./domain/exercise-input";
 import type { StudentProgress } from "./domain/progress";
+import { CHINESE_SCRIPTS, DEFAULT_CHINESE_SCRIPT } from "./chinese-script";
+import { DEFAULT_EXERCISE_MODES, EXERCISE_MODES } from "./comprehension";
+import { parseStoredProgress, toStoredProgress } from "./progress-migrations";
+import { DEFAULT_STUDY_LIMITS, type StudyLimits } from "./study-plan";
 
 /**
- * Default empty progress
+ * Keep a copy of unreadable progress under a separate key so it can be
+ * recovered by hand instead of being overwritten by the next save.
  */
-const EMPTY_PROGRESS: StudentProgress = {
-  words: {},
-  history: [],
-  exerciseLastSeen: {},
-  dailyMetricsHistory: {},
-};
+function quarantineProgress(raw: string): void {
+  try {
+    localStorage.setItem(`${QUARANTINE_KEY_PREFIX}${Date.now()}`, raw);
+  } catch (error) {
+    console.error("Failed to quarantine progress:", error);
+  }
+}
 
 /**
- * Load student progress from localStorage
+ * Load student progress from localStorage, migrating it to the current schema
  */
 export function loadProgress(): StudentProgress {
   if (typeof window === "undefined") {
-    return { ...EMPTY_PROGRESS };
+    return getEmptyProgress();
   }
 
+  let stored: string | null = null;
   try {
-    const stored = localStorage.getItem(STORAGE_KEY);
+    stored = localStorage.getItem(STORAGE_KEY);
     if (stored) {
-      const parsed = JSON.parse(stored);
-      const exerciseLastSeen = parsed.exerciseLastSeen || {};
-
-      if (parsed.seenExercises) {
-        parsed.seenExercises.forEach((idx: number) => {
-          if (!exerciseLastSeen[idx]) exerciseLastSeen[idx] = 1;
-        });
-      }
-
-      return {
-        words: parsed.words || {},
-        history: parsed.history || [],
-        exerciseLastSeen,
-        dailyMetricsHistory: parsed.dailyMetricsHistory || {},
-      };
+      return parseStoredProgress(JSON.parse(stored));
     }
   } catch (error) {
     console.error("Failed to load progress:", error);
+    if (stored) {
+      quarantineProgress(stored);
+    }
   }
 
-  return { ...EMPTY_PROGRESS };
+  return getEmptyProgress();
 }
 
 /**
@@ -52,13 +64,7 @@ export function saveProgress(progress: StudentProgress): void {
   if (typeof window === "undefined") return;
 
   try {
-    const toStore = {
-      words: progress.words,
-      history: progress.history,
-      exerciseLastSeen: progress.exerciseLastSeen,
-      dailyMetricsHistory: progress.dailyMetricsHistory,
-    };
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(toStore));
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(toStoredProgress(progress)));
   } catch (error) {
     console.error("Failed to save progress:", error);
   }
@@ -78,8 +84,263 @@ export function clearProgress(): void {
 }
 
 /**
- * Get empty progress object
+ * Get empty progress object, with fresh collections that are safe to mutate
  */
 export function getEmptyProgress(): StudentProgress {
-  return { ...EMPTY_PROGRESS };
+  return {
+    words: {},
+    history: [],
+    exerciseLastSeen: {},
+    dailyMetricsHistory: {},
+    reviewLog: {},
+    pauses: [],
+    toneWords: {},
+    toneLog: {},
+  };
+}
+
+/**
+ * Load the ids of the decks the student is studying from localStorage
+ */
+export function loadDeckSelection(): string[] {
+  if (typeof window === "undefined") {
+    return [...DEFAULT_DECK_IDS];
+  }
+
+  try {
+    const stored = localStorage.getItem(DECK_SELECTION_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (Array.isArray(parsed)) {
+        const deckIds = parsed.filter((id): id is string => typeof id === "string");
+        if (deckIds.length > 0) return deckIds;
+      }
+    }
+  } catch (error) {
+    console.error("Failed to load deck selection:", error);
+  }
+
+  return [...DEFAULT_DECK_IDS];
+}
+
+/**
+ * Save the ids of the decks the student is studying to localStorage
+ */
+export function saveDeckSelection(deckIds: string[]): void {
+  if (typeof window === "undefined") return;
+
+  try {
+    localStorage.setItem(DECK_SELECTION_KEY, JSON.stringify(deckIds));
+  } catch (error) {
+    console.error("Failed to save deck selection:", error);
+  }
+}
+
+/**
+ * Sync key linking this browser to synced progress, and the last revision
+ * this browser has seen
+ */
+export interface SyncSettings {
+  syncKey: string;
+  revision: number;
+}
+
+/**
+ * Load sync settings from localStorage (null when sync is disabled)
+ */
+export function loadSyncSettings(): SyncSettings | null {
+  if (typeof window === "undefined") return null;
+
+  try {
+    const stored = localStorage.getItem(SYNC_SETTINGS_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (typeof parsed?.syncKey === "string" && typeof parsed?.revision === "number") {
+        return { syncKey: parsed.syncKey, revision: parsed.revision };
+      }
+    }
+  } catch (error) {
+    console.error("Failed to load sync settings:", error);
+  }
+
+  return null;
+}
+
+/**
+ * Save sync settings to localStorage
+ */
+export function saveSyncSettings(settings: SyncSettings): void {
+  if (typeof window === "undefined") return;
+
+  try {
+    localStorage.setItem(SYNC_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Failed to save sync settings:", error);
+  }
+}
+
+/**
+ * Remove sync settings, disabling sync in this browser
+ */
+export function clearSyncSettings(): void {
+  if (typeof window === "undefined") return;
+
+  try {
+    localStorage.removeItem(SYNC_SETTINGS_KEY);
+  } catch (error) {
+    console.error("Failed to clear sync settings:", error);
+  }
+}
+
+function isLimit(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
+
+/**
+ * Load the daily new-word and review limits from localStorage
+ */
+export function loadStudyLimits(): StudyLimits {
+  if (typeof window === "undefined") {
+    return { ...DEFAULT_STUDY_LIMITS };
+  }
+
+  try {
+    const stored = localStorage.getItem(STUDY_LIMITS_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (isLimit(parsed?.newWordsPerDay) && isLimit(parsed?.reviewsPerDay)) {
+        return { newWordsPerDay: parsed.newWordsPerDay, reviewsPerDay: parsed.reviewsPerDay };
+      }
+    }
+  } catch (error) {
+    console.error("Failed to load study limits:", error);
+  }
+
+  return { ...DEFAULT_STUDY_LIMITS };
+}
+
+/**
+ * Save the daily new-word and review limits to localStorage
+ */
+export function saveStudyLimits(limits: StudyLimits): void {
+  if (typeof window === "undefined") return;
+
+  try {
+    localStorage.setItem(STUDY_LIMITS_KEY, JSON.stringify(limits));
+  } catch (error) {
+    console.error("Failed to save study limits:", error);
+  }
+}
+
+/**
+ * Load the exercise modes the learner has enabled from localStorage
+ */
+export function loadExerciseModes(): ExerciseMode[] {
+  if (typeof window === "undefined") {
+    return [...DEFAULT_EXERCISE_MODES];
+  }
+
+  try {
+    const stored = localStorage.getItem(EXERCISE_MODES_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (Array.isArray(parsed)) {
+        const modes = EXERCISE_MODES.filter((mode) => parsed.includes(mode));
+        if (modes.length > 0) return modes;
+      }
+    }
+  } catch (error) {
+    console.error("Failed to load exercise modes:", error);
+  }
+
+  return [...DEFAULT_EXERCISE_MODES];
+}
+
+/**
+ * Save the enabled exercise modes to localStorage
+ */
+export function saveExerciseModes(modes: ExerciseMode[]): void {
+  if (typeof window === "undefined") return;
+
+  try {
+    localStorage.setItem(EXERCISE_MODES_KEY, JSON.stringify(modes));
+  } catch (error) {
+    console.error("Failed to save exercise modes:", error);
+  }
+}
+
+/**
+ * Load how typed pinyin is checked from localStorage
+ */
+export function loadPinyinAnswerSettings(): PinyinAnswerSettings {
+  if (typeof window === "undefined") {
+    return { ...DEFAULT_PINYIN_ANSWER_SETTINGS };
+  }
+
+  try {
+    const stored = localStorage.getItem(PINYIN_ANSWER_SETTINGS_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      return {
+        acceptSandhi:
+          typeof parsed?.acceptSandhi === "boolean"
+            ? parsed.acceptSandhi
+            : DEFAULT_PINYIN_ANSWER_SETTINGS.acceptSandhi,
+        format: ANSWER_FORMATS.includes(parsed?.format)
+          ? parsed.format
+          : DEFAULT_PINYIN_ANSWER_SETTINGS.format,
+      };
+    }
+  } catch (error) {
+    console.error("Failed to load pinyin answer settings:", error);
+  }
+
+  return { ...DEFAULT_PINYIN_ANSWER_SETTINGS };
+}
+
+/**
+ * Save how typed pinyin is checked to localStorage
+ */
+export function savePinyinAnswerSettings(settings: PinyinAnswerSettings): void {
+  if (typeof window === "undefined") return;
+
+  try {
+    localStorage.setItem(PINYIN_ANSWER_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Failed to save pinyin answer settings:", error);
+  }
+}
+
+/**
+ * Load which Chinese script the learner reads in from localStorage
+ */
+export function loadChineseScript(): ChineseScript {
+  if (typeof window === "undefined") {
+    return DEFAULT_CHINESE_SCRIPT;
+  }
+
+  try {
+    const stored = localStorage.getItem(CHINESE_SCRIPT_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (CHINESE_SCRIPTS.includes(parsed)) return parsed;
+    }
+  } catch (error) {
+    console.error("Failed to load Chinese script:", error);
+  }
+
+  return DEFAULT_CHINESE_SCRIPT;
+}
+
+/**
+ * Save which Chinese script the learner reads in to localStorage
+ */
+export function saveChineseScript(script: ChineseScript): void {
+  if (typeof window === "undefined") return;
+
+  try {
+    localStorage.setItem(CHINESE_SCRIPT_KEY, JSON.stringify(script));
+  } catch (error) {
+    console.error("Failed to save Chinese script:", error);
+  }
 }
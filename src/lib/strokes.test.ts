@@ -0,0 +1,101 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { decode } from "cbor-x";
+import { decompress } from "fzstd";
+import { describe, expect, it } from "vitest";
+import { decodeStrokeData } from "./data-loader";
+import type { Exercise } from "./domain";
+import {
+  canWriteWord,
+  checkStroke,
+  gradeWriting,
+  STROKE_TOLERANCE,
+  strokeDistance,
+  type StrokePoint,
+} from "./strokes";
+
+// 十: a horizontal stroke, then a vertical one
+const HORIZONTAL: StrokePoint[] = [
+  [150, 500],
+  [874, 500],
+];
+const VERTICAL: StrokePoint[] = [
+  [512, 100],
+  [512, 924],
+];
+const SHI = [HORIZONTAL, VERTICAL];
+
+/** A hand-drawn version of the stroke: many points, a little off */
+function wobble(points: StrokePoint[], offset: number): StrokePoint[] {
+  const [[x1, y1], [x2, y2]] = points;
+  return Array.from({ length: 30 }, (_, i) => {
+    const t = i / 29;
+    return [x1 + (x2 - x1) * t + offset, y1 + (y2 - y1) * t - offset];
+  });
+}
+
+describe("strokeDistance", () => {
+  it("measures how far a drawn stroke strays from the median", () => {
+    expect(strokeDistance(wobble(HORIZONTAL, 0), HORIZONTAL)).toBeCloseTo(0);
+    expect(strokeDistance(wobble(HORIZONTAL, 30), HORIZONTAL)).toBeCloseTo(Math.hypot(30, 30));
+  });
+});
+
+describe("checkStroke", () => {
+  it("accepts a stroke close to the expected one", () => {
+    expect(checkStroke(wobble(HORIZONTAL, 40), SHI, 0)).toBe("correct");
+    expect(checkStroke(wobble(VERTICAL, 40), SHI, 1)).toBe("correct");
+  });
+
+  it("reports backwards and out-of-order strokes", () => {
+    expect(checkStroke(wobble(HORIZONTAL, 0).reverse(), SHI, 0)).toBe("backwards");
+    expect(checkStroke(wobble(VERTICAL, 0), SHI, 0)).toBe("out-of-order");
+  });
+
+  it("rejects strokes too far from any expected stroke", () => {
+    expect(checkStroke(wobble(HORIZONTAL, STROKE_TOLERANCE), SHI, 0)).toBe("wrong");
+    // Redrawing an earlier stroke isn't out of order
+    expect(checkStroke(wobble(HORIZONTAL, 0), SHI, 1)).toBe("wrong");
+  });
+});
+
+describe("canWriteWord", () => {
+  it("needs stroke data for every character", () => {
+    const strokes = { 十: SHI };
+
+    expect(canWriteWord("十", strokes)).toBe(true);
+    expect(canWriteWord("十一", strokes)).toBe(false);
+    expect(canWriteWord("。", strokes)).toBe(false);
+  });
+});
+
+describe("gradeWriting", () => {
+  it("grades from mistakes and hints", () => {
+    expect(gradeWriting({ mistakes: 0, hintsUsed: 0 })).toBe("good");
+    expect(gradeWriting({ mistakes: 2, hintsUsed: 0 })).toBe("hard");
+    expect(gradeWriting({ mistakes: 3, hintsUsed: 0 })).toBe("again");
+    expect(gradeWriting({ mistakes: 0, hintsUsed: 1 })).toBe("again");
+  });
+});
+
+describe("stroke data", () => {
+  it("covers every character in the decks", () => {
+    const readPublic = (file: string) => readFileSync(join(process.cwd(), "public", file));
+    const strokes = decodeStrokeData(new Uint8Array(readPublic("strokes.cbor.zstd")));
+    const manifest = JSON.parse(readPublic("decks.json").toString()) as {
+      decks: { exercises: string }[];
+    };
+
+    const missing = new Set<string>();
+    for (const deck of manifest.decks) {
+      const compressed = new Uint8Array(readPublic(deck.exercises));
+      const exercises = decode(decompress(compressed)) as Exercise[];
+      for (const segment of exercises.flatMap((exercise) => exercise.segments)) {
+        for (const character of segment.chinese.match(/\p{Script=Han}/gu) ?? []) {
+          if (!strokes[character]) missing.add(character);
+        }
+      }
+    }
+    expect([...missing]).toEqual([]);
+  });
+});
@@ -0,0 +1,118 @@
+import type { RecallGrade } from "./domain";
+import { getHanCharacters } from "./characters";
+
+/**
+ * Checking handwritten characters against bundled stroke data. The data
+ * script extracts the stroke medians of every character in the decks from
+ * Make Me a Hanzi; a drawn stroke matches when it follows the median of the
+ * expected stroke closely enough, in the right direction.
+ */
+
+/** x, y within a STROKE_BOX_SIZE square, y pointing down */
+export type StrokePoint = [number, number];
+
+/** Stroke medians of each character, in stroke order, keyed by character */
+export type StrokeData = Record<string, StrokePoint[][]>;
+
+export const STROKE_BOX_SIZE = 1024;
+
+/** Mean distance from the median within which a drawn stroke matches it */
+export const STROKE_TOLERANCE = 150;
+
+/** Strokes are compared at this many evenly spaced points */
+const RESAMPLE_POINTS = 16;
+
+/** Mistakes on one stroke after which its hint is shown */
+export const MISTAKES_BEFORE_HINT = 3;
+
+/**
+ * How a drawn stroke compares to the one expected next
+ */
+export type StrokeResult = "correct" | "backwards" | "out-of-order" | "wrong";
+
+/** What the learner did while writing a word */
+export interface WritingEvidence {
+  /** Strokes drawn wrong, backwards or out of order */
+  mistakes: number;
+  /** Strokes shown before they were drawn */
+  hintsUsed: number;
+}
+
+/**
+ * Whether every character of the word has stroke data
+ */
+export function canWriteWord(word: string, strokes: StrokeData): boolean {
+  const characters = getHanCharacters(word);
+  return characters.length > 0 && characters.every((character) => strokes[character]?.length);
+}
+
+function distance(a: StrokePoint, b: StrokePoint): number {
+  return Math.hypot(a[0] - b[0], a[1] - b[1]);
+}
+
+/**
+ * Points spaced evenly along the stroke
+ */
+function resample(points: StrokePoint[], count: number): StrokePoint[] {
+  if (points.length === 1) return Array.from({ length: count }, () => points[0]);
+
+  const lengths = [0];
+  for (let i = 1; i < points.length; i++) {
+    lengths.push(lengths[i - 1] + distance(points[i - 1], points[i]));
+  }
+  const total = lengths[lengths.length - 1];
+  if (total === 0) return Array.from({ length: count }, () => points[0]);
+
+  const resampled: StrokePoint[] = [];
+  let segment = 1;
+  for (let i = 0; i < count; i++) {
+    const target = (total * i) / (count - 1);
+    while (segment < points.length - 1 && lengths[segment] < target) segment++;
+    const [start, end] = [points[segment - 1], points[segment]];
+    const span = lengths[segment] - lengths[segment - 1];
+    const t = span === 0 ? 0 : (target - lengths[segment - 1]) / span;
+    resampled.push([start[0] + (end[0] - start[0]) * t, start[1] + (end[1] - start[1]) * t]);
+  }
+  return resampled;
+}
+
+/**
+ * Mean distance between a drawn stroke and a median, both followed from
+ * start to end
+ */
+export function strokeDistance(drawn: StrokePoint[], median: StrokePoint[]): number {
+  if (drawn.length === 0 || median.length === 0) return Infinity;
+  const a = resample(drawn, RESAMPLE_POINTS);
+  const b = resample(median, RESAMPLE_POINTS);
+  return a.reduce((sum, point, i) => sum + distance(point, b[i]), 0) / RESAMPLE_POINTS;
+}
+
+/**
+ * Compare a drawn stroke to the stroke expected next. Mistaking it for a
+ * later stroke is reported as out of order.
+ */
+export function checkStroke(
+  drawn: StrokePoint[],
+  medians: StrokePoint[][],
+  strokeIndex: number
+): StrokeResult {
+  const expected = medians[strokeIndex];
+  if (!expected) return "wrong";
+  if (strokeDistance(drawn, expected) <= STROKE_TOLERANCE) return "correct";
+  if (strokeDistance([...drawn].reverse(), expected) <= STROKE_TOLERANCE) return "backwards";
+
+  const later = medians.slice(strokeIndex + 1);
+  return later.some((median) => strokeDistance(drawn, median) <= STROKE_TOLERANCE)
+    ? "out-of-order"
+    : "wrong";
+}
+
+/**
+ * Map writing evidence to a recall grade. Needing a hint or repeated
+ * mistakes means the word could not be written from memory.
+ */
+export function gradeWriting(evidence: WritingEvidence): RecallGrade {
+  if (evidence.hintsUsed > 0 || evidence.mistakes >= MISTAKES_BEFORE_HINT) return "again";
+  if (evidence.mistakes > 0) return "hard";
+  return "good";
+}
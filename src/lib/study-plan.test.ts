@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { getStudyPlan, getTodaysActivity } from "./study-plan";
+import { updateWordFailure, updateWordSuccess } from "./exercises";
+import { getEmptyProgress } from "./storage";
+import type { StudentProgress } from "./domain";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const NOON = new Date(2026, 1, 11, 12).getTime();
+
+/**
+ * 你 and 好 learned last week and due this morning; 我 met for the first time
+ * this morning, failed, then relearned
+ */
+function makeProgress(): StudentProgress {
+  let progress = getEmptyProgress();
+  progress = updateWordSuccess("你", "nǐ", progress, NOON - 7 * DAY_MS).progress;
+  progress = updateWordSuccess("好", "hǎo", progress, NOON - 7 * DAY_MS).progress;
+  progress = updateWordFailure("我", "wǒ", progress, NOON - 2 * HOUR_MS).progress;
+  progress = updateWordSuccess("我", "wǒ", progress, NOON - HOUR_MS).progress;
+  return progress;
+}
+
+describe("getTodaysActivity", () => {
+  it("counts new words and due reviews once each", () => {
+    const progress = updateWordSuccess("你", "nǐ", makeProgress(), NOON).progress;
+    const activity = getTodaysActivity(progress, NOON);
+
+    expect([...activity.newWords]).toEqual(["我"]);
+    expect([...activity.reviewedWords]).toEqual(["你"]);
+  });
+
+  it("ignores reviews from earlier days", () => {
+    const activity = getTodaysActivity(makeProgress(), NOON + DAY_MS);
+
+    expect(activity.newWords.size).toBe(0);
+    expect(activity.reviewedWords.size).toBe(0);
+  });
+});
+
+describe("getStudyPlan", () => {
+  it("plans the due reviews and new words left within the limits", () => {
+    const plan = getStudyPlan(
+      makeProgress(),
+      ["你", "好", "我", "是", "的", "了"],
+      { newWordsPerDay: 2, reviewsPerDay: 10 },
+      NOON
+    );
+
+    expect(plan.newWords).toEqual({ done: 1, limit: 2, remaining: 1 });
+    expect(plan.reviews).toEqual({ done: 0, limit: 10, remaining: 2 });
+    expect(plan.dueToday).toBe(2);
+    expect(plan.estimatedMinutes).toBe(1);
+    expect(plan.isComplete).toBe(false);
+  });
+
+  it("is complete once the limits are reached", () => {
+    const plan = getStudyPlan(
+      makeProgress(),
+      ["你", "好", "我", "是"],
+      { newWordsPerDay: 1, reviewsPerDay: 0 },
+      NOON
+    );
+
+    expect(plan.newWords.remaining).toBe(0);
+    expect(plan.reviews.remaining).toBe(0);
+    expect(plan.isComplete).toBe(true);
+  });
+});
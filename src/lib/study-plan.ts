@@ -0,0 +1,124 @@
+import type { StudentProgress } from "./domain";
+import { getStartOfLocalDay } from "./progress-metrics";
+
+/**
+ * Daily caps on new words and reviews, and "today's plan": how much of
+ * today's work is done and how much is left. Words count once per day: a
+ * word relearned after a failure doesn't use up another review.
+ */
+
+export interface StudyLimits {
+  newWordsPerDay: number;
+  reviewsPerDay: number;
+}
+
+export const DEFAULT_STUDY_LIMITS: StudyLimits = {
+  newWordsPerDay: 20,
+  reviewsPerDay: 200,
+};
+
+/** Rough time to answer one planned word, including the rest of its sentence */
+export const ESTIMATED_SECONDS_PER_WORD = 15;
+
+export interface TodaysActivity {
+  /** Words met for the first time today */
+  newWords: Set<string>;
+  /** Other words reviewed today while they were due */
+  reviewedWords: Set<string>;
+}
+
+export interface PlanProgress {
+  done: number;
+  limit: number;
+  /** Still to do today, within the limit */
+  remaining: number;
+}
+
+export interface StudyPlan {
+  newWords: PlanProgress;
+  reviews: PlanProgress;
+  /** Words due by the end of today that haven't been reviewed today */
+  dueToday: number;
+  estimatedMinutes: number;
+  isComplete: boolean;
+}
+
+/**
+ * What the learner has studied so far today, from the review log
+ */
+export function getTodaysActivity(progress: StudentProgress, now: number): TodaysActivity {
+  const startOfDay = getStartOfLocalDay(now);
+  const newWords = new Set<string>();
+  const reviewedWords = new Set<string>();
+
+  for (const [word, reviews] of Object.entries(progress.reviewLog)) {
+    for (const review of reviews) {
+      if (review.reviewedAt < startOfDay || review.reviewedAt > now) continue;
+      if (review.elapsedSeconds === null) {
+        newWords.add(word);
+      } else if (
+        !newWords.has(word) &&
+        review.oldIntervalSeconds !== null &&
+        review.elapsedSeconds >= review.oldIntervalSeconds
+      ) {
+        reviewedWords.add(word);
+      }
+    }
+  }
+
+  return { newWords, reviewedWords };
+}
+
+function isCountedToday(word: string, activity: TodaysActivity): boolean {
+  return activity.newWords.has(word) || activity.reviewedWords.has(word);
+}
+
+/**
+ * Whether a due word may be reviewed without exceeding today's review limit
+ */
+export function canReviewWord(word: string, activity: TodaysActivity, limits: StudyLimits): boolean {
+  return isCountedToday(word, activity) || activity.reviewedWords.size < limits.reviewsPerDay;
+}
+
+export function canIntroduceNewWord(activity: TodaysActivity, limits: StudyLimits): boolean {
+  return activity.newWords.size < limits.newWordsPerDay;
+}
+
+/**
+ * Today's plan for the words in the word list (all words when it is empty)
+ */
+export function getStudyPlan(
+  progress: StudentProgress,
+  wordList: string[],
+  limits: StudyLimits,
+  now: number
+): StudyPlan {
+  const activity = getTodaysActivity(progress, now);
+  const endOfDay = getStartOfLocalDay(now) + 24 * 60 * 60 * 1000;
+  const allowedWords = new Set(wordList);
+
+  const dueToday = Object.values(progress.words).filter(
+    (wp) =>
+      wp.nextReview < endOfDay &&
+      (allowedWords.size === 0 || allowedWords.has(wp.word)) &&
+      !isCountedToday(wp.word, activity)
+  ).length;
+  const unseenWords = wordList.filter((word) => !progress.words[word]).length;
+
+  const plan = (done: number, limit: number, available: number): PlanProgress => ({
+    done,
+    limit,
+    remaining: Math.min(Math.max(0, limit - done), available),
+  });
+  const newWords = plan(activity.newWords.size, limits.newWordsPerDay, unseenWords);
+  const reviews = plan(activity.reviewedWords.size, limits.reviewsPerDay, dueToday);
+  const remainingWords = newWords.remaining + reviews.remaining;
+
+  return {
+    newWords,
+    reviews,
+    dueToday,
+    estimatedMinutes: Math.ceil((remainingWords * ESTIMATED_SECONDS_PER_WORD) / 60),
+    isComplete: remainingWords === 0,
+  };
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { getExerciseId } from "./exercise-id";
+import { getScheduler } from "./scheduler";
+import { DEFAULT_LEARNER, simulateStudy } from "./study-simulator";
+import type { Exercise } from "./domain";
+
+function makeExercise(words: string[]): Exercise {
+  return {
+    id: getExerciseId(words.join(""), words.join(" ")),
+    segments: words.map((word) => ({ chinese: word, pinyin: "x" })),
+    english: words.join(" "),
+  };
+}
+
+const WORD_LIST = Array.from({ length: 40 }, (_, i) => `w${i}`);
+const EXERCISES = WORD_LIST.flatMap((word, i) => [
+  makeExercise([word]),
+  makeExercise(i > 0 ? [WORD_LIST[i - 1], word] : [word]),
+]);
+
+describe("simulateStudy", () => {
+  it("is deterministic for a given seed", () => {
+    const options = { scheduler: getScheduler("erudify"), days: 5, minutesPerDay: 3, seed: 7 };
+    expect(simulateStudy(EXERCISES, WORD_LIST, options)).toEqual(
+      simulateStudy(EXERCISES, WORD_LIST, options)
+    );
+  });
+
+  it("reports daily load and overall outcomes", () => {
+    const report = simulateStudy(EXERCISES, WORD_LIST, {
+      scheduler: getScheduler("erudify"),
+      days: 20,
+      minutesPerDay: 3,
+      masteryIntervalDays: 7,
+    });
+
+    expect(report.days).toHaveLength(20);
+    expect(report.days[0].dueAtStart).toBe(0);
+    expect(report.days[0].newWords).toBeGreaterThan(0);
+    expect(report.wordsLearned).toBe(
+      report.days.reduce((sum, day) => sum + day.newWords, 0)
+    );
+    expect(report.retention).toBeGreaterThan(0);
+    expect(report.retention).toBeLessThanOrEqual(1);
+    expect(report.masteredWords).toBeGreaterThan(0);
+    expect(report.medianDaysToMastery).toBeGreaterThanOrEqual(0);
+  });
+
+  it("learns more words with more study time", () => {
+    const run = (minutesPerDay: number) =>
+      simulateStudy(EXERCISES, WORD_LIST, {
+        scheduler: getScheduler("erudify"),
+        days: 5,
+        minutesPerDay,
+      }).wordsLearned;
+
+    expect(run(4)).toBeGreaterThan(run(1));
+  });
+
+  it("retains less for a learner who forgets faster", () => {
+    const run = (initialStabilityDays: number) =>
+      simulateStudy(EXERCISES, WORD_LIST, {
+        scheduler: getScheduler("erudify"),
+        days: 10,
+        minutesPerDay: 3,
+        learner: { ...DEFAULT_LEARNER, initialStabilityDays },
+      }).retention ?? 0;
+
+    expect(run(0.1)).toBeLessThan(run(5));
+  });
+});
@@ -0,0 +1,238 @@
+import type { Exercise, StudentProgress, WordIntervalChange } from "./domain";
+import {
+  addExerciseToHistory,
+  getExerciseWords,
+  getPinyinForWord,
+  selectNextExercise,
+  updateWordReview,
+} from "./exercises";
+import { createRandom } from "./random";
+import type { Scheduler } from "./scheduler";
+
+/**
+ * Simulates a synthetic learner studying a deck through the real exercise
+ * selection and scheduler, so scheduling changes can be compared before they
+ * reach real learners. Used by scripts/simulate-scheduler.ts.
+ */
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+/** Recall probability the learner's stability is defined against */
+const STABILITY_RETENTION = 0.9;
+
+/**
+ * How the synthetic learner remembers. Recall decays as
+ * 0.9^(elapsed / stability); a successful review stretches stability, by less
+ * when the word was reviewed before it had started to fade.
+ */
+export interface LearnerModel {
+  /** Days until recall of a freshly learned (or relearned) word falls to 90% */
+  initialStabilityDays: number;
+  /** Factor by which a well-spaced successful review stretches stability */
+  stabilityGrowth: number;
+  /** Chance of answering a word correctly the first time it is met */
+  newWordRecall: number;
+  /** Time spent answering each word of an exercise */
+  secondsPerWord: number;
+}
+
+export const DEFAULT_LEARNER: LearnerModel = {
+  initialStabilityDays: 1,
+  stabilityGrowth: 2.5,
+  newWordRecall: 0.5,
+  secondsPerWord: 6,
+};
+
+export interface SimulationOptions {
+  scheduler: Scheduler;
+  days: number;
+  minutesPerDay: number;
+  learner?: LearnerModel;
+  seed?: number;
+  /** A word counts as mastered once its interval reaches this many days */
+  masteryIntervalDays?: number;
+  /** Start of the first study day */
+  startAt?: number;
+}
+
+export interface SimulatedDay {
+  /** 1-based day number */
+  day: number;
+  exercises: number;
+  /** Words met for the first time */
+  newWords: number;
+  /** Reviews of words met on earlier exercises */
+  reviews: number;
+  /** Reviews the learner recalled */
+  recalled: number;
+  /** Words due when the day's session started */
+  dueAtStart: number;
+  /** Words not due at the end of the day */
+  knownWords: number;
+  masteredWords: number;
+}
+
+export interface SimulationReport {
+  days: SimulatedDay[];
+  wordsLearned: number;
+  masteredWords: number;
+  /** Share of reviews recalled, or null without any review */
+  retention: number | null;
+  averageReviewsPerDay: number;
+  /** Median days from first meeting a word to mastering it, or null if none was mastered */
+  medianDaysToMastery: number | null;
+}
+
+interface LearnerMemory {
+  stabilitySeconds: number;
+  lastSeen: number;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Whether the learner recalls the word now, updating their memory of it.
+ */
+function recallWord(
+  memory: LearnerMemory | undefined,
+  now: number,
+  learner: LearnerModel,
+  random: () => number
+): { recalled: boolean; memory: LearnerMemory } {
+  const initialStability = learner.initialStabilityDays * SECONDS_PER_DAY;
+
+  if (!memory) {
+    return {
+      recalled: random() < learner.newWordRecall,
+      memory: { stabilitySeconds: initialStability, lastSeen: now },
+    };
+  }
+
+  const elapsedSeconds = Math.max(0, (now - memory.lastSeen) / 1000);
+  const fading = elapsedSeconds / memory.stabilitySeconds;
+  const recalled = random() < Math.pow(STABILITY_RETENTION, fading);
+  const stabilitySeconds = recalled
+    ? memory.stabilitySeconds * (1 + (learner.stabilityGrowth - 1) * Math.min(1, fading))
+    : initialStability;
+
+  return { recalled, memory: { stabilitySeconds, lastSeen: now } };
+}
+
+/**
+ * Run the simulation: each day the learner studies for `minutesPerDay`,
+ * taking the exercises selectNextExercise picks and answering each word
+ * according to their memory of it.
+ */
+export function simulateStudy(
+  exercises: Exercise[],
+  wordList: string[],
+  options: SimulationOptions
+): SimulationReport {
+  const learner = options.learner ?? DEFAULT_LEARNER;
+  const random = createRandom(options.seed ?? 1);
+  const masterySeconds = (options.masteryIntervalDays ?? 21) * SECONDS_PER_DAY;
+  const startAt = options.startAt ?? Date.UTC(2026, 0, 1, 9);
+  const sessionMs = options.minutesPerDay * 60 * 1000;
+
+  let progress: StudentProgress = {
+    words: {},
+    history: [],
+    exerciseLastSeen: {},
+    dailyMetricsHistory: {},
+    reviewLog: {},
+    pauses: [],
+    toneWords: {},
+    toneLog: {},
+  };
+  const memories = new Map<string, LearnerMemory>();
+  const firstSeen = new Map<string, number>();
+  const masteredAt = new Map<string, number>();
+  const days: SimulatedDay[] = [];
+
+  for (let day = 0; day < options.days; day++) {
+    const dayStart = startAt + day * SECONDS_PER_DAY * 1000;
+    const summary: SimulatedDay = {
+      day: day + 1,
+      exercises: 0,
+      newWords: 0,
+      reviews: 0,
+      recalled: 0,
+      dueAtStart: Object.values(progress.words).filter((wp) => wp.nextReview <= dayStart).length,
+      knownWords: 0,
+      masteredWords: 0,
+    };
+
+    let now = dayStart;
+    while (now - dayStart < sessionMs) {
+      const next = selectNextExercise(exercises, progress, wordList, now);
+      if (!next) break;
+
+      const words = getExerciseWords(next.exercise);
+      now += Math.max(1, words.length) * learner.secondsPerWord * 1000;
+
+      const wordChanges: WordIntervalChange[] = [];
+      for (const word of words) {
+        const memory = memories.get(word);
+        const { recalled, memory: updated } = recallWord(memory, now, learner, random);
+        memories.set(word, updated);
+
+        if (!progress.words[word]) {
+          summary.newWords += 1;
+          firstSeen.set(word, day);
+        } else {
+          summary.reviews += 1;
+          if (recalled) summary.recalled += 1;
+        }
+
+        const result = updateWordReview(
+          word,
+          getPinyinForWord(next.exercise, word),
+          progress,
+          now,
+          recalled ? "good" : "again",
+          { exerciseId: next.exercise.id, scheduler: options.scheduler }
+        );
+        progress = result.progress;
+        wordChanges.push(result.change);
+
+        if (result.change.newIntervalSeconds >= masterySeconds && !masteredAt.has(word)) {
+          masteredAt.set(word, day);
+        }
+      }
+
+      progress = addExerciseToHistory(
+        next.exercise.id,
+        wordChanges.every((change) => !change.wasFailure),
+        next.exercise,
+        wordChanges,
+        progress,
+        now
+      );
+      summary.exercises += 1;
+    }
+
+    const dayEnd = dayStart + SECONDS_PER_DAY * 1000;
+    const wordStates = Object.values(progress.words);
+    summary.knownWords = wordStates.filter((wp) => wp.nextReview > dayEnd).length;
+    summary.masteredWords = wordStates.filter((wp) => wp.intervalSeconds >= masterySeconds).length;
+    days.push(summary);
+  }
+
+  const reviews = days.reduce((sum, day) => sum + day.reviews, 0);
+  const recalled = days.reduce((sum, day) => sum + day.recalled, 0);
+
+  return {
+    days,
+    wordsLearned: Object.keys(progress.words).length,
+    masteredWords: days.at(-1)?.masteredWords ?? 0,
+    retention: reviews > 0 ? recalled / reviews : null,
+    averageReviewsPerDay: days.length > 0 ? reviews / days.length : 0,
+    medianDaysToMastery: median(
+      [...masteredAt].map(([word, day]) => day - (firstSeen.get(word) ?? day))
+    ),
+  };
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatToneDrillSyllable,
+  getToneConfusions,
+  getToneDrillSyllables,
+  getTopToneConfusions,
+  gradeToneAnswer,
+  recordToneReview,
+  selectToneDrillWord,
+} from "./tone-drill";
+import { updateWordSuccess } from "./exercises";
+import { getEmptyProgress } from "./storage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOON = new Date(2026, 1, 11, 12).getTime();
+
+const WORD_PINYIN = new Map([
+  ["你好", "nǐ hǎo"],
+  ["妹妹", "mèimei"],
+  ["。", ""],
+]);
+
+describe("getToneDrillSyllables", () => {
+  it("strips the tone of each syllable", () => {
+    expect(getToneDrillSyllables("mèimei")).toEqual([
+      { syllable: "mei", tone: 4 },
+      { syllable: "mei", tone: 5 },
+    ]);
+  });
+});
+
+describe("formatToneDrillSyllable", () => {
+  it("restores tone marks and leaves neutral tones unmarked", () => {
+    expect(getToneDrillSyllables("xuésheng").map(formatToneDrillSyllable)).toEqual(["xué", "sheng"]);
+    expect(getToneDrillSyllables("Māma").map(formatToneDrillSyllable)).toEqual(["Mā", "ma"]);
+    expect(getToneDrillSyllables("Ma").map(formatToneDrillSyllable)).toEqual(["Ma"]);
+  });
+});
+
+describe("gradeToneAnswer", () => {
+  it("grades by how many tones were right", () => {
+    expect(gradeToneAnswer([3, 3], [3, 3])).toBe("good");
+    expect(gradeToneAnswer([3, 3], [2, 3])).toBe("hard");
+    expect(gradeToneAnswer([3, 3], [2, 2])).toBe("again");
+  });
+});
+
+describe("recordToneReview", () => {
+  it("schedules tones apart from meaning recall", () => {
+    const studied = updateWordSuccess("你好", "nǐ hǎo", getEmptyProgress(), NOON).progress;
+    const progress = recordToneReview(studied, "你好", [3, 3], [2, 3], NOON);
+
+    expect(progress.words).toBe(studied.words);
+    expect(progress.reviewLog).toBe(studied.reviewLog);
+    expect(progress.toneWords["你好"].lastReviewed).toBe(NOON);
+    expect(progress.toneLog["你好"]).toEqual([
+      { reviewedAt: NOON, expected: [3, 3], answered: [2, 3] },
+    ]);
+  });
+});
+
+describe("selectToneDrillWord", () => {
+  it("drills due words first, then studied words not drilled yet", () => {
+    let progress = getEmptyProgress();
+    for (const word of ["。", "你好", "妹妹"]) {
+      progress = updateWordSuccess(word, WORD_PINYIN.get(word) ?? "", progress, NOON).progress;
+    }
+
+    expect(selectToneDrillWord(progress, WORD_PINYIN, NOON)).toBe("你好");
+
+    progress = recordToneReview(progress, "你好", [3, 3], [3, 3], NOON);
+    expect(selectToneDrillWord(progress, WORD_PINYIN, NOON)).toBe("妹妹");
+
+    progress = recordToneReview(progress, "妹妹", [4, 5], [4, 5], NOON);
+    expect(selectToneDrillWord(progress, WORD_PINYIN, NOON)).toBeNull();
+    expect(selectToneDrillWord(progress, WORD_PINYIN, NOON + 30 * DAY_MS)).toBe("你好");
+  });
+});
+
+describe("getToneConfusions", () => {
+  it("counts each answered tone against the expected one", () => {
+    const matrix = getToneConfusions({
+      你好: [
+        { reviewedAt: 1, expected: [3, 3], answered: [2, 3] },
+        { reviewedAt: 2, expected: [3, 3], answered: [2, 3] },
+      ],
+      妹妹: [{ reviewedAt: 3, expected: [4, 5], answered: [4, 1] }],
+    });
+
+    expect(matrix[2]).toEqual([0, 2, 2, 0, 0]);
+    expect(getTopToneConfusions(matrix)).toEqual([
+      { expected: 3, answered: 2, count: 2 },
+      { expected: 5, answered: 1, count: 1 },
+    ]);
+  });
+});
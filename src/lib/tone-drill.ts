@@ -0,0 +1,140 @@
+import type { Exercise, RecallGrade, StudentProgress, ToneReview } from "./domain";
+import { getExerciseWords, getPinyinForWord } from "./exercises";
+import { excludePausedTime } from "./pauses";
+import { getSyllableTone, removeTones, setSyllableTone, splitSyllables } from "./pinyin";
+import { getProgressScheduler, type Scheduler } from "./scheduler";
+
+/**
+ * Tone drill: the learner sees a word with toneless pinyin and gives the tone
+ * of each syllable. Words are scheduled for the drill in `toneWords`, apart
+ * from recall of their meaning, so a tone mistake doesn't reset a word the
+ * learner can otherwise read.
+ */
+
+/** Tones 1–4, and 5 for the neutral tone */
+export const TONES = [1, 2, 3, 4, 5];
+
+export interface ToneDrillSyllable {
+  /** The syllable without its tone mark */
+  syllable: string;
+  tone: number;
+}
+
+/** Answer counts indexed by [expected tone − 1][answered tone − 1] */
+export type ToneConfusionMatrix = number[][];
+
+export interface ToneConfusion {
+  expected: number;
+  answered: number;
+  count: number;
+}
+
+export function getToneDrillSyllables(pinyin: string): ToneDrillSyllable[] {
+  return splitSyllables(pinyin).map((syllable) => ({
+    syllable: removeTones(syllable),
+    tone: getSyllableTone(syllable),
+  }));
+}
+
+/**
+ * The syllable with its tone mark, as revealed after answering; neutral-tone
+ * syllables stay unmarked
+ */
+export function formatToneDrillSyllable({ syllable, tone }: ToneDrillSyllable): string {
+  return setSyllableTone(syllable, tone);
+}
+
+/**
+ * Pinyin of each word, from the first exercise it appears in
+ */
+export function getWordPinyin(exercises: Exercise[]): Map<string, string> {
+  const wordPinyin = new Map<string, string>();
+  for (const exercise of exercises) {
+    for (const word of getExerciseWords(exercise)) {
+      if (!wordPinyin.has(word)) wordPinyin.set(word, getPinyinForWord(exercise, word));
+    }
+  }
+  return wordPinyin;
+}
+
+/**
+ * The word to drill next: the most overdue tone review, otherwise the first
+ * studied word that hasn't been drilled yet. Null when there's nothing to
+ * drill.
+ */
+export function selectToneDrillWord(
+  progress: StudentProgress,
+  wordPinyin: Map<string, string>,
+  now: number
+): string | null {
+  const canDrill = (word: string) => getToneDrillSyllables(wordPinyin.get(word) ?? "").length > 0;
+
+  const due = Object.values(progress.toneWords)
+    .filter((wp) => wp.nextReview <= now && canDrill(wp.word))
+    .sort((a, b) => a.nextReview - b.nextReview);
+  if (due.length > 0) return due[0].word;
+
+  return Object.keys(progress.words).find((word) => !progress.toneWords[word] && canDrill(word)) ?? null;
+}
+
+/**
+ * Grade an answer: all tones right is "good", some right "hard", none "again"
+ */
+export function gradeToneAnswer(expected: number[], answered: number[]): RecallGrade {
+  const wrong = expected.filter((tone, i) => answered[i] !== tone).length;
+  if (wrong === 0) return "good";
+  return wrong < expected.length ? "hard" : "again";
+}
+
+/**
+ * Schedule the word's next tone drill and log the answer
+ */
+export function recordToneReview(
+  progress: StudentProgress,
+  word: string,
+  expected: number[],
+  answered: number[],
+  completedAt: number,
+  scheduler: Scheduler = getProgressScheduler(progress)
+): StudentProgress {
+  const stored = progress.toneWords[word];
+  const existing = stored ? excludePausedTime(stored, progress.pauses, completedAt) : null;
+  const grade = gradeToneAnswer(expected, answered);
+  const { progress: toneWord } = scheduler.review(word, existing, grade, completedAt);
+  const review: ToneReview = { reviewedAt: completedAt, expected, answered };
+
+  return {
+    ...progress,
+    toneWords: { ...progress.toneWords, [word]: toneWord },
+    toneLog: { ...progress.toneLog, [word]: [...(progress.toneLog[word] ?? []), review] },
+  };
+}
+
+/**
+ * How often each tone was answered as each other tone
+ */
+export function getToneConfusions(toneLog: Record<string, ToneReview[]>): ToneConfusionMatrix {
+  const matrix = TONES.map(() => TONES.map(() => 0));
+  for (const reviews of Object.values(toneLog)) {
+    for (const review of reviews) {
+      review.expected.forEach((tone, i) => {
+        const answered = review.answered[i];
+        if (answered !== undefined) matrix[tone - 1][answered - 1] += 1;
+      });
+    }
+  }
+  return matrix;
+}
+
+/**
+ * The most frequent mix-ups, e.g. tone 3 answered as tone 2
+ */
+export function getTopToneConfusions(matrix: ToneConfusionMatrix, limit = 3): ToneConfusion[] {
+  return matrix
+    .flatMap((row, e) =>
+      row.map((count, a) => ({ expected: e + 1, answered: a + 1, count }))
+    )
+    .filter((confusion) => confusion.expected !== confusion.answered && confusion.count > 0)
+    .sort((x, y) => y.count - x.count || x.expected - y.expected || x.answered - y.answered)
+    .slice(0, limit);
+}
@@ -1,9 +1,22 @@
 export type {
+  DeckInfo,
+  DeckManifest,
   ExerciseSegment,
   Exercise,
+  ExerciseMode,
+  ChineseScript,
+  RecallGrade,
+  SchedulerId,
+  SchedulerSelection,
+  Sm2State,
+  FsrsState,
+  LeechState,
+  PauseWindow,
   WordProgress,
   WordIntervalChange,
+  WordReview,
   ExerciseHistory,
   DailyMetricsPoint,
   StudentProgress,
+  ToneReview,
 } from "./domain";
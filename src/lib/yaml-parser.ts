@@ -1,4 +1,5 @@
 import type { Exercise } from "./domain/exercise";
+import { getExerciseId } from "./exercise-id";
 
 /**
  * Parse YAML exercises (simple parser for our specific format)
@@ -25,7 +26,7 @@ export function parseExercises(yaml: string): Exercise[] {
         }
         exercises.push(currentExercise);
       }
-      currentExercise = { segments: [], english: trimmed.slice(10).trim() };
+      currentExercise = { id: "", segments: [], english: trimmed.slice(10).trim() };
       currentSegment = null;
     } else if (trimmed === "chunks:") {
     } else if (trimmed.startsWith("- chinese:")) {
@@ -63,5 +64,12 @@ export function parseExercises(yaml: string): Exercise[] {
     exercises.push(currentExercise);
   }
 
+  for (const exercise of exercises) {
+    exercise.id = getExerciseId(
+      exercise.segments.map((s) => s.chinese).join(""),
+      exercise.english
+    );
+  }
+
   return exercises;
 }